@@ -0,0 +1,102 @@
+/**
+ * Accounts, sessions and role permissions
+ * Users live in the data directory and are seeded with one account per role on first run;
+ * sessions are kept in memory, so restarting the server signs everyone out.
+ */
+
+import crypto from 'crypto';
+import * as store from './store.js';
+
+export const ROLES = ['viewer', 'assessor', 'reviewer', 'admin'];
+
+// Keep in step with ROLE_PERMISSIONS in src/utils/auth.ts
+const ROLE_PERMISSIONS = {
+  viewer: [],
+  assessor: ['editSuppliers', 'runAIAssessment'],
+  reviewer: ['editSuppliers', 'runAIAssessment', 'trashSuppliers', 'importSuppliers'],
+  admin: ['editSuppliers', 'runAIAssessment', 'trashSuppliers', 'importSuppliers', 'deleteSuppliers', 'editWeights', 'editQuestionnaires']
+};
+
+// Development accounts, all with SEED_PASSWORD; change the passwords in users.json before real use
+const SEED_USERS = [
+  { username: 'admin', name: 'Admin', role: 'admin' },
+  { username: 'reviewer', name: 'Reviewer', role: 'reviewer' },
+  { username: 'assessor', name: 'Assessor', role: 'assessor' },
+  { username: 'viewer', name: 'Viewer', role: 'viewer' }
+];
+
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const sessions = new Map();
+
+export function hasPermission(role, permission) {
+  return (ROLE_PERMISSIONS[role] || []).includes(permission);
+}
+
+function hashPassword(password, salt) {
+  return crypto.scryptSync(password, salt, 64).toString('hex');
+}
+
+function createUser({ username, name, role }, password) {
+  const salt = crypto.randomBytes(16).toString('hex');
+  return { username, name, role, salt, passwordHash: hashPassword(password, salt) };
+}
+
+/**
+ * Create the development accounts if no user store exists yet
+ */
+export async function seedUsers() {
+  if (await store.getUsers()) return;
+  const password = process.env.SEED_PASSWORD || 'powerhouse';
+  await store.saveUsers(SEED_USERS.map(user => createUser(user, password)));
+  console.log(`👤 Seeded users ${SEED_USERS.map(user => user.username).join(', ')} with the development password`);
+}
+
+const toPublicUser = ({ username, name, role }) => ({ username, name, role });
+
+/**
+ * @returns A new session token and the signed-in user, or null if the credentials are wrong
+ */
+export async function login(username, password) {
+  const user = ((await store.getUsers()) || []).find(u => u.username === username);
+  if (!user || typeof password !== 'string') return null;
+  const expected = Buffer.from(user.passwordHash, 'hex');
+  const actual = Buffer.from(hashPassword(password, user.salt), 'hex');
+  if (!crypto.timingSafeEqual(expected, actual)) return null;
+
+  const token = crypto.randomBytes(32).toString('hex');
+  sessions.set(token, { user: toPublicUser(user), expiresAt: Date.now() + SESSION_TTL_MS });
+  return { token, user: toPublicUser(user) };
+}
+
+export function logout(token) {
+  sessions.delete(token);
+}
+
+function getToken(req) {
+  const header = req.get('Authorization') || '';
+  return header.startsWith('Bearer ') ? header.slice('Bearer '.length) : null;
+}
+
+// Middleware: attach the signed-in user as req.user, or reject with 401
+export function authenticate(req, res, next) {
+  const token = getToken(req);
+  const session = token ? sessions.get(token) : null;
+  if (!session || session.expiresAt < Date.now()) {
+    if (session) sessions.delete(token);
+    return res.status(401).json({ error: 'Sign in to continue' });
+  }
+  req.user = session.user;
+  req.token = token;
+  next();
+}
+
+// Middleware: reject with 403 unless the signed-in user's role has the permission
+export function requirePermission(permission, action) {
+  return (req, res, next) => {
+    if (!hasPermission(req.user.role, permission)) {
+      return res.status(403).json({ error: `The ${req.user.role} role cannot ${action}` });
+    }
+    next();
+  };
+}
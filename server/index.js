@@ -1,20 +1,22 @@
 /**
- * Simple Backend Server for OpenAI API Integration
- * This keeps the API key secure on the server side
+ * Simple Backend Server for OpenAI API Integration and shared data storage
+ * This keeps the API key secure on the server side and lets a team share one supplier directory
  */
 
 import express from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import OpenAI from 'openai';
+import * as store from './store.js';
+import * as auth from './auth.js';
 
 dotenv.config();
 
+// The data API works without a key; only AI assessments need one
 if (!process.env.OPENAI_API_KEY) {
-  console.error('❌ ERROR: OPENAI_API_KEY not found in environment variables!');
-  console.error('Please create a .env file with your OpenAI API key.');
-  console.error('See .env.example for reference.');
-  process.exit(1);
+  console.warn('⚠️  OPENAI_API_KEY not found in environment variables - AI assessments are disabled.');
+  console.warn('Please create a .env file with your OpenAI API key to enable them.');
+  console.warn('See .env.example for reference.');
 }
 
 const app = express();
@@ -22,20 +24,253 @@ const PORT = process.env.PORT || 3001;
 
 // Middleware
 app.use(cors());
-app.use(express.json());
+// Evidence files travel as data URLs, so allow large bodies
+app.use(express.json({ limit: '25mb' }));
 
 // Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY
-});
+const openai = process.env.OPENAI_API_KEY
+  ? new OpenAI({ apiKey: process.env.OPENAI_API_KEY })
+  : null;
 
 // Health check endpoint
 app.get('/health', (req, res) => {
   res.json({ status: 'ok', message: 'Server is running' });
 });
 
+// Error with the HTTP status to respond with, thrown from inside store updates
+class HttpError extends Error {
+  constructor(status, message, details = {}) {
+    super(message);
+    this.status = status;
+    this.details = details;
+  }
+}
+
+// Wrap async route handlers so store errors become 500 responses
+const handle = (handler) => async (req, res) => {
+  try {
+    await handler(req, res);
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message, ...error.details });
+    }
+    console.error(`${req.method} ${req.path} error:`, error);
+    res.status(500).json({ error: 'Storage error', message: error.message });
+  }
+};
+
+const isObject = (value) => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Accounts
+// Everything under /api except login needs a session token sent as "Authorization: Bearer <token>"
+
+app.post('/api/auth/login', handle(async (req, res) => {
+  const { username, password } = req.body || {};
+  const session = await auth.login(username, password);
+  if (!session) return res.status(401).json({ error: 'Incorrect username or password' });
+  res.json(session);
+}));
+
+app.use('/api', auth.authenticate);
+
+app.get('/api/auth/me', (req, res) => {
+  res.json(req.user);
+});
+
+app.post('/api/auth/logout', (req, res) => {
+  auth.logout(req.token);
+  res.status(204).end();
+});
+
+const canEditSuppliers = auth.requirePermission('editSuppliers', 'edit suppliers');
+
+// Moving suppliers to or from the trash and deleting them need more than editing rights
+function checkSupplierChanges(user, before, after) {
+  const afterById = new Map(after.map(s => [s.id, s]));
+  const removed = before.filter(s => !afterById.has(s.id));
+  if (removed.length > 0 && !auth.hasPermission(user.role, 'deleteSuppliers')) {
+    throw new HttpError(403, `The ${user.role} role cannot permanently delete suppliers`);
+  }
+  const trashChanged = before.some(s => afterById.has(s.id) && Boolean(s.deletedAt) !== Boolean(afterById.get(s.id).deletedAt));
+  if (trashChanged && !auth.hasPermission(user.role, 'trashSuppliers')) {
+    throw new HttpError(403, `The ${user.role} role cannot move suppliers to or from the trash`);
+  }
+}
+
+// Suppliers
+// The full list is read and written as { schemaVersion, suppliers, revision }; single suppliers can also be managed by ID.
+// Sending the revision last read as If-Match makes a full-list write fail with 409 if someone else has written since.
+
+app.get('/api/suppliers', handle(async (req, res) => {
+  res.json(await store.getSupplierPayload());
+}));
+
+app.put('/api/suppliers', canEditSuppliers, handle(async (req, res) => {
+  const { schemaVersion, suppliers } = req.body || {};
+  if (!Number.isInteger(schemaVersion) || !Array.isArray(suppliers)) {
+    return res.status(400).json({ error: 'Expected { schemaVersion, suppliers }' });
+  }
+  const expected = req.get('If-Match');
+  const saved = await store.updateSupplierPayload(current => {
+    if (expected !== undefined && expected !== String(current.revision || 0)) {
+      throw new HttpError(409, 'Suppliers have changed since they were read', { revision: current.revision || 0 });
+    }
+    checkSupplierChanges(req.user, current.suppliers, suppliers);
+    return { schemaVersion, suppliers };
+  });
+  res.json({ schemaVersion, count: suppliers.length, revision: saved.revision });
+}));
+
+app.get('/api/suppliers/:id', handle(async (req, res) => {
+  const { suppliers } = await store.getSupplierPayload();
+  const supplier = suppliers.find(s => s.id === req.params.id);
+  if (!supplier) return res.status(404).json({ error: 'Supplier not found' });
+  res.json(supplier);
+}));
+
+app.post('/api/suppliers', canEditSuppliers, handle(async (req, res) => {
+  const supplier = req.body;
+  if (!isObject(supplier) || typeof supplier.id !== 'string' || typeof supplier.name !== 'string') {
+    return res.status(400).json({ error: 'Supplier needs a string id and name' });
+  }
+  await store.updateSupplierPayload(payload => {
+    if (payload.suppliers.some(s => s.id === supplier.id)) {
+      throw new HttpError(409, 'A supplier with this ID already exists');
+    }
+    return { ...payload, suppliers: [...payload.suppliers, supplier] };
+  });
+  res.status(201).json(supplier);
+}));
+
+app.put('/api/suppliers/:id', canEditSuppliers, handle(async (req, res) => {
+  const supplier = req.body;
+  if (!isObject(supplier) || supplier.id !== req.params.id) {
+    return res.status(400).json({ error: 'Supplier ID does not match the URL' });
+  }
+  await store.updateSupplierPayload(payload => {
+    if (!payload.suppliers.some(s => s.id === supplier.id)) {
+      throw new HttpError(404, 'Supplier not found');
+    }
+    const suppliers = payload.suppliers.map(s => (s.id === supplier.id ? supplier : s));
+    checkSupplierChanges(req.user, payload.suppliers, suppliers);
+    return { ...payload, suppliers };
+  });
+  res.json(supplier);
+}));
+
+app.delete('/api/suppliers/:id', auth.requirePermission('deleteSuppliers', 'permanently delete suppliers'), handle(async (req, res) => {
+  await store.updateSupplierPayload(payload => {
+    if (!payload.suppliers.some(s => s.id === req.params.id)) {
+      throw new HttpError(404, 'Supplier not found');
+    }
+    return { ...payload, suppliers: payload.suppliers.filter(s => s.id !== req.params.id) };
+  });
+  res.status(204).end();
+}));
+
+// Category weights - null until a client saves them
+
+app.get('/api/weights', handle(async (req, res) => {
+  res.json(await store.getWeights());
+}));
+
+app.put('/api/weights', auth.requirePermission('editWeights', 'change category weights'), handle(async (req, res) => {
+  if (!isObject(req.body) || !Object.values(req.body).every(value => typeof value === 'number')) {
+    return res.status(400).json({ error: 'Expected an object of category weights' });
+  }
+  await store.saveWeights(req.body);
+  res.json(req.body);
+}));
+
+// Materials list
+
+app.get('/api/materials', handle(async (req, res) => {
+  res.json(await store.getMaterials());
+}));
+
+app.put('/api/materials', canEditSuppliers, handle(async (req, res) => {
+  if (!Array.isArray(req.body) || !req.body.every(material => typeof material === 'string')) {
+    return res.status(400).json({ error: 'Expected a list of material names' });
+  }
+  await store.saveMaterials(req.body);
+  res.json(req.body);
+}));
+
+// Questionnaires - { id, name, csv, updatedAt }
+
+app.get('/api/questionnaires', handle(async (req, res) => {
+  res.json(Object.values(await store.getQuestionnaires()));
+}));
+
+app.get('/api/questionnaires/:id', handle(async (req, res) => {
+  const questionnaire = (await store.getQuestionnaires())[req.params.id];
+  if (!questionnaire) return res.status(404).json({ error: 'Questionnaire not found' });
+  res.json(questionnaire);
+}));
+
+const saveQuestionnaire = (status) => handle(async (req, res) => {
+  const id = req.params.id ?? req.body?.id;
+  const { name, csv } = req.body || {};
+  if (!store.isSafeId(id) || typeof name !== 'string' || typeof csv !== 'string') {
+    return res.status(400).json({ error: 'Questionnaire needs an id (letters, numbers, - or _), name and csv' });
+  }
+  const questionnaire = { ...req.body, id, name, csv, updatedAt: new Date().toISOString() };
+  // POST only creates; PUT creates or replaces, so clients can save a questionnaire under an ID they chose
+  await store.updateQuestionnaires(questionnaires => {
+    if (status === 201 && questionnaires[id]) {
+      throw new HttpError(409, 'A questionnaire with this ID already exists');
+    }
+    return { ...questionnaires, [id]: questionnaire };
+  });
+  res.status(status).json(questionnaire);
+});
+
+const canEditQuestionnaires = auth.requirePermission('editQuestionnaires', 'edit questionnaires');
+
+app.post('/api/questionnaires', canEditQuestionnaires, saveQuestionnaire(201));
+app.put('/api/questionnaires/:id', canEditQuestionnaires, saveQuestionnaire(200));
+
+app.delete('/api/questionnaires/:id', canEditQuestionnaires, handle(async (req, res) => {
+  if (!store.isSafeId(req.params.id)) return res.status(400).json({ error: 'Invalid questionnaire ID' });
+  await store.updateQuestionnaires(({ [req.params.id]: removed, ...questionnaires }) => {
+    if (!removed) throw new HttpError(404, 'Questionnaire not found');
+    return questionnaires;
+  });
+  res.status(204).end();
+}));
+
+// Evidence files - { dataUrl }
+
+app.get('/api/evidence/:id', handle(async (req, res) => {
+  if (!store.isSafeId(req.params.id)) return res.status(400).json({ error: 'Invalid evidence ID' });
+  const dataUrl = await store.getEvidence(req.params.id);
+  if (dataUrl === null) return res.status(404).json({ error: 'Evidence file not found' });
+  res.json({ dataUrl });
+}));
+
+app.put('/api/evidence/:id', canEditSuppliers, handle(async (req, res) => {
+  const { dataUrl } = req.body || {};
+  if (!store.isSafeId(req.params.id) || typeof dataUrl !== 'string' || !dataUrl.startsWith('data:')) {
+    return res.status(400).json({ error: 'Expected { dataUrl } for a valid evidence ID' });
+  }
+  await store.saveEvidence(req.params.id, dataUrl);
+  res.status(204).end();
+}));
+
+app.delete('/api/evidence/:id', canEditSuppliers, handle(async (req, res) => {
+  if (!store.isSafeId(req.params.id)) return res.status(400).json({ error: 'Invalid evidence ID' });
+  await store.deleteEvidence(req.params.id);
+  res.status(204).end();
+}));
+
 // AI Assessment endpoint
-app.post('/api/assess', async (req, res) => {
+app.post('/api/assess', auth.requirePermission('runAIAssessment', 'run AI assessments'), async (req, res) => {
+  if (!openai) {
+    return res.status(503).json({
+      error: 'AI assessment unavailable',
+      message: 'OPENAI_API_KEY is not configured on the server'
+    });
+  }
   try {
     const { supplierName, location, materials, website, additionalNotes, criteria } = req.body;
 
@@ -162,8 +397,13 @@ Respond in JSON format:
   }
 });
 
+await auth.seedUsers();
+
 app.listen(PORT, () => {
   console.log(`🚀 Server running on http://localhost:${PORT}`);
-  console.log(`📝 Make sure OPENAI_API_KEY is set in .env file`);
+  console.log(`💾 Storing shared data in ${store.DATA_DIR}`);
+  if (!openai) {
+    console.log(`📝 Set OPENAI_API_KEY in the .env file to enable AI assessments`);
+  }
 });
 
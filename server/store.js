@@ -0,0 +1,146 @@
+/**
+ * Local JSON file store for shared supplier data
+ * Each collection is one file in DATA_DIR; writes go to a temp file first so a crash never leaves a half-written file
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+export const DATA_DIR = process.env.DATA_DIR
+  ? path.resolve(process.env.DATA_DIR)
+  : path.join(__dirname, 'data');
+
+const EVIDENCE_DIR = path.join(DATA_DIR, 'evidence');
+
+// Only IDs made of safe characters are used as file names
+const SAFE_ID = /^[A-Za-z0-9_-]+$/;
+
+// Writes are queued so concurrent requests cannot interleave on the same file
+let writeQueue = Promise.resolve();
+
+function enqueueWrite(task) {
+  const result = writeQueue.then(task);
+  writeQueue = result.catch(() => undefined);
+  return result;
+}
+
+async function readJSON(file, fallback) {
+  try {
+    return JSON.parse(await fs.readFile(path.join(DATA_DIR, file), 'utf8'));
+  } catch (error) {
+    if (error.code === 'ENOENT') return fallback;
+    throw error;
+  }
+}
+
+async function replaceJSON(file, value) {
+  await fs.mkdir(DATA_DIR, { recursive: true });
+  const target = path.join(DATA_DIR, file);
+  const temp = `${target}.${process.pid}.tmp`;
+  await fs.writeFile(temp, JSON.stringify(value, null, 2));
+  await fs.rename(temp, target);
+}
+
+function writeJSON(file, value) {
+  return enqueueWrite(() => replaceJSON(file, value));
+}
+
+export function isSafeId(id) {
+  return typeof id === 'string' && SAFE_ID.test(id);
+}
+
+// Suppliers - stored with the schema version the client wrote them at, so clients can migrate on load.
+// Every change bumps the revision, which clients send back to detect edits made since they last read.
+
+const EMPTY_SUPPLIER_PAYLOAD = { schemaVersion: 1, suppliers: [], revision: 0 };
+
+export async function getSupplierPayload() {
+  return readJSON('suppliers.json', EMPTY_SUPPLIER_PAYLOAD);
+}
+
+/**
+ * Read, change and write the supplier payload as one queued step so no other write can land in between
+ * @param update Receives the current payload and returns the new one; errors it throws are passed on
+ * @returns The saved payload with its new revision
+ */
+export function updateSupplierPayload(update) {
+  return enqueueWrite(async () => {
+    const current = await readJSON('suppliers.json', EMPTY_SUPPLIER_PAYLOAD);
+    const next = await update(current);
+    const saved = { ...next, revision: (current.revision || 0) + 1 };
+    await replaceJSON('suppliers.json', saved);
+    return saved;
+  });
+}
+
+// Weights and materials
+
+export function getWeights() {
+  return readJSON('weights.json', null);
+}
+
+export function saveWeights(weights) {
+  return writeJSON('weights.json', weights);
+}
+
+export function getMaterials() {
+  return readJSON('materials.json', []);
+}
+
+export function saveMaterials(materials) {
+  return writeJSON('materials.json', materials);
+}
+
+// Questionnaires - keyed by ID, each holding its questions in CSV form
+
+export function getQuestionnaires() {
+  return readJSON('questionnaires.json', {});
+}
+
+/**
+ * Read, change and write the questionnaires as one queued step so no other write can land in between
+ * @param update Receives the current questionnaires and returns the new ones; errors it throws are passed on
+ * @returns The saved questionnaires
+ */
+export function updateQuestionnaires(update) {
+  return enqueueWrite(async () => {
+    const next = await update(await readJSON('questionnaires.json', {}));
+    await replaceJSON('questionnaires.json', next);
+    return next;
+  });
+}
+
+// Evidence files - one data URL file per evidence ID
+
+export async function getEvidence(id) {
+  try {
+    return await fs.readFile(path.join(EVIDENCE_DIR, `${id}.txt`), 'utf8');
+  } catch (error) {
+    if (error.code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+export function saveEvidence(id, dataUrl) {
+  return enqueueWrite(async () => {
+    await fs.mkdir(EVIDENCE_DIR, { recursive: true });
+    await fs.writeFile(path.join(EVIDENCE_DIR, `${id}.txt`), dataUrl);
+  });
+}
+
+export function deleteEvidence(id) {
+  return enqueueWrite(() => fs.rm(path.join(EVIDENCE_DIR, `${id}.txt`), { force: true }));
+}
+
+// User accounts - { username, name, role, passwordHash, salt }
+
+export function getUsers() {
+  return readJSON('users.json', null);
+}
+
+export function saveUsers(users) {
+  return writeJSON('users.json', users);
+}
@@ -1,8 +1,13 @@
 import PowerhouseSupplierSystem from './components/PowerhouseSupplierSystem';
+import { WorkspaceLock } from './components/WorkspaceLock';
 import './index.css';
 
 function App() {
-  return <PowerhouseSupplierSystem />;
+  return (
+    <WorkspaceLock>
+      <PowerhouseSupplierSystem />
+    </WorkspaceLock>
+  );
 }
 
 export default App;
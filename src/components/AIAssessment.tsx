@@ -2,6 +2,8 @@ import { useState } from 'react';
 import { ChevronRight, X, AlertCircle, CheckCircle } from 'lucide-react';
 import { CriterionDefinition } from '../utils/csvParser';
 import { Supplier } from '../utils/storage';
+import { TemplateOption } from '../utils/templates';
+import { normalizeCriterionScore } from '../utils/scoring';
 
 // Clean category name - remove number prefix and extra formatting
 function cleanCategoryName(categoryName: string): string {
@@ -27,6 +29,11 @@ interface AIAssessmentProps {
   materials: string[];
   website: string;
   additionalNotes: string;
+  // Questionnaire template the assessment answers; criteriaDefinitions are its questions
+  templateId: string;
+  // A saved supplier is being reassessed, so its template cannot change
+  reassessing: boolean;
+  templates: TemplateOption[];
   processing: boolean;
   results: Record<string, AIAssessmentResult> | null;
   criteriaDefinitions: Record<string, CriterionDefinition>;
@@ -36,8 +43,9 @@ interface AIAssessmentProps {
   onMaterialsChange: (materials: string[]) => void;
   onWebsiteChange: (website: string) => void;
   onAdditionalNotesChange: (notes: string) => void;
+  onTemplateChange: (templateId: string) => void;
   onRunAssessment: () => void;
-  onSaveAssessment: (supplier: Omit<Supplier, 'id'>) => void;
+  onSaveAssessment: (supplier: Omit<Supplier, 'id' | 'assessments' | 'questionSets' | 'auditLog'>) => void;
   onReset: () => void;
   onBack: () => void;
 }
@@ -48,6 +56,9 @@ export const AIAssessment = ({
   materials,
   website,
   additionalNotes,
+  templateId,
+  reassessing,
+  templates,
   processing,
   results,
   criteriaDefinitions,
@@ -57,6 +68,7 @@ export const AIAssessment = ({
   onMaterialsChange,
   onWebsiteChange,
   onAdditionalNotesChange,
+  onTemplateChange,
   onRunAssessment,
   onSaveAssessment,
   onReset,
@@ -172,6 +184,29 @@ export const AIAssessment = ({
               </div>
             </div>
 
+            {templates.length > 1 && (
+              <div>
+                <label className="block text-xs uppercase tracking-wide text-gray-600 mb-2">Questionnaire Template</label>
+                {reassessing ? (
+                  <div className="text-sm text-black">
+                    {templates.find(template => template.id === templateId)?.name ?? templates[0].name}
+                    <span className="text-xs text-gray-500 ml-2">Chosen when the supplier was created</span>
+                  </div>
+                ) : (
+                  <select
+                    value={templateId}
+                    onChange={(e) => onTemplateChange(e.target.value)}
+                    className="w-full px-3 py-2 border-2 border-gray-300 focus:border-black focus:outline-none text-sm"
+                  >
+                    {templates.map(template => (
+                      <option key={template.id} value={template.id}>{template.name}</option>
+                    ))}
+                  </select>
+                )}
+                <p className="text-xs text-gray-500 mt-1">{Object.keys(criteriaDefinitions).length} questions will be answered</p>
+              </div>
+            )}
+
             <div>
               <label className="block text-xs uppercase tracking-wide text-gray-600 mb-3">Materials Supplied (Optional)</label>
               
@@ -310,7 +345,7 @@ export const AIAssessment = ({
               const scored = resultValues.filter(([, r]) => r.score !== null);
               const needsReviewCount = resultValues.filter(([id, r]) => getNeedsReview(id, r.needsReview)).length;
               const avgScore = scored.length > 0 
-                ? (scored.reduce((sum, [, r]) => sum + (r.score || 0), 0) / scored.length).toFixed(1)
+                ? (scored.reduce((sum, [id, r]) => sum + normalizeCriterionScore(r.score || 0, criteriaDefinitions[id]), 0) / scored.length).toFixed(1)
                 : 'N/A';
 
               return (
@@ -371,13 +406,13 @@ export const AIAssessment = ({
                           {result.score !== null ? (
                             <div>
                               <div className={`text-3xl font-light ${
-                                result.score >= 3.5 ? 'text-green-600' : 
-                                result.score >= 2.5 ? 'text-blue-600' : 
-                                result.score >= 1.5 ? 'text-yellow-600' : 
+                                normalizeCriterionScore(result.score, criterion) >= 3.5 ? 'text-green-600' : 
+                                normalizeCriterionScore(result.score, criterion) >= 2.5 ? 'text-blue-600' : 
+                                normalizeCriterionScore(result.score, criterion) >= 1.5 ? 'text-yellow-600' : 
                                 'text-red-600'
                               }`}>
                                 {result.score}
-                                <span className="text-xl text-gray-400"> / 4</span>
+                                <span className="text-xl text-gray-400"> / {criterion.maxScore}</span>
                               </div>
                               {/* Show selected option label */}
                               {criterion.options.find(opt => opt.value === result.score) && (
@@ -481,15 +516,23 @@ export const AIAssessment = ({
                 onSaveAssessment({
                   name: supplierName,
                   location: location || 'Not specified',
+                  streetAddress: '',
                   distance: 0,
                   materials: materials,
-                  contactEmail: '',
+                  contacts: [],
+                  abn: '',
+                  website: website.trim(),
+                  tradeType: '',
+                  profileNotes: '',
+                  templateId,
                   scores: Object.fromEntries(
                     Object.entries(results).map(([id, result]) => [id, result.score])
                   ),
+                  answers: {},
                   certifications: [],
                   completedCriteria: [],
                   documents: {},
+                  notApplicable: {},
                   additionalNotes: Object.fromEntries(
                     Object.entries(results).map(([id, result]) => {
                       let noteText = result.reasoning;
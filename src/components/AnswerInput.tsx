@@ -0,0 +1,102 @@
+import { CriterionDefinition } from '../utils/csvParser';
+import { QuestionAnswer, getQuestionKind } from '../utils/questionKinds';
+
+interface AnswerInputProps {
+  // A numeric, percentage, yes/no or multi-select question
+  criterion: CriterionDefinition;
+  answer: QuestionAnswer | undefined;
+  // Score derived from the answer, or given without one, e.g. by the AI assessment
+  score: number | null | undefined;
+  // null clears the answer and its score
+  onChange: (answer: QuestionAnswer | null) => void;
+}
+
+const buttonClass = (selected: boolean) => `py-3 px-2 text-xs transition-all ${
+  selected ? 'bg-black text-white' : 'bg-white text-black border border-gray-300 hover:border-black'
+}`;
+
+export const AnswerInput = ({ criterion, answer, score, onChange }: AnswerInputProps) => {
+  const kind = getQuestionKind(criterion);
+  const hasScore = score !== null && score !== undefined;
+  const scoredOption = criterion.options.find(option => option.value === score);
+
+  const handleNumberChange = (text: string) => {
+    if (!text.trim()) {
+      onChange(null);
+      return;
+    }
+    const value = parseFloat(text);
+    if (Number.isFinite(value)) onChange(value);
+  };
+
+  const toggleChoice = (choice: string) => {
+    const selected = Array.isArray(answer) ? answer : [];
+    const next = selected.includes(choice) ? selected.filter(item => item !== choice) : [...selected, choice];
+    // Keep choices in the order the question lists them
+    onChange((criterion.choices || []).filter(item => next.includes(item)));
+  };
+
+  return (
+    <div className="space-y-2">
+      {(kind === 'numeric' || kind === 'percentage') && (
+        <div className="flex items-center gap-2 max-w-xs">
+          <input
+            type="number"
+            min="0"
+            max={kind === 'percentage' ? '100' : undefined}
+            step="any"
+            value={typeof answer === 'number' ? answer : ''}
+            onChange={(e) => handleNumberChange(e.target.value)}
+            className="w-full px-3 py-2 border-2 border-gray-300 focus:border-black focus:outline-none text-sm"
+            placeholder="Answer"
+          />
+          <span className="text-sm text-gray-600">{kind === 'percentage' ? '%' : criterion.unit}</span>
+        </div>
+      )}
+
+      {kind === 'yesNo' && (
+        <div className="grid grid-cols-2 gap-2 max-w-xs">
+          {[true, false].map(value => {
+            const option = criterion.options.find(item => item.label.trim().toLowerCase() === (value ? 'yes' : 'no'));
+            const selected = answer === value;
+            return (
+              <button key={String(value)} type="button" onClick={() => onChange(selected ? null : value)} className={buttonClass(selected)}>
+                <div className="text-lg font-light mb-1">{value ? 'Yes' : 'No'}</div>
+                <div className="text-[10px] opacity-75 leading-tight">Score {option?.value ?? '-'}</div>
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {kind === 'multiSelect' && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          {(criterion.choices || []).map(choice => (
+            <label key={choice} className="flex items-center gap-2 text-sm text-black cursor-pointer">
+              <input
+                type="checkbox"
+                checked={Array.isArray(answer) && answer.includes(choice)}
+                onChange={() => toggleChoice(choice)}
+                className="w-4 h-4"
+              />
+              {choice}
+              {criterion.choiceScores && <span className="text-xs text-gray-500">Score {criterion.choiceScores[choice]}</span>}
+            </label>
+          ))}
+        </div>
+      )}
+
+      <div className="text-xs text-gray-600">
+        {answer === undefined
+          ? hasScore
+            ? `Scored ${score} without a recorded answer`
+            : `Scoring: ${criterion.options.map(option => `${option.value} = ${option.label}`).join(' • ')}`
+          : hasScore
+            ? `Score ${score}${scoredOption ? ` (${scoredOption.label})` : ''}`
+            : criterion.choiceScores
+              ? 'Select a choice to score this question'
+              : 'This answer is outside every scoring range, so it gets no score'}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,200 @@
+import { useState } from 'react';
+import { X, Paperclip } from 'lucide-react';
+import { CriterionDefinition } from '../utils/csvParser';
+import { CertificationRecord } from '../utils/storage';
+import { createCertificationRecord, getCertificationStatus, describeExpiry } from '../utils/certifications';
+import { storeEvidenceFile, EVIDENCE_FILE_TYPES } from '../utils/evidence';
+import { EvidenceFiles } from './EvidenceFiles';
+
+interface CertificationEditorProps {
+  records: CertificationRecord[];
+  criteriaDefinitions: Record<string, CriterionDefinition>;
+  onChange: (records: CertificationRecord[]) => void;
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  valid: 'bg-green-50 text-green-800 border-green-200',
+  'no-expiry': 'bg-gray-50 text-gray-600 border-gray-200',
+  expiring: 'bg-yellow-50 text-yellow-800 border-yellow-300',
+  expired: 'bg-red-50 text-red-800 border-red-300'
+};
+
+const TEXT_FIELDS: Array<{ key: 'certificateNumber' | 'issuer' | 'scope'; label: string; placeholder: string }> = [
+  { key: 'certificateNumber', label: 'Certificate Number', placeholder: 'e.g., FSC-C012345' },
+  { key: 'issuer', label: 'Issuer', placeholder: 'e.g., SGS' },
+  { key: 'scope', label: 'Scope', placeholder: 'e.g., Chain of custody, hardwood flooring' }
+];
+
+export const CertificationEditor = ({ records, criteriaDefinitions, onChange }: CertificationEditorProps) => {
+  const [newStandard, setNewStandard] = useState('');
+
+  const addRecord = () => {
+    const standard = newStandard.trim();
+    if (!standard) return;
+    onChange([...records, createCertificationRecord(standard, criteriaDefinitions)]);
+    setNewStandard('');
+  };
+
+  const updateRecord = (id: string, changes: Partial<CertificationRecord>) => {
+    onChange(records.map(record => {
+      if (record.id !== id) return record;
+      const updated = { ...record, ...changes };
+      // A new expiry date starts a new lapse check
+      if (changes.expiryDate !== undefined && changes.expiryDate !== record.expiryDate) {
+        delete updated.lapseFlaggedAt;
+      }
+      return updated;
+    }));
+  };
+
+  const attachEvidence = async (id: string, file: File | undefined) => {
+    if (!file) return;
+    try {
+      const evidence = await storeEvidenceFile(file);
+      updateRecord(id, { evidence });
+    } catch (error) {
+      alert(`Error attaching evidence: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex gap-2 mb-3">
+        <input
+          type="text"
+          value={newStandard}
+          onChange={(e) => setNewStandard(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              addRecord();
+            }
+          }}
+          placeholder="Standard, e.g., FSC, ISO 14001, B Corp..."
+          className="flex-1 px-3 py-2 border-2 border-gray-300 focus:border-black focus:outline-none text-sm"
+        />
+        <button
+          type="button"
+          onClick={addRecord}
+          className="px-4 py-2 bg-black text-white text-xs uppercase hover:bg-gray-800 transition-colors"
+        >
+          Add
+        </button>
+      </div>
+
+      <div className="space-y-4">
+        {records.map(record => {
+          const status = getCertificationStatus(record);
+          const unlinkedCriteria = Object.keys(criteriaDefinitions).filter(id => !record.criterionIds.includes(id));
+          return (
+            <div key={record.id} className="p-4 border-2 border-gray-200">
+              <div className="flex items-center justify-between mb-3">
+                <div className="flex items-center gap-3">
+                  <span className="text-base text-black">{record.standard}</span>
+                  <span className={`text-xs px-2 py-0.5 border ${STATUS_STYLES[status]}`}>{describeExpiry(record)}</span>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => onChange(records.filter(r => r.id !== record.id))}
+                  className="text-red-600 hover:text-red-800"
+                  title="Remove certification"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-3">
+                {TEXT_FIELDS.map(field => (
+                  <div key={field.key}>
+                    <label className="block text-xs uppercase tracking-wide text-gray-600 mb-1">{field.label}</label>
+                    <input
+                      type="text"
+                      value={record[field.key]}
+                      onChange={(e) => updateRecord(record.id, { [field.key]: e.target.value })}
+                      placeholder={field.placeholder}
+                      className="w-full px-2 py-1.5 border border-gray-300 focus:border-black focus:outline-none text-sm"
+                    />
+                  </div>
+                ))}
+                <div>
+                  <label className="block text-xs uppercase tracking-wide text-gray-600 mb-1">Issue Date</label>
+                  <input
+                    type="date"
+                    value={record.issueDate}
+                    onChange={(e) => updateRecord(record.id, { issueDate: e.target.value })}
+                    className="w-full px-2 py-1.5 border border-gray-300 focus:border-black focus:outline-none text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs uppercase tracking-wide text-gray-600 mb-1">Expiry Date</label>
+                  <input
+                    type="date"
+                    value={record.expiryDate}
+                    onChange={(e) => updateRecord(record.id, { expiryDate: e.target.value })}
+                    className="w-full px-2 py-1.5 border border-gray-300 focus:border-black focus:outline-none text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs uppercase tracking-wide text-gray-600 mb-1">Evidence</label>
+                  {record.evidence ? (
+                    <EvidenceFiles
+                      files={[record.evidence]}
+                      onChange={(files) => updateRecord(record.id, { evidence: files[0] })}
+                    />
+                  ) : (
+                    <label className="inline-flex items-center gap-2 px-3 py-1.5 text-xs uppercase border border-gray-300 text-gray-700 hover:border-black hover:text-black transition-colors cursor-pointer">
+                      <Paperclip className="w-3 h-3" />
+                      Attach Certificate
+                      <input
+                        type="file"
+                        accept={EVIDENCE_FILE_TYPES}
+                        onChange={(e) => {
+                          attachEvidence(record.id, e.target.files?.[0]);
+                          e.target.value = '';
+                        }}
+                        className="hidden"
+                      />
+                    </label>
+                  )}
+                </div>
+              </div>
+
+              {/* Criteria flagged for reassessment if this certificate lapses */}
+              <div>
+                <label className="block text-xs uppercase tracking-wide text-gray-600 mb-1">Supports Criteria</label>
+                <div className="flex flex-wrap items-center gap-2">
+                  {record.criterionIds.map(criterionId => (
+                    <span key={criterionId} className="inline-flex items-center px-2 py-0.5 bg-gray-100 text-gray-700 text-xs font-mono">
+                      {criterionId}
+                      <button
+                        type="button"
+                        onClick={() => updateRecord(record.id, { criterionIds: record.criterionIds.filter(id => id !== criterionId) })}
+                        className="ml-1 text-gray-500 hover:text-black"
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </span>
+                  ))}
+                  {unlinkedCriteria.length > 0 && (
+                    <select
+                      value=""
+                      onChange={(e) => {
+                        if (e.target.value) updateRecord(record.id, { criterionIds: [...record.criterionIds, e.target.value] });
+                      }}
+                      className="px-2 py-0.5 text-xs border border-gray-300 focus:border-black focus:outline-none bg-white"
+                    >
+                      <option value="">Link criterion...</option>
+                      {unlinkedCriteria.map(id => (
+                        <option key={id} value={id}>{id} - {criteriaDefinitions[id].question.slice(0, 60)}</option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
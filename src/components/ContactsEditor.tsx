@@ -0,0 +1,60 @@
+import { X } from 'lucide-react';
+import { SupplierContact } from '../utils/storage';
+
+interface ContactsEditorProps {
+  contacts: SupplierContact[];
+  onChange: (contacts: SupplierContact[]) => void;
+}
+
+const CONTACT_FIELDS: Array<{ key: keyof SupplierContact; label: string; type: string; placeholder: string }> = [
+  { key: 'name', label: 'Name', type: 'text', placeholder: 'Full name' },
+  { key: 'role', label: 'Role', type: 'text', placeholder: 'e.g., Sales, Sustainability' },
+  { key: 'email', label: 'Email', type: 'email', placeholder: 'contact@supplier.com' },
+  { key: 'phone', label: 'Phone', type: 'tel', placeholder: '+61 ...' }
+];
+
+export const ContactsEditor = ({ contacts, onChange }: ContactsEditorProps) => {
+  const updateContact = (index: number, changes: Partial<SupplierContact>) => {
+    onChange(contacts.map((contact, idx) => (idx === index ? { ...contact, ...changes } : contact)));
+  };
+
+  return (
+    <div>
+      <div className="space-y-3 mb-3">
+        {contacts.map((contact, index) => (
+          <div key={index} className="flex items-end gap-3 p-3 border border-gray-200">
+            <div className="flex-1 grid grid-cols-1 md:grid-cols-4 gap-3">
+              {CONTACT_FIELDS.map(field => (
+                <div key={field.key}>
+                  <label className="block text-xs uppercase tracking-wide text-gray-600 mb-1">{field.label}</label>
+                  <input
+                    type={field.type}
+                    value={contact[field.key]}
+                    onChange={(e) => updateContact(index, { [field.key]: e.target.value })}
+                    placeholder={field.placeholder}
+                    className="w-full px-2 py-1.5 border border-gray-300 focus:border-black focus:outline-none text-sm"
+                  />
+                </div>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={() => onChange(contacts.filter((_, idx) => idx !== index))}
+              className="mb-2 text-red-600 hover:text-red-800"
+              title="Remove contact"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+      <button
+        type="button"
+        onClick={() => onChange([...contacts, { name: '', role: '', email: '', phone: '' }])}
+        className="px-4 py-2 bg-black text-white text-xs uppercase hover:bg-gray-800 transition-colors"
+      >
+        Add Contact
+      </button>
+    </div>
+  );
+};
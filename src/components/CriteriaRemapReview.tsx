@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import { ChevronRight, AlertCircle, ArrowRight } from 'lucide-react';
+import { CriterionDefinition } from '../utils/csvParser';
+import { CriteriaRemap, getRemapConflicts, questionSimilarity } from '../utils/remap';
+
+interface CriteriaRemapReviewProps {
+  remap: CriteriaRemap;
+  criteriaDefinitions: Record<string, CriterionDefinition>;
+  // New criterion ID by old ID; null removes the answers
+  onApply: (mapping: Record<string, string | null>) => void;
+  // Leave saved answers under their current IDs
+  onDismiss: () => void;
+  onBack: () => void;
+}
+
+const truncate = (text: string, length = 90) => (text.length > length ? `${text.substring(0, length)}...` : text);
+
+export const CriteriaRemapReview = ({ remap, criteriaDefinitions, onApply, onDismiss, onBack }: CriteriaRemapReviewProps) => {
+  const [mapping, setMapping] = useState<Record<string, string | null>>(
+    () => Object.fromEntries(remap.matches.map(match => [match.oldId, match.newId]))
+  );
+  const conflicts = getRemapConflicts(mapping);
+
+  const handleApply = () => {
+    const removed = Object.values(mapping).filter(newId => newId === null).length;
+    const message = removed > 0
+      ? `Move saved answers to the selected questions? Answers for ${removed} question${removed !== 1 ? 's' : ''} will be removed from current assessments; assessment history keeps them.`
+      : 'Move saved answers to the selected questions?';
+    if (!confirm(message)) return;
+    onApply(mapping);
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto">
+      <div className="mb-8">
+        <button onClick={onBack} className="text-sm text-black mb-6 hover:underline flex items-center">
+          <ChevronRight className="w-4 h-4 rotate-180 mr-1" />
+          Back to Dashboard
+        </button>
+        <h1 className="text-3xl font-light text-black mb-3">Questionnaire Changed</h1>
+        <div className="h-px bg-black w-24 mb-4"></div>
+        <p className="text-sm text-gray-600">
+          These criteria have a different question, or no question, under the ID their answers are saved with. Each is matched to the most similar question in the current questionnaire; change any match before moving the answers.
+        </p>
+      </div>
+
+      {conflicts.length > 0 && (
+        <div className="mb-6 p-4 bg-red-50 border-l-4 border-red-600 flex items-start space-x-3 text-sm text-red-800">
+          <AlertCircle className="w-5 h-5 flex-shrink-0" />
+          <span>Answers from more than one question would move to {conflicts.join(', ')}. Choose a different question for all but one.</span>
+        </div>
+      )}
+
+      <div className="space-y-3 mb-8">
+        {remap.matches.map(match => {
+          const newId = mapping[match.oldId];
+          const similarity = newId && criteriaDefinitions[newId] ? questionSimilarity(match.oldQuestion, criteriaDefinitions[newId].question) : null;
+          return (
+            <div key={match.oldId} className={`border-2 p-4 ${newId && conflicts.includes(newId) ? 'border-red-300' : 'border-gray-200'}`}>
+              <div className="flex flex-col md:flex-row md:items-center gap-3">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 mb-1">
+                    <span className="px-2 py-0.5 bg-gray-100 text-gray-700 text-xs font-mono">{match.oldId}</span>
+                    <span className="text-xs text-gray-500">{match.supplierCount} supplier{match.supplierCount !== 1 ? 's' : ''}</span>
+                  </div>
+                  <div className="text-sm text-black">{match.oldQuestion}</div>
+                </div>
+                <ArrowRight className="w-4 h-4 text-gray-400 flex-shrink-0 hidden md:block" />
+                <div className="flex-1 min-w-0">
+                  <select
+                    value={newId ?? ''}
+                    onChange={(e) => setMapping({ ...mapping, [match.oldId]: e.target.value || null })}
+                    className="w-full px-3 py-2 border-2 border-gray-300 focus:border-black focus:outline-none text-sm"
+                  >
+                    {!remap.targetIds.includes(match.oldId) && (
+                      <option value={match.oldId}>Keep under {match.oldId} (no longer asked)</option>
+                    )}
+                    {remap.targetIds.map(id => (
+                      <option key={id} value={id}>{id}: {truncate(criteriaDefinitions[id]?.question || '')}</option>
+                    ))}
+                    <option value="">Remove these answers</option>
+                  </select>
+                  <div className="text-xs text-gray-500 mt-1">
+                    {newId === null
+                      ? 'Answers are removed from current assessments'
+                      : similarity === null
+                        ? 'Answers stay saved but are not shown'
+                        : `${Math.round(similarity * 100)}% similar`}
+                  </div>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex justify-end space-x-3">
+        <button
+          onClick={onDismiss}
+          className="px-6 py-3 border-2 border-gray-400 text-gray-700 hover:border-black hover:text-black transition-colors text-xs uppercase"
+        >
+          Leave As Is
+        </button>
+        <button
+          onClick={handleApply}
+          disabled={conflicts.length > 0}
+          className="px-6 py-3 bg-black text-white hover:bg-gray-800 transition-colors text-xs uppercase disabled:opacity-50"
+        >
+          Move Answers
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,10 @@
-import { Search, MapPin, Edit, X, Settings } from 'lucide-react';
+import { Search, MapPin, Edit, X, Settings, AlertCircle } from 'lucide-react';
 import { Supplier } from '../utils/storage';
 import { CriterionDefinition } from '../utils/csvParser';
+import { getCertificationAlerts, getCertificationStatus, describeExpiry, EXPIRY_WARNING_DAYS } from '../utils/certifications';
+import { Role, hasPermission } from '../utils/auth';
+import { TemplateOption } from '../utils/templates';
+import { getApplicableCriteria } from '../utils/conditions';
 
 interface DashboardProps {
   suppliers: Supplier[];
@@ -15,9 +19,18 @@ interface DashboardProps {
   getSupplierScore: (supplier: Supplier) => number;
   onSupplierClick: (supplier: Supplier) => void;
   onEditSupplier: (supplier: Supplier) => void;
-  onDeleteSupplier: (id: number) => void;
+  onDeleteSupplier: (id: string) => void;
   onViewChange: (view: string) => void;
-  criteriaDefinitions: Record<string, CriterionDefinition>;
+  // Questions of the template the supplier is assessed with
+  getSupplierCriteria: (supplier: Supplier) => Record<string, CriterionDefinition>;
+  getSupplierTemplateId: (supplier: Supplier) => string;
+  templates: TemplateOption[];
+  // Template ID to show, or 'all'
+  templateFilter: string;
+  setTemplateFilter: (templateId: string) => void;
+  // Questions every shown supplier's template asks the same way, when scores compare suppliers on different templates
+  commonQuestionCount: number | null;
+  role: Role;
 }
 
 export const Dashboard = ({
@@ -35,13 +48,26 @@ export const Dashboard = ({
   onEditSupplier,
   onDeleteSupplier,
   onViewChange,
-  criteriaDefinitions
+  getSupplierCriteria,
+  getSupplierTemplateId,
+  templates,
+  templateFilter,
+  setTemplateFilter,
+  commonQuestionCount,
+  role
 }: DashboardProps) => {
+  const canEdit = hasPermission(role, 'editSuppliers');
+  const canTrash = hasPermission(role, 'trashSuppliers');
+
   // Calculate completion percentage (excluding questions that need review)
   const getCompletionPercentage = (supplier: Supplier) => {
-    const totalQuestions = Object.keys(criteriaDefinitions).length;
+    // Questions skipped by earlier answers or marked not applicable count neither way
+    const applicable = getApplicableCriteria(getSupplierCriteria(supplier), supplier.scores);
+    Object.keys(supplier.notApplicable || {}).forEach(id => delete applicable[id]);
+    const totalQuestions = Object.keys(applicable).length;
     // Count only completed questions (have score and don't need review)
     const completedQuestions = Object.entries(supplier.scores).filter(([criterionId, score]) => {
+      if (!applicable[criterionId]) return false;
       // Must have a score
       if (score === null || score === undefined) return false;
       // Must not be marked as needing review
@@ -51,6 +77,8 @@ export const Dashboard = ({
     }).length;
     return totalQuestions > 0 ? Math.round((completedQuestions / totalQuestions) * 100) : 0;
   };
+  const certificationAlerts = getCertificationAlerts(suppliers);
+  const templateNames = Object.fromEntries(templates.map(template => [template.id, template.name]));
   return (
     <div className="max-w-7xl mx-auto">
       <div className="mb-8 md:mb-12">
@@ -64,23 +92,48 @@ export const Dashboard = ({
               <Settings className="w-4 h-4" />
               <span>Settings</span>
             </button>
-            <button onClick={() => onViewChange('ai-assessment')} className="w-full md:w-auto px-6 md:px-8 py-3 md:py-4 border-2 border-black bg-black text-white hover:bg-gray-900 transition-colors text-xs md:text-sm uppercase tracking-widest">
-              AI Assessment
-            </button>
-            <button onClick={() => onViewChange('supplier-form')} className="w-full md:w-auto px-6 md:px-8 py-3 md:py-4 border-2 border-black text-black hover:bg-black hover:text-white transition-colors text-xs md:text-sm uppercase tracking-widest">
-              Manual Assessment
-            </button>
+            {hasPermission(role, 'runAIAssessment') && (
+              <button onClick={() => onViewChange('ai-assessment')} className="w-full md:w-auto px-6 md:px-8 py-3 md:py-4 border-2 border-black bg-black text-white hover:bg-gray-900 transition-colors text-xs md:text-sm uppercase tracking-widest">
+                AI Assessment
+              </button>
+            )}
+            {canEdit && (
+              <button onClick={() => onViewChange('supplier-form')} className="w-full md:w-auto px-6 md:px-8 py-3 md:py-4 border-2 border-black text-black hover:bg-black hover:text-white transition-colors text-xs md:text-sm uppercase tracking-widest">
+                Manual Assessment
+              </button>
+            )}
           </div>
         </div>
       </div>
 
+      {/* Certificate expiry warnings */}
+      {certificationAlerts.length > 0 && (
+        <div className="mb-8 md:mb-12 p-4 bg-yellow-50 border-l-4 border-yellow-500">
+          <div className="flex items-center gap-2 text-sm font-medium text-yellow-900 mb-3">
+            <AlertCircle className="w-4 h-4" />
+            {certificationAlerts.length} certificate{certificationAlerts.length !== 1 ? 's' : ''} expired or expiring within {EXPIRY_WARNING_DAYS} days
+          </div>
+          <ul className="space-y-1">
+            {certificationAlerts.map(alert => (
+              <li key={`${alert.supplier.id}-${alert.record.id}`} className="text-sm">
+                <button onClick={() => onSupplierClick(alert.supplier)} className="text-left hover:underline">
+                  <span className="text-black">{alert.supplier.name}</span>
+                  <span className="text-gray-600"> – {alert.record.standard}{alert.record.certificateNumber && ` (${alert.record.certificateNumber})`}: </span>
+                  <span className={alert.status === 'expired' ? 'text-red-700' : 'text-yellow-800'}>{describeExpiry(alert.record)}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       <div className="mb-8 md:mb-12">
         <div className="mb-4 md:mb-6">
           <div className="relative">
             <Search className="absolute left-0 top-1/2 transform -translate-y-1/2 w-4 md:w-5 h-4 md:h-5 text-gray-400" />
             <input 
               type="text" 
-              placeholder="Search suppliers..." 
+              placeholder="Search by name, material, contact, ABN or website..." 
               value={searchTerm} 
               onChange={(e) => setSearchTerm(e.target.value)} 
               className="w-full pl-6 md:pl-8 pr-4 py-3 md:py-4 border-0 border-b-2 border-gray-300 focus:border-black focus:outline-none text-base md:text-lg bg-transparent" 
@@ -129,6 +182,29 @@ export const Dashboard = ({
           </div>
         </div>
 
+        {templates.length > 1 && (
+          <div className="mb-4">
+            <label className="block text-xs uppercase tracking-wide text-gray-500 mb-3">Questionnaire Template</label>
+            <div className="flex flex-wrap gap-2">
+              {[{ id: 'all', name: 'All Templates' }, ...templates].map(template => (
+                <button
+                  key={template.id}
+                  onClick={() => setTemplateFilter(template.id)}
+                  className={`px-3 py-1.5 text-xs transition-colors ${templateFilter === template.id ? 'bg-black text-white' : 'border border-gray-300 text-black hover:border-black'}`}
+                >
+                  {template.name}
+                </button>
+              ))}
+            </div>
+            {commonQuestionCount !== null && (
+              <div className="mt-3 text-xs text-gray-600">
+                Suppliers on different templates are scored on the {commonQuestionCount} question{commonQuestionCount !== 1 ? 's' : ''} all their templates ask the same way, weighted with the Standard template's category weights.
+                Choose a template to compare its suppliers on the full questionnaire.
+              </div>
+            )}
+          </div>
+        )}
+
         <div className="text-xs md:text-sm text-gray-600 text-center md:text-right">
           {filteredSuppliers.length} of {suppliers.length} suppliers
           {selectedMaterials.length > 0 && ` • ${selectedMaterials.length} material${selectedMaterials.length > 1 ? 's' : ''} selected`}
@@ -161,6 +237,9 @@ export const Dashboard = ({
                   {/* Header with name and location */}
                   <div className="mb-6">
                     <h3 className="text-xl font-light text-black mb-2 group-hover:underline">{supplier.name}</h3>
+                    {templates.length > 1 && (
+                      <div className="text-xs uppercase tracking-wide text-gray-500 mb-1">{templateNames[getSupplierTemplateId(supplier)]} template</div>
+                    )}
                     <div className="text-sm text-gray-600 flex items-center space-x-2">
                       <MapPin className="w-4 h-4" />
                       <span>{supplier.location}</span>
@@ -237,9 +316,22 @@ export const Dashboard = ({
                     <div className="mb-4">
                       <div className="text-xs text-gray-500 mb-2">{supplier.certifications.length} Certification{supplier.certifications.length !== 1 ? 's' : ''}</div>
                       <div className="flex flex-wrap gap-1">
-                        {supplier.certifications.slice(0, 3).map(cert => (
-                          <span key={cert} className="px-2 py-0.5 bg-green-50 text-green-800 text-xs border border-green-200">{cert}</span>
-                        ))}
+                        {supplier.certifications.slice(0, 3).map(cert => {
+                          const status = getCertificationStatus(cert);
+                          return (
+                            <span
+                              key={cert.id}
+                              className={`px-2 py-0.5 text-xs border ${
+                                status === 'expired' ? 'bg-red-50 text-red-800 border-red-200' :
+                                status === 'expiring' ? 'bg-yellow-50 text-yellow-800 border-yellow-200' :
+                                'bg-green-50 text-green-800 border-green-200'
+                              }`}
+                              title={describeExpiry(cert)}
+                            >
+                              {cert.standard}
+                            </span>
+                          );
+                        })}
                         {supplier.certifications.length > 3 && <span className="px-2 py-0.5 bg-green-50 text-green-800 text-xs border border-green-200">+{supplier.certifications.length - 3}</span>}
                       </div>
                     </div>
@@ -249,26 +341,30 @@ export const Dashboard = ({
                   <div className="flex items-center justify-between pt-4 border-t border-gray-200">
                     <div className="text-xs text-gray-500">{supplier.lastUpdated}</div>
                     <div className="flex space-x-2">
-                      <button 
-                        onClick={(e) => { 
-                          e.stopPropagation(); 
-                          onEditSupplier(supplier); 
-                        }} 
-                        className="p-1.5 border border-gray-300 hover:border-black text-gray-600 hover:text-black transition-colors" 
-                        title="Edit"
-                      >
-                        <Edit className="w-3 h-3" />
-                      </button>
-                      <button 
-                        onClick={(e) => { 
-                          e.stopPropagation(); 
-                          onDeleteSupplier(supplier.id); 
-                        }} 
-                        className="p-1.5 border border-red-300 hover:border-red-600 text-red-600 hover:text-red-700 transition-colors" 
-                        title="Delete"
-                      >
-                        <X className="w-3 h-3" />
-                      </button>
+                      {canEdit && (
+                        <button 
+                          onClick={(e) => { 
+                            e.stopPropagation(); 
+                            onEditSupplier(supplier); 
+                          }} 
+                          className="p-1.5 border border-gray-300 hover:border-black text-gray-600 hover:text-black transition-colors" 
+                          title="Edit"
+                        >
+                          <Edit className="w-3 h-3" />
+                        </button>
+                      )}
+                      {canTrash && (
+                        <button 
+                          onClick={(e) => { 
+                            e.stopPropagation(); 
+                            onDeleteSupplier(supplier.id); 
+                          }} 
+                          className="p-1.5 border border-red-300 hover:border-red-600 text-red-600 hover:text-red-700 transition-colors" 
+                          title="Move to trash"
+                        >
+                          <X className="w-3 h-3" />
+                        </button>
+                      )}
                     </div>
                   </div>
                 </div>
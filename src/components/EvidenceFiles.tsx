@@ -0,0 +1,122 @@
+import { useState } from 'react';
+import { Paperclip, Download, Eye, X } from 'lucide-react';
+import { EvidenceFile, loadEvidenceData } from '../utils/storage';
+import { storeEvidenceFile, downloadEvidenceFile, isPreviewable, EVIDENCE_FILE_TYPES } from '../utils/evidence';
+
+interface EvidenceFilesProps {
+  files: EvidenceFile[];
+  // Omit for a read-only list
+  onChange?: (files: EvidenceFile[]) => void;
+}
+
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export const EvidenceFiles = ({ files, onChange }: EvidenceFilesProps) => {
+  const [uploading, setUploading] = useState(false);
+  const [preview, setPreview] = useState<{ file: EvidenceFile; url: string } | null>(null);
+
+  const handleUpload = async (fileList: FileList | null) => {
+    if (!fileList || !onChange) return;
+    setUploading(true);
+    const stored: EvidenceFile[] = [];
+    for (const file of Array.from(fileList)) {
+      try {
+        stored.push(await storeEvidenceFile(file));
+      } catch (error) {
+        alert(`Error attaching evidence: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+    setUploading(false);
+    if (stored.length > 0) onChange([...files, ...stored]);
+  };
+
+  // Preview through an object URL; browsers refuse to display large data URLs directly
+  const openPreview = async (file: EvidenceFile) => {
+    const dataUrl = await loadEvidenceData(file.id);
+    if (!dataUrl) {
+      alert(`${file.name} is no longer available in this browser`);
+      return;
+    }
+    const blob = await (await fetch(dataUrl)).blob();
+    setPreview({ file, url: URL.createObjectURL(blob) });
+  };
+
+  const closePreview = () => {
+    if (preview) URL.revokeObjectURL(preview.url);
+    setPreview(null);
+  };
+
+  return (
+    <div>
+      {files.length > 0 && (
+        <ul className="space-y-1 mb-2">
+          {files.map(file => (
+            <li key={file.id} className="flex items-center justify-between gap-2 px-3 py-1.5 bg-gray-50 border border-gray-200 text-xs">
+              <span className="flex items-center gap-2 min-w-0">
+                <Paperclip className="w-3 h-3 flex-shrink-0 text-gray-500" />
+                <span className="truncate text-black">{file.name}</span>
+                <span className="text-gray-500 flex-shrink-0">{formatFileSize(file.size)}</span>
+              </span>
+              <span className="flex items-center gap-2 flex-shrink-0">
+                {isPreviewable(file) && (
+                  <button type="button" onClick={() => openPreview(file)} className="text-gray-600 hover:text-black" title="Preview">
+                    <Eye className="w-3 h-3" />
+                  </button>
+                )}
+                <button type="button" onClick={() => downloadEvidenceFile(file)} className="text-gray-600 hover:text-black" title="Download">
+                  <Download className="w-3 h-3" />
+                </button>
+                {onChange && (
+                  <button type="button" onClick={() => onChange(files.filter(f => f.id !== file.id))} className="text-red-600 hover:text-red-800" title="Remove">
+                    <X className="w-3 h-3" />
+                  </button>
+                )}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+      {onChange && (
+        <label className={`inline-flex items-center gap-2 px-3 py-1.5 text-xs uppercase border border-gray-300 text-gray-700 hover:border-black hover:text-black transition-colors ${uploading ? 'opacity-50 cursor-wait' : 'cursor-pointer'}`}>
+          <Paperclip className="w-3 h-3" />
+          {uploading ? 'Attaching...' : 'Attach Evidence'}
+          <input
+            type="file"
+            multiple
+            accept={EVIDENCE_FILE_TYPES}
+            disabled={uploading}
+            onChange={(e) => {
+              handleUpload(e.target.files);
+              e.target.value = '';
+            }}
+            className="hidden"
+          />
+        </label>
+      )}
+
+      {preview && (
+        <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4" onClick={closePreview}>
+          <div className="bg-white w-full max-w-4xl max-h-full flex flex-col border-2 border-black" onClick={(e) => e.stopPropagation()}>
+            <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+              <span className="text-sm text-black truncate">{preview.file.name}</span>
+              <button type="button" onClick={closePreview} className="text-gray-600 hover:text-black" title="Close">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+            <div className="flex-1 overflow-auto p-4">
+              {preview.file.type.startsWith('image/') ? (
+                <img src={preview.url} alt={preview.file.name} className="max-w-full mx-auto" />
+              ) : (
+                <iframe src={preview.url} title={preview.file.name} className="w-full h-[75vh]" />
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
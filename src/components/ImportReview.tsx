@@ -0,0 +1,365 @@
+import { useState, useMemo } from 'react';
+import { ChevronRight, AlertCircle, CheckCircle, XCircle } from 'lucide-react';
+import { Supplier } from '../utils/storage';
+import { CriterionDefinition } from '../utils/csvParser';
+import { buildMergePlan, applyMergePlan, MatchMode, ConflictChoice, MergeSummary, formatFieldValue } from '../utils/merge';
+import { validateSupplier, InvalidRecord } from '../utils/validation';
+import { Role, hasPermission } from '../utils/auth';
+
+interface ImportReviewProps {
+  fileName: string;
+  importedSuppliers: Supplier[];
+  invalidRecords: InvalidRecord[];
+  existingSuppliers: Supplier[];
+  criteriaDefinitions: Record<string, CriterionDefinition>;
+  author: string;
+  role: Role;
+  onApply: (suppliers: Supplier[]) => void;
+  onClose: () => void;
+}
+
+export const ImportReview = ({
+  fileName,
+  importedSuppliers,
+  invalidRecords,
+  existingSuppliers,
+  criteriaDefinitions,
+  author,
+  role,
+  onApply,
+  onClose
+}: ImportReviewProps) => {
+  // Replacing drops every current supplier, so it needs the right to delete them permanently
+  const canReplace = hasPermission(role, 'deleteSuppliers');
+  const [mode, setMode] = useState<'merge' | 'replace'>('merge');
+  const [matchBy, setMatchBy] = useState<MatchMode>('id');
+  // Chosen side per conflict, keyed by plan index then field key
+  const [choices, setChoices] = useState<Record<number, Record<string, ConflictChoice>>>({});
+  const [summary, setSummary] = useState<MergeSummary | null>(null);
+  // Invalid records still awaiting a fix or drop decision
+  const [unresolved, setUnresolved] = useState<InvalidRecord[]>(invalidRecords);
+  const [fixedSuppliers, setFixedSuppliers] = useState<Supplier[]>([]);
+  const [rejected, setRejected] = useState<InvalidRecord[]>([]);
+  // JSON being edited for each record opened for fixing, keyed by row
+  const [drafts, setDrafts] = useState<Record<number, string>>({});
+
+  const suppliersToImport = useMemo(
+    () => [...importedSuppliers, ...fixedSuppliers],
+    [importedSuppliers, fixedSuppliers]
+  );
+  const plan = useMemo(
+    () => buildMergePlan(existingSuppliers, suppliersToImport, matchBy),
+    [existingSuppliers, suppliersToImport, matchBy]
+  );
+  const conflictItems = plan.map((item, index) => ({ item, index })).filter(({ item }) => item.conflicts.length > 0);
+  const conflictCount = conflictItems.reduce((sum, { item }) => sum + item.conflicts.length, 0);
+  const newCount = plan.filter(item => !item.existing).length;
+  const matchedCount = plan.length - newCount;
+
+  const choose = (index: number, key: string, choice: ConflictChoice) => {
+    setChoices(prev => ({ ...prev, [index]: { ...prev[index], [key]: choice } }));
+  };
+
+  const chooseAll = (choice: ConflictChoice) => {
+    const next: Record<number, Record<string, ConflictChoice>> = {};
+    conflictItems.forEach(({ item, index }) => {
+      next[index] = Object.fromEntries(item.conflicts.map(conflict => [conflict.key, choice]));
+    });
+    setChoices(next);
+  };
+
+  const dropRecord = (invalid: InvalidRecord) => {
+    setUnresolved(prev => prev.filter(item => item.row !== invalid.row));
+    setRejected(prev => [...prev, invalid]);
+  };
+
+  // Re-validate an edited record; it joins the import once it passes
+  const applyFix = (invalid: InvalidRecord) => {
+    let record: unknown;
+    try {
+      record = JSON.parse(drafts[invalid.row]);
+    } catch (error) {
+      setUnresolved(prev => prev.map(item => item.row === invalid.row
+        ? { ...item, issues: [{ field: '(record)', problem: `Not valid JSON: ${(error as Error).message}` }] }
+        : item));
+      return;
+    }
+    const issues = validateSupplier(record);
+    if (issues.length > 0) {
+      setUnresolved(prev => prev.map(item => item.row === invalid.row ? { ...item, record, issues } : item));
+      return;
+    }
+    setUnresolved(prev => prev.filter(item => item.row !== invalid.row));
+    setFixedSuppliers(prev => [...prev, record as Supplier]);
+  };
+
+  const handleApply = () => {
+    if (mode === 'replace' && !confirm(`Replace all ${existingSuppliers.length} current suppliers with the ${suppliersToImport.length} valid suppliers in ${fileName}?`)) return;
+    // Anything not fixed by now is rejected
+    setRejected(prev => [...prev, ...unresolved]);
+    setUnresolved([]);
+    if (mode === 'replace') {
+      onApply(suppliersToImport);
+      setSummary({ added: suppliersToImport.map(s => s.name), updated: [], skipped: [] });
+      return;
+    }
+    const result = applyMergePlan(existingSuppliers, plan, choices, author);
+    onApply(result.suppliers);
+    setSummary(result.summary);
+  };
+
+  // Label for an invalid record: its name if it has one, otherwise its row
+  const recordLabel = (invalid: InvalidRecord) => {
+    const name = (invalid.record as Record<string, any> | null)?.name;
+    return typeof name === 'string' && name.trim() ? `Row ${invalid.row}: ${name}` : `Row ${invalid.row}`;
+  };
+
+  // Summary after the import has been applied
+  if (summary) {
+    const groups: Array<{ title: string; names: string[]; className: string }> = [
+      { title: 'Added', names: summary.added, className: 'text-green-700' },
+      { title: 'Updated', names: summary.updated, className: 'text-blue-700' },
+      { title: 'Skipped (no changes)', names: summary.skipped, className: 'text-gray-500' },
+      { title: 'Rejected (invalid)', names: rejected.map(recordLabel), className: 'text-red-700' }
+    ];
+    return (
+      <div className="max-w-5xl mx-auto">
+        <div className="mb-8">
+          <h1 className="text-3xl font-light text-black mb-3">Import Complete</h1>
+          <div className="h-px bg-black w-24 mb-4"></div>
+          <p className="text-sm text-gray-600">{fileName}</p>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-8">
+          {groups.map(group => (
+            <div key={group.title} className="p-4 border-2 border-gray-200">
+              <div className="text-xs uppercase tracking-wide text-gray-600 mb-2">{group.title}</div>
+              <div className={`text-3xl font-light mb-3 ${group.className}`}>{group.names.length}</div>
+              <ul className="text-sm text-gray-700 space-y-1">
+                {group.names.map((name, idx) => <li key={idx}>{name}</li>)}
+              </ul>
+            </div>
+          ))}
+        </div>
+        <div className="flex justify-end">
+          <button onClick={onClose} className="px-12 py-4 bg-black text-white text-xs uppercase tracking-widest hover:bg-gray-800 transition-colors">
+            Done
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto">
+      <div className="mb-8">
+        <button onClick={onClose} className="text-sm text-black mb-6 hover:underline flex items-center">
+          <ChevronRight className="w-4 h-4 rotate-180 mr-1" />
+          Cancel Import
+        </button>
+        <h1 className="text-3xl font-light text-black mb-3">Import Suppliers</h1>
+        <div className="h-px bg-black w-24 mb-4"></div>
+        <p className="text-sm text-gray-600">
+          {suppliersToImport.length} valid supplier{suppliersToImport.length !== 1 ? 's' : ''} in {fileName}
+          {unresolved.length > 0 && ` • ${unresolved.length} invalid`}
+          {rejected.length > 0 && ` • ${rejected.length} dropped`}
+        </p>
+      </div>
+
+      {/* Validation report - invalid records are rejected unless fixed */}
+      {unresolved.length > 0 && (
+        <section className="mb-12">
+          <h2 className="text-xl font-light text-black mb-2">Invalid Records</h2>
+          <p className="text-sm text-gray-600 mb-6">
+            These records do not match the supplier format and will not be imported. Fix the JSON to include a record, or drop it.
+          </p>
+          <div className="space-y-6">
+            {unresolved.map(invalid => (
+              <div key={invalid.row} className="p-4 border-2 border-red-200">
+                <div className="flex items-center justify-between mb-3">
+                  <div className="flex items-center gap-2 text-sm font-medium text-red-900">
+                    <XCircle className="w-4 h-4" />
+                    {recordLabel(invalid)}
+                  </div>
+                  <div className="flex gap-2">
+                    {drafts[invalid.row] === undefined && (
+                      <button
+                        onClick={() => setDrafts(prev => ({ ...prev, [invalid.row]: JSON.stringify(invalid.record, null, 2) }))}
+                        className="px-3 py-1.5 text-xs uppercase border border-gray-300 text-black hover:border-black transition-colors"
+                      >
+                        Fix
+                      </button>
+                    )}
+                    <button
+                      onClick={() => dropRecord(invalid)}
+                      className="px-3 py-1.5 text-xs uppercase border border-red-300 text-red-700 hover:border-red-600 transition-colors"
+                    >
+                      Drop
+                    </button>
+                  </div>
+                </div>
+                <table className="w-full text-xs text-left mb-3">
+                  <thead className="text-gray-600 uppercase tracking-wide">
+                    <tr>
+                      <th className="py-1 pr-4 font-normal">Field</th>
+                      <th className="py-1 font-normal">Problem</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {invalid.issues.map((issue, idx) => (
+                      <tr key={idx} className="border-t border-gray-200">
+                        <td className="py-1 pr-4 font-mono text-gray-700">{issue.field}</td>
+                        <td className="py-1 text-red-800">{issue.problem}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {drafts[invalid.row] !== undefined && (
+                  <div>
+                    <textarea
+                      value={drafts[invalid.row]}
+                      onChange={(e) => setDrafts(prev => ({ ...prev, [invalid.row]: e.target.value }))}
+                      className="w-full px-3 py-2 border border-gray-300 focus:border-black focus:outline-none text-xs font-mono resize-y min-h-[200px]"
+                    />
+                    <div className="flex justify-end mt-2">
+                      <button
+                        onClick={() => applyFix(invalid)}
+                        className="px-4 py-2 bg-black text-white text-xs uppercase hover:bg-gray-800 transition-colors"
+                      >
+                        Apply Fix
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {/* Import mode */}
+      <section className="mb-12">
+        <h2 className="text-xl font-light text-black mb-6">Import Mode</h2>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+          <button
+            type="button"
+            onClick={() => setMode('merge')}
+            className={`p-4 text-left transition-colors ${mode === 'merge' ? 'bg-black text-white' : 'border-2 border-gray-300 text-black hover:border-black'}`}
+          >
+            <div className="text-sm font-medium mb-1">Merge</div>
+            <div className="text-xs opacity-75">Add new suppliers and combine matching ones, choosing a side where they differ</div>
+          </button>
+          {canReplace && (
+            <button
+              type="button"
+              onClick={() => setMode('replace')}
+              className={`p-4 text-left transition-colors ${mode === 'replace' ? 'bg-black text-white' : 'border-2 border-gray-300 text-black hover:border-black'}`}
+            >
+              <div className="text-sm font-medium mb-1">Replace</div>
+              <div className="text-xs opacity-75">Discard the current {existingSuppliers.length} suppliers and use the imported file</div>
+            </button>
+          )}
+        </div>
+
+        {mode === 'merge' && (
+          <div>
+            <label className="block text-xs uppercase tracking-wide text-gray-500 mb-3">Match Suppliers By</label>
+            <div className="flex flex-wrap gap-2 mb-4">
+              {[
+                { value: 'id' as MatchMode, label: 'Supplier ID' },
+                { value: 'name' as MatchMode, label: 'Name' }
+              ].map(option => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => { setMatchBy(option.value); setChoices({}); }}
+                  className={`px-3 py-1.5 text-xs transition-colors ${matchBy === option.value ? 'bg-black text-white' : 'border border-gray-300 text-black hover:border-black'}`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <div className="text-sm text-gray-600">
+              {newCount} new • {matchedCount} matched • {conflictCount} conflicting field{conflictCount !== 1 ? 's' : ''}
+            </div>
+          </div>
+        )}
+      </section>
+
+      {/* Conflicts */}
+      {mode === 'merge' && conflictItems.length > 0 && (
+        <section className="mb-12">
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-xl font-light text-black">Resolve Conflicts</h2>
+            <div className="flex gap-2">
+              <button onClick={() => chooseAll('current')} className="px-3 py-1.5 text-xs uppercase border border-gray-300 text-black hover:border-black transition-colors">
+                Keep All Current
+              </button>
+              <button onClick={() => chooseAll('imported')} className="px-3 py-1.5 text-xs uppercase border border-gray-300 text-black hover:border-black transition-colors">
+                Use All Imported
+              </button>
+            </div>
+          </div>
+          <p className="text-sm text-gray-600 mb-6">Unresolved conflicts keep the current value.</p>
+
+          {conflictItems.map(({ item, index }) => (
+            <div key={index} className="mb-8">
+              <div className="mb-4 pb-3 border-b-2 border-black">
+                <h3 className="text-lg font-light text-black">{item.existing?.name}</h3>
+              </div>
+              <div className="space-y-4">
+                {item.conflicts.map(conflict => {
+                  const choice = choices[index]?.[conflict.key] ?? 'current';
+                  const question = conflict.criterionId ? criteriaDefinitions[conflict.criterionId]?.question : undefined;
+                  return (
+                    <div key={conflict.key} className="pb-4 border-b border-gray-200 last:border-0">
+                      <div className="flex items-center gap-3 mb-2">
+                        <span className="px-2 py-0.5 bg-gray-100 text-gray-700 text-xs font-mono">{conflict.label}</span>
+                        {question && <span className="text-xs text-gray-500 truncate">{question}</span>}
+                      </div>
+                      <div className="grid grid-cols-2 gap-2">
+                        {(['current', 'imported'] as ConflictChoice[]).map(side => (
+                          <button
+                            key={side}
+                            type="button"
+                            onClick={() => choose(index, conflict.key, side)}
+                            className={`p-3 text-left text-sm transition-colors ${choice === side ? 'bg-black text-white' : 'border border-gray-300 text-black hover:border-black'}`}
+                          >
+                            <div className="text-[10px] uppercase tracking-wide opacity-75 mb-1">{side === 'current' ? 'Current' : 'Imported'}</div>
+                            <div className="whitespace-pre-wrap line-clamp-4">{formatFieldValue(side === 'current' ? conflict.currentValue : conflict.importedValue)}</div>
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </section>
+      )}
+
+      {mode === 'merge' && conflictItems.length === 0 && (
+        <div className="mb-12 p-4 bg-green-50 border-l-4 border-green-600 flex items-center space-x-2 text-sm text-green-800">
+          <CheckCircle className="w-4 h-4" />
+          <span>No conflicts - matching suppliers can be combined automatically.</span>
+        </div>
+      )}
+
+      {mode === 'replace' && (
+        <div className="mb-12 p-4 bg-yellow-50 border-l-4 border-yellow-600 flex items-center space-x-2 text-sm text-yellow-800">
+          <AlertCircle className="w-4 h-4" />
+          <span>Replacing removes every current supplier. Export your data first if you may need it.</span>
+        </div>
+      )}
+
+      <div className="flex justify-end gap-3 pt-6 border-t border-gray-300">
+        <button onClick={onClose} className="px-12 py-4 border-2 border-black text-black hover:bg-black hover:text-white transition-colors text-xs uppercase tracking-widest">
+          Cancel
+        </button>
+        <button onClick={handleApply} className="px-12 py-4 bg-black text-white text-xs uppercase tracking-widest hover:bg-gray-800 transition-colors">
+          {mode === 'merge' ? 'Merge Suppliers' : 'Replace Suppliers'}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+import { useState } from 'react';
+import { ChevronRight, LogIn } from 'lucide-react';
+import { login, Session } from '../utils/auth';
+
+interface LoginViewProps {
+  serverUrl: string;
+  onLogin: (session: Session) => void;
+  // Omit when signing in is required, e.g. while using the shared server
+  onCancel?: () => void;
+}
+
+export const LoginView = ({ serverUrl, onLogin, onCancel }: LoginViewProps) => {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [signingIn, setSigningIn] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSigningIn(true);
+    setError(null);
+    try {
+      onLogin(await login(serverUrl, username.trim(), password));
+    } catch (err) {
+      // fetch rejects with a TypeError when the server cannot be reached
+      setError(err instanceof TypeError ? `Cannot reach the server at ${serverUrl}` : err instanceof Error ? err.message : 'Sign in failed');
+      setSigningIn(false);
+    }
+  };
+
+  return (
+    <div className="max-w-md mx-auto">
+      <div className="mb-8">
+        {onCancel && (
+          <button onClick={onCancel} className="text-sm text-black mb-6 hover:underline flex items-center">
+            <ChevronRight className="w-4 h-4 rotate-180 mr-1" />
+            Back to Dashboard
+          </button>
+        )}
+        <h1 className="text-3xl font-light text-black mb-3">Sign In</h1>
+        <div className="h-px bg-black w-24 mb-4"></div>
+        <p className="text-sm text-gray-600">Sign in with your account on {serverUrl}.</p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <div>
+          <label className="block text-xs uppercase tracking-wide text-gray-600 mb-2">Username</label>
+          <input
+            type="text"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            autoComplete="username"
+            autoFocus
+            className="w-full px-0 py-2 border-0 border-b-2 border-gray-300 focus:border-black focus:outline-none text-lg bg-transparent"
+          />
+        </div>
+        <div>
+          <label className="block text-xs uppercase tracking-wide text-gray-600 mb-2">Password</label>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete="current-password"
+            className="w-full px-0 py-2 border-0 border-b-2 border-gray-300 focus:border-black focus:outline-none text-lg bg-transparent"
+          />
+        </div>
+        {error && <div className="p-3 bg-red-50 border-l-4 border-red-600 text-sm text-red-800">{error}</div>}
+        <button
+          type="submit"
+          disabled={signingIn || !username.trim() || !password}
+          className="w-full px-6 py-3 bg-black text-white hover:bg-gray-800 transition-colors text-xs uppercase flex items-center justify-center space-x-2 disabled:opacity-50"
+        >
+          <LogIn className="w-4 h-4" />
+          <span>{signingIn ? 'Signing in...' : 'Sign In'}</span>
+        </button>
+      </form>
+    </div>
+  );
+};
@@ -1,6 +1,18 @@
 import { useState, useEffect } from 'react';
-import { ChevronRight, X, AlertCircle } from 'lucide-react';
+import { ChevronRight, X, AlertCircle, CheckCircle } from 'lucide-react';
 import { CriterionDefinition } from '../utils/csvParser';
+import { EvidenceFile, CertificationRecord, SupplierContact } from '../utils/storage';
+import { isValidABN, TRADE_TYPES } from '../utils/profile';
+import { getEvidenceFiles } from '../utils/evidence';
+import { EvidenceFiles } from './EvidenceFiles';
+import { CertificationEditor } from './CertificationEditor';
+import { ContactsEditor } from './ContactsEditor';
+import { AnswerInput } from './AnswerInput';
+import { QuestionnaireChangesNotice } from './QuestionnaireChangesNotice';
+import { getAssessedQuestionnaire } from '../utils/questionnaireVersion';
+import { TemplateOption } from '../utils/templates';
+import { getHiddenCriterionIds } from '../utils/conditions';
+import { QuestionAnswer, getQuestionKind } from '../utils/questionKinds';
 
 const categoryNames: Record<string, string> = {
   '1': 'Material Sourcing',
@@ -26,19 +38,36 @@ interface ManualAssessmentProps {
   formData: {
     name: string;
     location: string;
+    streetAddress: string;
     distance: string | number;
     materials: string[];
-    contactEmail: string;
+    contacts: SupplierContact[];
+    abn: string;
+    website: string;
+    tradeType: string;
+    profileNotes: string;
+    templateId: string;
     scores: Record<string, number | null>;
-    documents: Record<string, File[]>;
+    // Raw answers to typed questions, see questionKinds.ts
+    answers: Record<string, QuestionAnswer>;
+    documents: Record<string, EvidenceFile[]>;
     additionalNotes: Record<string, string>;
-    certifications: string[];
+    // Justification by criterion ID; empty while the assessor has not written one yet
+    notApplicable: Record<string, string>;
+    certifications: CertificationRecord[];
+    aiFlags: any[];
   };
+  // Questions of the template in formData.templateId
   criteriaDefinitions: Record<string, CriterionDefinition>;
+  templates: TemplateOption[];
   allMaterials: string[];
   editingSupplier: any;
   onInputChange: (field: string, value: any) => void;
   onScoreChange: (criterionId: string, score: number) => void;
+  // Answer to a numeric, percentage, yes/no or multi-select question; null clears it
+  onAnswerChange: (criterionId: string, answer: QuestionAnswer | null) => void;
+  // Only offered for new suppliers; answers given so far are cleared
+  onTemplateChange: (templateId: string) => void;
   onSubmit: () => void;
   onCancel: () => void;
   onBack: () => void;
@@ -47,10 +76,13 @@ interface ManualAssessmentProps {
 export const ManualAssessment = ({
   formData,
   criteriaDefinitions,
+  templates,
   allMaterials,
   editingSupplier,
   onInputChange,
   onScoreChange,
+  onAnswerChange,
+  onTemplateChange,
   onSubmit,
   onCancel,
   onBack
@@ -58,12 +90,42 @@ export const ManualAssessment = ({
   // Priority filter state
   const [priorityFilter, setPriorityFilter] = useState<'ALL' | 'HIGH' | 'MEDIUM' | 'LOW'>('ALL');
   // Status filter state (only used in edit mode)
-  const [statusFilter, setStatusFilter] = useState<'ALL' | 'COMPLETED' | 'NEEDS_REVIEW' | 'NO_SCORE'>('ALL');
-  // AI flags from supplier (if editing an AI-assessed supplier)
-  const aiFlags = editingSupplier?.aiFlags || [];
+  const [statusFilter, setStatusFilter] = useState<'ALL' | 'COMPLETED' | 'NEEDS_REVIEW' | 'NOT_APPLICABLE' | 'NO_SCORE'>('ALL');
+  // Review flags - set by AI assessment or marked manually
+  const aiFlags = formData.aiFlags || [];
+
+  // Mark a criterion as reviewed, or flag it for review again
+  const toggleNeedsReview = (criterionId: string) => {
+    const existing = aiFlags.find((flag: any) => flag.criterionId === criterionId);
+    const updatedFlags = existing
+      ? aiFlags.map((flag: any) => flag.criterionId === criterionId ? { ...flag, needsReview: !flag.needsReview } : flag)
+      : [...aiFlags, { criterionId, needsReview: true }];
+    onInputChange('aiFlags', updatedFlags);
+  };
+
+  const setEvidenceFiles = (criterionId: string, files: EvidenceFile[]) => {
+    const { [criterionId]: _previous, ...otherDocuments } = formData.documents;
+    onInputChange('documents', files.length > 0 ? { ...otherDocuments, [criterionId]: files } : otherDocuments);
+  };
+
+  // Mark a criterion not applicable, clearing its score, or unmark it
+  const toggleNotApplicable = (criterionId: string) => {
+    const { [criterionId]: previous, ...others } = formData.notApplicable;
+    if (previous !== undefined) {
+      onInputChange('notApplicable', others);
+      return;
+    }
+    const { [criterionId]: _answer, ...answers } = formData.answers;
+    onInputChange('scores', { ...formData.scores, [criterionId]: null });
+    onInputChange('answers', answers);
+    onInputChange('notApplicable', { ...formData.notApplicable, [criterionId]: '' });
+  };
 
   // Determine question status
-  const getQuestionStatus = (criterionId: string): 'COMPLETED' | 'NEEDS_REVIEW' | 'NO_SCORE' => {
+  const getQuestionStatus = (criterionId: string): 'COMPLETED' | 'NEEDS_REVIEW' | 'NOT_APPLICABLE' | 'NO_SCORE' => {
+    if (formData.notApplicable[criterionId] !== undefined) {
+      return 'NOT_APPLICABLE';
+    }
     const score = formData.scores[criterionId];
     if (score !== null && score !== undefined) {
       // Check if this question needs review (from AI assessment)
@@ -92,9 +154,16 @@ export const ManualAssessment = ({
     }
   }, [criteriaDefinitions, formData.scores, onInputChange]);
 
+  // Questions skipped by earlier answers; their answers are kept in case the earlier answers change back
+  const hiddenIds = getHiddenCriterionIds(criteriaDefinitions, formData.scores);
+
   // Group criteria by category and filter by priority and status (if in edit mode)
   const groupedCriteria: Record<string, Array<[string, CriterionDefinition]>> = {};
   Object.entries(criteriaDefinitions).forEach(([id, criterion]) => {
+    if (hiddenIds.has(id)) {
+      return;
+    }
+
     // Apply priority filter
     if (priorityFilter !== 'ALL' && criterion.priority !== priorityFilter) {
       return;
@@ -114,11 +183,25 @@ export const ManualAssessment = ({
     groupedCriteria[criterion.category].push([id, criterion]);
   });
 
+  // Questions this supplier was last assessed against, to show what changed since
+  const assessedQuestionnaire = editingSupplier ? getAssessedQuestionnaire(editingSupplier) : null;
+
   // Calculate progress
-  const totalQuestions = Object.keys(criteriaDefinitions).length;
-  const answeredQuestions = Object.values(formData.scores).filter(score => score !== null && score !== undefined).length;
+  // Questions marked not applicable count neither as answered nor towards the total
+  const notApplicableCount = Object.keys(formData.notApplicable).filter(id => criteriaDefinitions[id] && !hiddenIds.has(id)).length;
+  const totalQuestions = Object.keys(criteriaDefinitions).length - hiddenIds.size - notApplicableCount;
+  const answeredQuestions = Object.entries(formData.scores)
+    .filter(([id, score]) => score !== null && score !== undefined && criteriaDefinitions[id] && !hiddenIds.has(id) && formData.notApplicable[id] === undefined).length;
+  // "Not applicable" needs a justification before the assessment can be saved
+  const missingJustifications = Object.keys(formData.notApplicable).filter(id => !formData.notApplicable[id].trim());
   const progressPercentage = totalQuestions > 0 ? Math.round((answeredQuestions / totalQuestions) * 100) : 0;
 
+  const handleTemplateChange = (templateId: string) => {
+    const hasAnswers = Object.values(formData.scores).some(score => score !== null && score !== undefined) || Object.keys(formData.notApplicable).length > 0 || Object.keys(formData.documents).length > 0 || Object.values(formData.additionalNotes).some(Boolean);
+    if (hasAnswers && !confirm('Switch questionnaire template? Scores, notes and evidence entered so far will be cleared.')) return;
+    onTemplateChange(templateId);
+  };
+
   return (
     <div className="max-w-5xl mx-auto">
       <div className="mb-8">
@@ -169,13 +252,72 @@ export const ManualAssessment = ({
           </div>
 
           <div>
-            <label className="block text-xs uppercase tracking-wide text-gray-600 mb-2">Contact Email</label>
+            <label className="block text-xs uppercase tracking-wide text-gray-600 mb-2">Street Address</label>
             <input 
-              type="email" 
-              value={formData.contactEmail} 
-              onChange={(e) => onInputChange('contactEmail', e.target.value)} 
+              type="text" 
+              value={formData.streetAddress} 
+              onChange={(e) => onInputChange('streetAddress', e.target.value)} 
               className="w-full px-0 py-2 border-0 border-b-2 border-gray-300 focus:border-black focus:outline-none text-lg bg-transparent" 
-              placeholder="contact@supplier.com" 
+              placeholder="Street, suburb, postcode" 
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div>
+              <label className="block text-xs uppercase tracking-wide text-gray-600 mb-2">Website</label>
+              <input 
+                type="url" 
+                value={formData.website} 
+                onChange={(e) => onInputChange('website', e.target.value)} 
+                className="w-full px-0 py-2 border-0 border-b-2 border-gray-300 focus:border-black focus:outline-none text-lg bg-transparent" 
+                placeholder="https://supplier.com" 
+              />
+            </div>
+            <div>
+              <label className="block text-xs uppercase tracking-wide text-gray-600 mb-2">ABN</label>
+              <input 
+                type="text" 
+                value={formData.abn} 
+                onChange={(e) => onInputChange('abn', e.target.value)} 
+                className="w-full px-0 py-2 border-0 border-b-2 border-gray-300 focus:border-black focus:outline-none text-lg bg-transparent" 
+                placeholder="11 digit ABN" 
+              />
+              {formData.abn.trim() && !isValidABN(formData.abn) && (
+                <div className="text-xs text-red-600 mt-1">This does not look like a valid ABN</div>
+              )}
+            </div>
+            <div>
+              <label className="block text-xs uppercase tracking-wide text-gray-600 mb-2">Trade Type</label>
+              <input 
+                type="text" 
+                list="trade-type-options"
+                value={formData.tradeType} 
+                onChange={(e) => onInputChange('tradeType', e.target.value)} 
+                className="w-full px-0 py-2 border-0 border-b-2 border-gray-300 focus:border-black focus:outline-none text-lg bg-transparent" 
+                placeholder="e.g., Manufacturer" 
+              />
+              <datalist id="trade-type-options">
+                {TRADE_TYPES.map(type => <option key={type} value={type} />)}
+              </datalist>
+            </div>
+          </div>
+
+          {/* Contacts */}
+          <div>
+            <label className="block text-xs uppercase tracking-wide text-gray-600 mb-3">Contacts</label>
+            <ContactsEditor
+              contacts={formData.contacts}
+              onChange={(contacts) => onInputChange('contacts', contacts)}
+            />
+          </div>
+
+          <div>
+            <label className="block text-xs uppercase tracking-wide text-gray-600 mb-2">Profile Notes</label>
+            <textarea
+              value={formData.profileNotes}
+              onChange={(e) => onInputChange('profileNotes', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 focus:border-black focus:outline-none text-sm resize-y min-h-[80px]"
+              placeholder="General notes about this supplier..."
             />
           </div>
 
@@ -254,58 +396,12 @@ export const ManualAssessment = ({
           {/* Certifications */}
           <div>
             <label className="block text-xs uppercase tracking-wide text-gray-600 mb-3">Certifications & Standards</label>
-            <p className="text-xs text-gray-500 mb-3">Add any certifications, standards, or accreditations the supplier holds</p>
-            
-            <div className="flex gap-2 mb-3">
-              <input
-                type="text"
-                id="cert-input"
-                placeholder="e.g., B Corp, ISO 14001, Green Star..."
-                className="flex-1 px-3 py-2 border-2 border-gray-300 focus:border-black focus:outline-none text-sm"
-                onKeyPress={(e) => {
-                  if (e.key === 'Enter') {
-                    e.preventDefault();
-                    const input = e.target as HTMLInputElement;
-                    const value = input.value.trim();
-                    if (value && !formData.certifications.includes(value)) {
-                      onInputChange('certifications', [...formData.certifications, value]);
-                      input.value = '';
-                    }
-                  }
-                }}
-              />
-              <button
-                type="button"
-                onClick={() => {
-                  const input = document.getElementById('cert-input') as HTMLInputElement;
-                  const value = input.value.trim();
-                  if (value && !formData.certifications.includes(value)) {
-                    onInputChange('certifications', [...formData.certifications, value]);
-                    input.value = '';
-                  }
-                }}
-                className="px-4 py-2 bg-black text-white text-xs uppercase hover:bg-gray-800 transition-colors"
-              >
-                Add
-              </button>
-            </div>
-            
-            {formData.certifications.length > 0 && (
-              <div className="flex flex-wrap gap-2">
-                {formData.certifications.map(cert => (
-                  <div key={cert} className="inline-flex items-center px-3 py-1.5 bg-green-50 text-green-800 text-sm">
-                    <span>{cert}</span>
-                    <button
-                      type="button"
-                      onClick={() => onInputChange('certifications', formData.certifications.filter(c => c !== cert))}
-                      className="ml-2 text-green-900 hover:text-green-700"
-                    >
-                      <X className="w-3 h-3" />
-                    </button>
-                  </div>
-                ))}
-              </div>
-            )}
+            <p className="text-xs text-gray-500 mb-3">Add the certifications, standards, or accreditations the supplier holds. Criteria a certificate supports are flagged for review if it lapses.</p>
+            <CertificationEditor
+              records={formData.certifications}
+              criteriaDefinitions={criteriaDefinitions}
+              onChange={(records) => onInputChange('certifications', records)}
+            />
           </div>
         </div>
       </section>
@@ -316,6 +412,32 @@ export const ManualAssessment = ({
           <h2 className="text-xl font-light text-black">Sustainability Assessment</h2>
         </div>
 
+        {templates.length > 1 && (
+          <div className="mb-6">
+            <label className="block text-xs uppercase tracking-wide text-gray-600 mb-2">Questionnaire Template</label>
+            {editingSupplier ? (
+              <div className="text-sm text-black">
+                {templates.find(template => template.id === formData.templateId)?.name ?? templates[0].name}
+                <span className="text-xs text-gray-500 ml-2">Chosen when the supplier was created</span>
+              </div>
+            ) : (
+              <select
+                value={formData.templateId}
+                onChange={(e) => handleTemplateChange(e.target.value)}
+                className="w-full md:w-1/2 px-3 py-2 border-2 border-gray-300 focus:border-black focus:outline-none text-sm"
+              >
+                {templates.map(template => (
+                  <option key={template.id} value={template.id}>{template.name}</option>
+                ))}
+              </select>
+            )}
+          </div>
+        )}
+
+        {assessedQuestionnaire && (
+          <QuestionnaireChangesNotice assessment={assessedQuestionnaire} criteriaDefinitions={criteriaDefinitions} />
+        )}
+
         {/* Progress and Priority Filter */}
         <div className="mb-6 p-4 bg-gray-50 border border-gray-200">
           <div className="flex items-center justify-between mb-4">
@@ -324,7 +446,11 @@ export const ManualAssessment = ({
               <div className="text-2xl font-light text-black">
                 {answeredQuestions} <span className="text-gray-400">/ {totalQuestions}</span>
               </div>
-              <div className="text-xs text-gray-500 mt-1">{progressPercentage}% completed</div>
+              <div className="text-xs text-gray-500 mt-1">
+                {progressPercentage}% completed
+                {notApplicableCount > 0 && ` • ${notApplicableCount} not applicable`}
+                {hiddenIds.size > 0 && ` • ${hiddenIds.size} skipped by earlier answers`}
+              </div>
             </div>
             <div className="flex-1 max-w-xs ml-8">
               <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
@@ -423,6 +549,17 @@ export const ManualAssessment = ({
                   >
                     Needs Review
                   </button>
+                  <button
+                    type="button"
+                    onClick={() => setStatusFilter('NOT_APPLICABLE')}
+                    className={`px-3 py-1.5 text-xs uppercase transition-colors ${
+                      statusFilter === 'NOT_APPLICABLE'
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-white text-blue-800 border border-blue-300 hover:border-blue-600'
+                    }`}
+                  >
+                    Not Applicable
+                  </button>
                   <button
                     type="button"
                     onClick={() => setStatusFilter('NO_SCORE')}
@@ -471,8 +608,20 @@ export const ManualAssessment = ({
                               </span>
                             );
                           }
+                          if (status === 'NOT_APPLICABLE') {
+                            return (
+                              <span className="text-xs uppercase px-2 py-0.5 bg-blue-100 text-blue-800">Not Applicable</span>
+                            );
+                          }
                           return null;
                         })()}
+                        {getQuestionStatus(criterionId) !== 'NO_SCORE' && getQuestionStatus(criterionId) !== 'NOT_APPLICABLE' && getEvidenceFiles(formData.documents, criterionId).length === 0 && (
+                          <span className={`text-xs uppercase px-2 py-0.5 ${
+                            criterion.priority === 'HIGH' ? 'bg-red-600 text-white' : 'bg-gray-100 text-gray-600'
+                          }`}>
+                            {criterion.priority === 'HIGH' ? 'Evidence Required' : 'No Evidence'}
+                          </span>
+                        )}
                         {criterion.subCategory && (
                           <span className="text-xs text-gray-500">{criterion.subCategory}</span>
                         )}
@@ -483,44 +632,83 @@ export const ManualAssessment = ({
                   
                   {criterion.options.length > 0 ? (
                     <div className="space-y-2">
-                      <div className={`grid gap-2 ${criterion.options.length === 1 ? 'grid-cols-1 max-w-xs' : criterion.options.length === 2 ? 'grid-cols-2' : criterion.options.length === 3 ? 'grid-cols-3' : 'grid-cols-4'}`}>
-                        {criterion.options.map(option => {
-                          // Ensure option.value is a valid number
-                          const optionValue = typeof option.value === 'number' && !isNaN(option.value) ? option.value : 1;
-                          const currentScore = formData.scores[criterionId];
-                          const isSelected = currentScore !== null && currentScore !== undefined && currentScore === optionValue;
-                          return (
-                            <button 
-                              key={optionValue} 
-                              type="button"
-                              onClick={() => {
-                                // Toggle: if already selected, clear it; otherwise set it
-                                if (isSelected) {
-                                  onInputChange('scores', { ...formData.scores, [criterionId]: null });
-                                } else {
-                                  onScoreChange(criterionId, optionValue);
-                                }
-                              }} 
-                              className={`py-3 px-2 text-xs transition-all ${
-                                isSelected
-                                  ? 'bg-black text-white' 
-                                  : 'bg-white text-black border border-gray-300 hover:border-black'
-                              }`}
-                            >
-                              <div className="text-lg font-light mb-1">{optionValue}</div>
-                              <div className="text-[10px] opacity-75 leading-tight">{option.label || 'No label'}</div>
-                            </button>
-                          );
-                        })}
-                      </div>
-                      {formData.scores[criterionId] !== null && formData.scores[criterionId] !== undefined && (
+                      {getQuestionKind(criterion) !== 'options' ? (
+                        <AnswerInput
+                          criterion={criterion}
+                          answer={formData.answers[criterionId]}
+                          score={formData.scores[criterionId]}
+                          onChange={(answer) => onAnswerChange(criterionId, answer)}
+                        />
+                      ) : (
+                        <div className={`grid gap-2 ${criterion.options.length === 1 ? 'grid-cols-1 max-w-xs' : criterion.options.length === 2 ? 'grid-cols-2' : criterion.options.length === 3 ? 'grid-cols-3' : 'grid-cols-4'}`}>
+                          {criterion.options.map(option => {
+                            // Ensure option.value is a valid number
+                            const optionValue = typeof option.value === 'number' && !isNaN(option.value) ? option.value : 1;
+                            const currentScore = formData.scores[criterionId];
+                            const isSelected = currentScore !== null && currentScore !== undefined && currentScore === optionValue;
+                            return (
+                              <button 
+                                key={optionValue} 
+                                type="button"
+                                onClick={() => {
+                                  // Toggle: if already selected, clear it; otherwise set it
+                                  if (isSelected) {
+                                    onInputChange('scores', { ...formData.scores, [criterionId]: null });
+                                  } else {
+                                    onScoreChange(criterionId, optionValue);
+                                  }
+                                }} 
+                                className={`py-3 px-2 text-xs transition-all ${
+                                  isSelected
+                                    ? 'bg-black text-white' 
+                                    : 'bg-white text-black border border-gray-300 hover:border-black'
+                                }`}
+                              >
+                                <div className="text-lg font-light mb-1">{optionValue}</div>
+                                <div className="text-[10px] opacity-75 leading-tight">{option.label || 'No label'}</div>
+                              </button>
+                            );
+                          })}
+                        </div>
+                      )}
+                      <div className="flex items-center gap-4">
                         <button
                           type="button"
-                          onClick={() => onInputChange('scores', { ...formData.scores, [criterionId]: null })}
-                          className="text-xs text-gray-500 hover:text-gray-700 underline"
+                          onClick={() => toggleNotApplicable(criterionId)}
+                          className={`px-3 py-1.5 text-xs uppercase transition-colors ${
+                            formData.notApplicable[criterionId] !== undefined
+                              ? 'bg-blue-600 text-white'
+                              : 'bg-white text-blue-800 border border-blue-300 hover:border-blue-600'
+                          }`}
                         >
-                          Clear selection
+                          Not Applicable
                         </button>
+                        {((formData.scores[criterionId] !== null && formData.scores[criterionId] !== undefined) || formData.answers[criterionId] !== undefined) && (
+                          <button
+                            type="button"
+                            onClick={() => (getQuestionKind(criterion) !== 'options'
+                              ? onAnswerChange(criterionId, null)
+                              : onInputChange('scores', { ...formData.scores, [criterionId]: null }))}
+                            className="text-xs text-gray-500 hover:text-gray-700 underline"
+                          >
+                            Clear selection
+                          </button>
+                        )}
+                      </div>
+                      {formData.notApplicable[criterionId] !== undefined && (
+                        <div>
+                          <textarea
+                            value={formData.notApplicable[criterionId]}
+                            onChange={(e) => onInputChange('notApplicable', { ...formData.notApplicable, [criterionId]: e.target.value })}
+                            placeholder="Why does this criterion not apply to the supplier? (required)"
+                            className={`w-full px-3 py-2 border focus:outline-none text-sm resize-y min-h-[60px] ${
+                              formData.notApplicable[criterionId].trim() ? 'border-blue-300 focus:border-blue-600' : 'border-red-400 focus:border-red-600'
+                            }`}
+                          />
+                          {!formData.notApplicable[criterionId].trim() && (
+                            <div className="text-xs text-red-600">A justification is required for a "Not applicable" answer</div>
+                          )}
+                        </div>
                       )}
                     </div>
                   ) : (
@@ -529,6 +717,41 @@ export const ManualAssessment = ({
                     </div>
                   )}
                   
+                  {/* Review status - only for scored criteria in edit mode */}
+                  {editingSupplier && getQuestionStatus(criterionId) !== 'NO_SCORE' && getQuestionStatus(criterionId) !== 'NOT_APPLICABLE' && (
+                    <div className="mt-3">
+                      <button
+                        type="button"
+                        onClick={() => toggleNeedsReview(criterionId)}
+                        className={`px-3 py-1.5 text-xs uppercase transition-colors flex items-center gap-2 ${
+                          getQuestionStatus(criterionId) === 'NEEDS_REVIEW'
+                            ? 'bg-white text-green-800 border border-green-300 hover:border-green-600'
+                            : 'bg-white text-yellow-800 border border-yellow-300 hover:border-yellow-600'
+                        }`}
+                      >
+                        {getQuestionStatus(criterionId) === 'NEEDS_REVIEW' ? (
+                          <>
+                            <CheckCircle className="w-3 h-3" />
+                            Mark as Reviewed
+                          </>
+                        ) : (
+                          <>
+                            <AlertCircle className="w-3 h-3" />
+                            Mark for Review
+                          </>
+                        )}
+                      </button>
+                    </div>
+                  )}
+                  
+                  {/* Evidence files for this criterion */}
+                  <div className="mt-4">
+                    <EvidenceFiles
+                      files={getEvidenceFiles(formData.documents, criterionId)}
+                      onChange={(files) => setEvidenceFiles(criterionId, files)}
+                    />
+                  </div>
+                  
                   {/* Additional Notes for this criterion */}
                   <div className="mt-4">
                     <textarea
@@ -553,7 +776,11 @@ export const ManualAssessment = ({
       {/* Submit Buttons */}
       <div className="flex items-center justify-between pt-6 border-t border-gray-300">
         <div className="text-sm text-gray-600">
-          {answeredQuestions < totalQuestions && (
+          {missingJustifications.length > 0 ? (
+            <span className="text-red-600">
+              Give a justification for {missingJustifications.length === 1 ? 'the question' : `the ${missingJustifications.length} questions`} marked not applicable ({missingJustifications.join(', ')}) before saving.
+            </span>
+          ) : answeredQuestions < totalQuestions && (
             <span>
               You can submit with {totalQuestions - answeredQuestions} unanswered questions. 
               Unanswered questions will be marked as "No score".
@@ -571,7 +798,7 @@ export const ManualAssessment = ({
           )}
           <button 
             onClick={onSubmit} 
-            disabled={!formData.name}
+            disabled={!formData.name || missingJustifications.length > 0}
             className="px-12 py-4 bg-black text-white text-xs uppercase tracking-widest hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
           >
             {editingSupplier ? 'Update Supplier' : 'Submit Assessment'}
@@ -0,0 +1,55 @@
+import { useState } from 'react';
+import { WrongPassphraseError } from '../utils/crypto';
+
+interface PassphrasePromptProps {
+  title: string;
+  message: string;
+  // Rejects to show the error and ask again
+  onSubmit: (passphrase: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+export const PassphrasePrompt = ({ title, message, onSubmit, onCancel }: PassphrasePromptProps) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [working, setWorking] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setWorking(true);
+    setError(null);
+    try {
+      await onSubmit(passphrase);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not open the file');
+      if (err instanceof WrongPassphraseError) setPassphrase('');
+      setWorking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <form onSubmit={handleSubmit} className="bg-white max-w-md w-full p-6 border-2 border-black">
+        <h2 className="text-xl font-light text-black mb-4">{title}</h2>
+        <p className="text-sm text-gray-700 mb-4">{message}</p>
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          className="w-full px-3 py-2 border-2 border-gray-300 focus:border-black focus:outline-none mb-4"
+          placeholder="Passphrase"
+          autoFocus
+        />
+        {error && <div className="mb-4 p-3 bg-red-50 border-l-4 border-red-600 text-sm text-red-800">{error}</div>}
+        <div className="flex space-x-3">
+          <button type="submit" disabled={working || !passphrase} className="flex-1 px-4 py-3 bg-black text-white text-xs uppercase disabled:opacity-50 hover:bg-gray-800 transition-colors">
+            {working ? 'Decrypting...' : 'Open'}
+          </button>
+          <button type="button" onClick={onCancel} className="flex-1 px-4 py-3 border-2 border-black text-black hover:bg-black hover:text-white transition-colors text-xs uppercase">
+            Cancel
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
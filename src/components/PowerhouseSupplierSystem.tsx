@@ -3,7 +3,7 @@
  * Version: 1.0.0
  * 
  * Features:
- * - CSV-based question loading with automatic normalization to 1-4 scale
+ * - CSV-based question loading, each question on its own scale and scored on a common 1-4 scale
  * - Weighted scoring system with adjustable category weights
  * - OpenAI API integration placeholder
  * - Settings view for weights and API key configuration
@@ -11,21 +11,94 @@
  */
 
 import { useState, useEffect, useMemo } from 'react';
-import { loadQuestions, loadWeights, CriterionDefinition } from '../utils/csvParser';
-import { saveSuppliers, loadSuppliers, saveCategoryWeights, loadCategoryWeights, exportSuppliersToJSON, importSuppliersFromJSON, saveMaterials, loadMaterials, Supplier } from '../utils/storage';
+import { AlertCircle, X, CloudOff, GitMerge, LogOut, LogIn, Lock } from 'lucide-react';
+import { loadQuestions, loadWeights, loadDefaultQuestionsCsv, CriterionDefinition } from '../utils/csvParser';
+import { saveSuppliers, loadSuppliers, saveCategoryWeights, loadCategoryWeights, exportSuppliersToJSON, importSuppliersFromJSON, saveMaterials, loadMaterials, saveSettings, loadSettings, saveEvidenceData, deleteEvidenceData, onStorageError, getStorageEstimate, getStorageBackendName, onSyncStatusChange, onRemoteChanges, getSyncStatus, resolveSyncConflict, getStorageTarget, syncNow, isEncryptionEnabled, loadQuestionnaire, saveQuestionnaire, loadCriteriaSnapshot, saveCriteriaSnapshot, loadTemplates, saveTemplates, Supplier, QuestionnaireTemplate, StorageError, SyncStatus, AppSettings, EvidenceFile, CertificationRecord, SupplierContact } from '../utils/storage';
 import { calculateTotalScore, normalizeWeights, calculateAllScores } from '../utils/scoring';
 import { runAIAssessment } from '../utils/openai';
+import { recordAssessment } from '../utils/history';
+import { diffAssessment, getAuditedAssessment, EMPTY_ASSESSMENT } from '../utils/audit';
+import { InvalidRecord } from '../utils/validation';
+import { createSupplierId, createTemplateId, findSupplierById } from '../utils/ids';
+import { getEvidenceFileIds, getRemovedEvidenceIds } from '../utils/evidence';
+import { applyCertificationLapses } from '../utils/certifications';
+import { normalizeSupplierName } from '../utils/merge';
+import { matchesProfileSearch } from '../utils/profile';
+import { DEFAULT_TRASH_RETENTION_DAYS, isTrashed, moveToTrash, restoreFromTrash, purgeExpiredSuppliers } from '../utils/trash';
 import { Dashboard } from './Dashboard';
 import { Settings } from './Settings';
 import { ManualAssessment } from './ManualAssessment';
 import { AIAssessment } from './AIAssessment';
 import { ReportView } from './ReportView';
+import { ImportReview } from './ImportReview';
+import { TrashView } from './TrashView';
+import { SyncConflicts } from './SyncConflicts';
+import { SyncConflict } from '../utils/sync';
+import { getSession, logout, hasPermission, Permission, Role, Session, ROLE_LABELS } from '../utils/auth';
+import { LoginView } from './LoginView';
+import { PassphrasePrompt } from './PassphrasePrompt';
+import { lockWorkspace } from './WorkspaceLock';
+import { PassphraseRequiredError } from '../utils/crypto';
+import { downloadWorkspaceBackup, readWorkspaceBackup, summarizeBackup, restoreWorkspaceBackup, WorkspaceBackup, BackupSummary } from '../utils/backup';
+import { RestoreReview } from './RestoreReview';
+import { QuestionnaireEditor } from './QuestionnaireEditor';
+import { CriteriaRemapReview } from './CriteriaRemapReview';
+import { proposeRemap, remapSupplierCriteria, getQuestionTexts, CriteriaRemap } from '../utils/remap';
+import { restoreNativeScores } from '../utils/scoreNormalizer';
+import { STANDARD_TEMPLATE_ID, getTemplateOptions, resolveTemplateId, getTemplateUsage, loadTemplateCriteria, getCommonCriteria, pickScores } from '../utils/templates';
+import { QuestionAnswer, scoreAnswer } from '../utils/questionKinds';
+
+// Blank assessment form, used for new suppliers and after saving or cancelling
+const EMPTY_FORM_DATA = {
+  name: '',
+  location: '',
+  streetAddress: '',
+  distance: '' as string | number,
+  materials: [] as string[],
+  contacts: [] as SupplierContact[],
+  abn: '',
+  website: '',
+  tradeType: '',
+  profileNotes: '',
+  templateId: STANDARD_TEMPLATE_ID,
+  scores: {} as Record<string, number | null>,
+  answers: {} as Record<string, QuestionAnswer>,
+  documents: {} as Record<string, EvidenceFile[]>,
+  additionalNotes: {} as Record<string, string>,
+  notApplicable: {} as Record<string, string>,
+  certifications: [] as CertificationRecord[],
+  aiFlags: [] as any[]
+};
+
+// Assessment form filled from a saved supplier
+function toFormData(supplier: Supplier): typeof EMPTY_FORM_DATA {
+  return {
+    name: supplier.name,
+    location: supplier.location,
+    streetAddress: supplier.streetAddress || '',
+    distance: String(supplier.distance),
+    materials: supplier.materials,
+    contacts: supplier.contacts || [],
+    abn: supplier.abn || '',
+    website: supplier.website || '',
+    tradeType: supplier.tradeType || '',
+    profileNotes: supplier.profileNotes || '',
+    templateId: supplier.templateId,
+    scores: supplier.scores,
+    answers: supplier.answers || {},
+    documents: supplier.documents || {},
+    additionalNotes: supplier.additionalNotes || {},
+    notApplicable: supplier.notApplicable || {},
+    certifications: supplier.certifications || [],
+    aiFlags: supplier.aiFlags || []
+  };
+}
 
 const PowerhouseSupplierSystem = () => {
   // Initialize view from URL hash or default to dashboard
   const getViewFromHash = (): string => {
     const hash = window.location.hash.slice(1); // Remove the '#'
-    const validViews = ['dashboard', 'settings', 'ai-assessment', 'supplier-form', 'report'];
+    const validViews = ['dashboard', 'settings', 'ai-assessment', 'supplier-form', 'report', 'trash', 'sync-conflicts', 'login', 'questionnaire', 'criteria-remap'];
     if (hash && validViews.includes(hash.split('?')[0])) {
       return hash.split('?')[0];
     }
@@ -36,13 +109,21 @@ const PowerhouseSupplierSystem = () => {
   const [view, setView] = useState(() => getViewFromHash());
   const [selectedSupplier, setSelectedSupplier] = useState<Supplier | null>(null);
   const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
-  const [deleteConfirmation, setDeleteConfirmation] = useState({ show: false, supplierId: null as number | null, inputValue: '' });
+  const [deleteConfirmation, setDeleteConfirmation] = useState({ show: false, supplierId: null as string | null, inputValue: '' });
   
   // Data state
-  const [suppliers, setSuppliers] = useState<Supplier[]>(() => loadSuppliers());
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
   const [criteriaDefinitions, setCriteriaDefinitions] = useState<Record<string, CriterionDefinition>>({});
   const [categoryWeights, setCategoryWeights] = useState<Record<string, number>>({});
+  // Templates besides the standard one, whose questions and weights are criteriaDefinitions and categoryWeights
+  const [templates, setTemplates] = useState<QuestionnaireTemplate[]>([]);
+  const [templateCriteria, setTemplateCriteria] = useState<Record<string, Record<string, CriterionDefinition>>>({});
   const [loading, setLoading] = useState(true);
+  const [storageError, setStorageError] = useState<StorageError | null>(null);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus | null>(() => getSyncStatus());
+  const [session, setSession] = useState<Session | null>(() => getSession());
+  const storageTarget = useMemo(() => getStorageTarget(), []);
+  const [storageEstimate, setStorageEstimate] = useState<{ usage: number; quota: number } | null>(null);
   
   // Filter/Sort state
   const [searchTerm, setSearchTerm] = useState('');
@@ -50,19 +131,10 @@ const PowerhouseSupplierSystem = () => {
   const [maxDistance] = useState(2000);
   const [minScore] = useState(0);
   const [sortBy, setSortBy] = useState('date');
+  const [templateFilter, setTemplateFilter] = useState('all');
   
   // Form state
-  const [formData, setFormData] = useState({
-    name: '',
-    location: '',
-    distance: '',
-    materials: [] as string[],
-    contactEmail: '',
-    scores: {} as Record<string, number | null>,
-    documents: {} as Record<string, any>,
-    additionalNotes: {} as Record<string, string>,
-    certifications: [] as string[]
-  });
+  const [formData, setFormData] = useState(EMPTY_FORM_DATA);
   
   // AI Assessment state
   const [aiAssessment, setAiAssessment] = useState({
@@ -72,6 +144,9 @@ const PowerhouseSupplierSystem = () => {
     website: '',
     uploadedDocs: [] as string[],
     additionalNotes: '',
+    templateId: STANDARD_TEMPLATE_ID,
+    // Saved supplier being reassessed, whose assessment the results update instead of creating a new supplier
+    supplierId: null as string | null,
     processing: false,
     results: null as Record<string, any> | null,
     resultFilter: 'all'
@@ -79,6 +154,45 @@ const PowerhouseSupplierSystem = () => {
   
   // Settings state
   const [tempWeights, setTempWeights] = useState<Record<string, number>>({});
+  // Template whose weights are being edited, and whose questions the questionnaire editor opens
+  const [weightsTemplateId, setWeightsTemplateId] = useState(STANDARD_TEMPLATE_ID);
+  const [editingTemplateId, setEditingTemplateId] = useState(STANDARD_TEMPLATE_ID);
+  const [appSettings, setAppSettings] = useState<AppSettings>({});
+  
+  // Import state - file contents awaiting merge/replace review
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; suppliers: Supplier[]; invalid: InvalidRecord[]; evidence: Record<string, string> } | null>(null);
+  // Backup awaiting review before it replaces the workspace
+  const [pendingRestore, setPendingRestore] = useState<{ fileName: string; backup: WorkspaceBackup; summary: BackupSummary } | null>(null);
+  // Encrypted import or backup file waiting for its passphrase
+  const [encryptedFile, setEncryptedFile] = useState<{ file: File; purpose: 'import' | 'restore' } | null>(null);
+  // Saved answers whose criterion ID now holds a different question, awaiting review
+  const [criteriaRemap, setCriteriaRemap] = useState<CriteriaRemap | null>(null);
+  
+  // The shared server needs an account; data kept only in this browser belongs to its user, who can do everything
+  const role: Role | null = session ? session.user.role : storageTarget.target === 'server' ? null : 'admin';
+  const can = (permission: Permission) => role !== null && hasPermission(role, permission);
+  
+  // Author recorded in the audit log
+  const auditAuthor = session?.user.name || appSettings.assessorName?.trim() || 'Unnamed assessor';
+  const trashRetentionDays = appSettings.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS;
+  
+  // Each supplier is assessed with the questions and weights of its template
+  const templateOptions = useMemo(() => getTemplateOptions(templates), [templates]);
+  const getSupplierTemplateId = (supplier: Pick<Supplier, 'templateId'>) => resolveTemplateId(templates, supplier.templateId);
+  const getTemplateCriteria = (templateId: string) => templateCriteria[templateId] ?? criteriaDefinitions;
+  
+  // Scores still on the old common 1-4 scale are shown and scored on each question's own scale whoever is signed in;
+  // only roles that can edit suppliers save the conversion, see below
+  const nativeScaleSuppliers = useMemo(() => {
+    if (Object.keys(criteriaDefinitions).length === 0) return suppliers;
+    return suppliers.map(supplier => restoreNativeScores(supplier, getTemplateCriteria(getSupplierTemplateId(supplier))));
+  }, [suppliers, criteriaDefinitions, templateCriteria, templates]);
+  
+  // Trashed suppliers are kept in storage but left out of the dashboard, scoring and exports
+  const activeSuppliers = useMemo(() => nativeScaleSuppliers.filter(s => !isTrashed(s)), [nativeScaleSuppliers]);
+  const trashedSuppliers = useMemo(() => nativeScaleSuppliers.filter(isTrashed), [nativeScaleSuppliers]);
+  const getTemplateWeights = (templateId: string) => templates.find(t => t.id === templateId)?.weights ?? categoryWeights;
+  const usesStandardTemplate = (supplier: Supplier) => getSupplierTemplateId(supplier) === STANDARD_TEMPLATE_ID;
   
   // Default materials list
   const defaultMaterials = [
@@ -87,16 +201,8 @@ const PowerhouseSupplierSystem = () => {
     "Cardboard", "Paper", "Stone", "Ceramic", "Concrete"
   ];
   
-  // Materials list - load from storage or use defaults
-  const [allMaterials, setAllMaterials] = useState<string[]>(() => {
-    const saved = loadMaterials();
-    if (saved.length > 0) {
-      return saved;
-    }
-    // Initialize with defaults if nothing saved
-    saveMaterials(defaultMaterials);
-    return defaultMaterials;
-  });
+  // Materials list - loaded from storage (or defaults) on mount
+  const [allMaterials, setAllMaterials] = useState<string[]>([]);
   
   // Update materials list from existing suppliers when suppliers change
   useEffect(() => {
@@ -114,7 +220,7 @@ const PowerhouseSupplierSystem = () => {
         const mergedMaterials = Array.from(new Set([...prevMaterials, ...Array.from(allSupplierMaterials)])).sort();
         
         if (mergedMaterials.length > prevMaterials.length) {
-          saveMaterials(mergedMaterials);
+          if (can('editSuppliers')) saveMaterials(mergedMaterials);
           return mergedMaterials;
         }
         return prevMaterials;
@@ -122,24 +228,105 @@ const PowerhouseSupplierSystem = () => {
     }
   }, [suppliers]); // Update when suppliers change
   
-  // Load questions and weights on mount
+  // Surface failed writes (e.g. storage quota exceeded) to the user
+  useEffect(() => onStorageError(setStorageError), []);
+  
+  // Track offline sync with the shared server, and show changes pulled from it
+  useEffect(() => onSyncStatusChange(setSyncStatus), []);
+  useEffect(() => onRemoteChanges(async () => {
+    const [savedSuppliers, savedMaterials, savedWeights, savedQuestionnaire, savedTemplates] = await Promise.all([
+      loadSuppliers(),
+      loadMaterials(),
+      loadCategoryWeights(),
+      loadQuestionnaire(),
+      loadTemplates()
+    ]);
+    setSuppliers(savedSuppliers);
+    if (savedMaterials.length > 0) setAllMaterials(savedMaterials);
+    if (savedWeights) {
+      setCategoryWeights(savedWeights);
+      setTempWeights(savedWeights);
+    }
+    // The questionnaire and templates are shared too, so every browser scores against the same questions
+    try {
+      const [questions, savedTemplateCriteria] = await Promise.all([
+        loadQuestions(savedQuestionnaire ?? undefined),
+        loadTemplateCriteria(savedTemplates)
+      ]);
+      setCriteriaDefinitions(questions);
+      setTemplates(savedTemplates);
+      setTemplateCriteria(savedTemplateCriteria);
+      await checkCriteriaChanges(
+        questions,
+        savedSuppliers.filter(s => resolveTemplateId(savedTemplates, s.templateId) === STANDARD_TEMPLATE_ID)
+      );
+    } catch (error) {
+      console.error('Error loading questions from the server:', error);
+    }
+  }), []);
+  
+  // Offer to move saved answers when the questionnaire no longer has their question under the same criterion ID
+  const checkCriteriaChanges = async (questions: Record<string, CriterionDefinition>, currentSuppliers: Supplier[]) => {
+    if (!can('editSuppliers')) return;
+    const previous = await loadCriteriaSnapshot();
+    const remap = previous ? proposeRemap(previous, questions, currentSuppliers) : null;
+    if (remap && remap.matches.length > 0) {
+      setCriteriaRemap(remap);
+      return;
+    }
+    setCriteriaRemap(null);
+    await saveCriteriaSnapshot(getQuestionTexts(questions));
+  };
+  
+  // Load saved data, questions and weights on mount
   useEffect(() => {
     const loadData = async () => {
+      setLoading(true);
+      const [savedSuppliers, savedMaterials, savedSettings, savedQuestionnaire, savedTemplates] = await Promise.all([
+        loadSuppliers(),
+        loadMaterials(),
+        loadSettings(),
+        loadQuestionnaire(),
+        loadTemplates()
+      ]);
+      // Purging is a permanent delete, so only roles allowed to delete do it
+      const keptSuppliers = can('deleteSuppliers')
+        ? purgeExpiredSuppliers(savedSuppliers, savedSettings.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS)
+        : savedSuppliers;
+      const purgedSuppliers = savedSuppliers.filter(s => !keptSuppliers.includes(s));
+      deleteEvidenceData(purgedSuppliers.flatMap(s => getEvidenceFileIds(s)));
+      setSuppliers(keptSuppliers);
+      setAppSettings(savedSettings);
+      if (savedMaterials.length > 0) {
+        setAllMaterials(savedMaterials);
+      } else {
+        // Initialize with defaults if nothing saved
+        setAllMaterials(defaultMaterials);
+        if (can('editSuppliers')) saveMaterials(defaultMaterials);
+      }
+      
       try {
-        setLoading(true);
-        const [questions, weights] = await Promise.all([
-          loadQuestions(),
-          loadWeights()
+        const [questions, weights, savedTemplateCriteria] = await Promise.all([
+          loadQuestions(savedQuestionnaire ?? undefined),
+          loadWeights(),
+          loadTemplateCriteria(savedTemplates)
         ]);
         
         setCriteriaDefinitions(questions);
+        setTemplates(savedTemplates);
+        setTemplateCriteria(savedTemplateCriteria);
+        // Criterion IDs are only tracked for the standard questionnaire
+        await checkCriteriaChanges(
+          questions,
+          keptSuppliers.filter(s => resolveTemplateId(savedTemplates, s.templateId) === STANDARD_TEMPLATE_ID)
+        );
         
         // Log loaded questions count for verification
         const questionCount = Object.keys(questions).length;
         console.log(`Loaded ${questionCount} questions from CSV`);
         
         // Load saved weights or use defaults
-        const savedWeights = loadCategoryWeights();
+        const savedWeights = await loadCategoryWeights();
         const finalWeights = savedWeights || weights;
         setCategoryWeights(finalWeights);
         setTempWeights(finalWeights);
@@ -168,21 +355,25 @@ const PowerhouseSupplierSystem = () => {
       if (viewFromHash !== view) {
         setView(viewFromHash);
         
-        // If navigating to report, try to load supplier from URL
-        if (viewFromHash === 'report') {
-          const urlParams = new URLSearchParams(hash.split('?')[1]);
-          const supplierId = urlParams.get('id');
-          if (supplierId) {
-            const supplier = suppliers.find(s => s.id === parseInt(supplierId));
-            if (supplier) {
-              setSelectedSupplier(supplier);
-            }
-          }
-        } else if (viewFromHash !== 'report') {
+        if (viewFromHash !== 'report') {
           // Clear selected supplier when navigating away from report
           setSelectedSupplier(null);
         }
       }
+      
+      // If on a report, load the supplier from the URL (also after a reload, once suppliers are loaded)
+      if (viewFromHash === 'report') {
+        const urlParams = new URLSearchParams(hash.split('?')[1]);
+        const supplierId = urlParams.get('id');
+        const supplier = supplierId ? findSupplierById(activeSuppliers, supplierId) : undefined;
+        if (supplier) {
+          setSelectedSupplier(prev => (prev?.id === supplier.id ? prev : supplier));
+          if (supplier.id !== supplierId) {
+            // Legacy numeric link - rewrite it to the supplier's permanent ID
+            window.history.replaceState(null, '', `#report?id=${supplier.id}`);
+          }
+        }
+      }
     };
 
     // Listen for hash changes (back/forward buttons)
@@ -196,15 +387,41 @@ const PowerhouseSupplierSystem = () => {
     return () => {
       window.removeEventListener('hashchange', handleHashChange);
     };
-  }, [view, suppliers]);
+  }, [view, activeSuppliers]);
   
-  // Save suppliers to localStorage
+  // Save suppliers to storage (once the saved list has been loaded)
   useEffect(() => {
+    if (loading) return;
     saveSuppliers(suppliers);
-  }, [suppliers]);
+  }, [suppliers, loading]);
+  
+  // Flag supporting criteria for review when a certificate lapses
+  useEffect(() => {
+    if (loading || !can('editSuppliers')) return;
+    const checked = suppliers.map(supplier => applyCertificationLapses(supplier));
+    if (checked.some((supplier, idx) => supplier !== suppliers[idx])) {
+      setSuppliers(checked);
+    }
+  }, [suppliers, loading]);
+  
+  // Move scores saved on the old common 1-4 scale back to each question's own scale once the questions are loaded
+  useEffect(() => {
+    if (loading || !can('editSuppliers') || Object.keys(criteriaDefinitions).length === 0) return;
+    const restored = suppliers.map(supplier => restoreNativeScores(supplier, getTemplateCriteria(getSupplierTemplateId(supplier))));
+    if (restored.some((supplier, idx) => supplier !== suppliers[idx])) {
+      setSuppliers(restored);
+    }
+  }, [suppliers, loading, criteriaDefinitions, templateCriteria]);
+  
+  // Refresh storage usage when opening settings
+  useEffect(() => {
+    if (view === 'settings') {
+      getStorageEstimate().then(setStorageEstimate);
+    }
+  }, [view, suppliers]);
   
   // Helper function to navigate to a view and update URL
-  const navigateToView = (newView: string, supplierId?: number) => {
+  const navigateToView = (newView: string, supplierId?: string) => {
     setView(newView);
     if (supplierId) {
       window.history.pushState(null, '', `#${newView}?id=${supplierId}`);
@@ -214,27 +431,48 @@ const PowerhouseSupplierSystem = () => {
   };
   
   // Calculate scores with weights
-  const getSupplierScore = (supplier: Supplier) => {
-    if (Object.keys(categoryWeights).length > 0) {
+  const calculateScore = (
+    scores: Record<string, number | null>,
+    weights: Record<string, number>,
+    criteria: Record<string, CriterionDefinition>,
+    notApplicable: Record<string, string>
+  ) => {
+    if (Object.keys(weights).length > 0) {
       // Calculate weighted score using the scoring utility
-      const scoreCalculation = calculateAllScores(supplier.scores, categoryWeights, criteriaDefinitions);
+      const scoreCalculation = calculateAllScores(scores, weights, criteria, notApplicable);
       // Return weighted score if available, otherwise return total score
       return scoreCalculation.weightedScore > 0 ? scoreCalculation.weightedScore : scoreCalculation.totalScore;
     }
-    return calculateTotalScore(supplier.scores, criteriaDefinitions);
+    return calculateTotalScore(scores, criteria, notApplicable);
+  };
+  
+  const getSupplierScore = (supplier: Supplier) => {
+    const templateId = getSupplierTemplateId(supplier);
+    return calculateScore(supplier.scores, getTemplateWeights(templateId), getTemplateCriteria(templateId), supplier.notApplicable || {});
   };
   
+  // Scores of suppliers on different templates are only compared on the questions all their templates share
+  const commonCriteria = useMemo(() => {
+    if (templateFilter !== 'all') return null;
+    const templateIds = Array.from(new Set(activeSuppliers.map(getSupplierTemplateId)));
+    return templateIds.length > 1 ? getCommonCriteria(templateIds.map(getTemplateCriteria)) : null;
+  }, [activeSuppliers, templateFilter, templates, templateCriteria, criteriaDefinitions]);
+  
+  const getDashboardScore = (supplier: Supplier) => (
+    commonCriteria
+      ? calculateScore(pickScores(supplier.scores, commonCriteria), categoryWeights, commonCriteria, supplier.notApplicable || {})
+      : getSupplierScore(supplier)
+  );
+  
   // Filter suppliers
   const filteredSuppliers = useMemo(() => {
-    const filtered = suppliers.filter(supplier => {
-      const normalizedSearch = searchTerm.toLowerCase().replace(/\s+/g, '');
-      const normalizedName = supplier.name.toLowerCase().replace(/\s+/g, '');
-      const matchesName = normalizedName.includes(normalizedSearch);
-      const matchesMaterials = searchTerm.length > 0 ? supplier.materials.some(mat => mat.toLowerCase().replace(/\s+/g, '').includes(normalizedSearch)) : false;
-      const matchesSearch = matchesName || matchesMaterials;
+    const filtered = activeSuppliers.filter(supplier => {
+      if (templateFilter !== 'all' && getSupplierTemplateId(supplier) !== templateFilter) return false;
+      // Search covers the whole profile: name, materials, contacts, ABN, website, address and notes
+      const matchesSearch = matchesProfileSearch(supplier, searchTerm);
       const matchesMaterialFilter = selectedMaterials.length === 0 || selectedMaterials.some(mat => supplier.materials.includes(mat));
       const matchesDistance = supplier.distance <= maxDistance;
-      const score = getSupplierScore(supplier);
+      const score = getDashboardScore(supplier);
       const matchesScore = score >= minScore;
       return matchesSearch && matchesMaterialFilter && matchesDistance && matchesScore;
     });
@@ -242,7 +480,7 @@ const PowerhouseSupplierSystem = () => {
     return filtered.sort((a, b) => {
       switch(sortBy) {
         case 'score':
-          return getSupplierScore(b) - getSupplierScore(a);
+          return getDashboardScore(b) - getDashboardScore(a);
         case 'name':
           return a.name.localeCompare(b.name);
         case 'materials':
@@ -252,21 +490,52 @@ const PowerhouseSupplierSystem = () => {
           return new Date(b.lastUpdated).getTime() - new Date(a.lastUpdated).getTime();
       }
     });
-  }, [suppliers, searchTerm, selectedMaterials, maxDistance, minScore, sortBy, categoryWeights]);
+  }, [activeSuppliers, searchTerm, selectedMaterials, maxDistance, minScore, sortBy, categoryWeights, templates, templateCriteria, templateFilter, commonCriteria]);
   
   // Handlers
   const handleInputChange = (field: string, value: any) => {
     setFormData(prev => ({ ...prev, [field]: value }));
   };
   
+  // Scoring a criterion answers it, so it is no longer marked not applicable
   const handleScoreChange = (criterionId: string, score: number) => {
-    setFormData(prev => ({
-      ...prev,
-      scores: { ...prev.scores, [criterionId]: score }
-    }));
+    setFormData(prev => {
+      const { [criterionId]: _justification, ...notApplicable } = prev.notApplicable;
+      return {
+        ...prev,
+        scores: { ...prev.scores, [criterionId]: score },
+        notApplicable
+      };
+    });
+  };
+  
+  // Typed questions keep the answer as given and score it with the question's scoring options
+  const handleAnswerChange = (criterionId: string, answer: QuestionAnswer | null) => {
+    const criterion = getTemplateCriteria(formData.templateId)[criterionId];
+    if (!criterion) return;
+    setFormData(prev => {
+      const { [criterionId]: _previous, ...answers } = prev.answers;
+      const { [criterionId]: _justification, ...notApplicable } = prev.notApplicable;
+      return {
+        ...prev,
+        scores: { ...prev.scores, [criterionId]: scoreAnswer(criterion, answer) },
+        answers: answer === null ? answers : { ...answers, [criterionId]: answer },
+        notApplicable
+      };
+    });
+  };
+  
+  // A new supplier's answers belong to the template they were given under, so switching starts over
+  const handleTemplateChange = (templateId: string) => {
+    if (editingSupplier) return;
+    const cleared = { ...formData, templateId, scores: {}, answers: {}, additionalNotes: {}, notApplicable: {}, documents: {}, aiFlags: [] };
+    deleteEvidenceData(getRemovedEvidenceIds(formData, cleared));
+    setFormData(cleared);
   };
   
   const handleSubmit = () => {
+    if (!can('editSuppliers')) return;
+    if (Object.values(formData.notApplicable).some(justification => !justification.trim())) return;
     // Extract materials from form data
     const supplierMaterials = formData.materials || [];
     
@@ -279,95 +548,241 @@ const PowerhouseSupplierSystem = () => {
     }
     
     if (editingSupplier) {
+      // Add the saved result to the supplier's history
+      const templateId = getSupplierTemplateId(editingSupplier);
+      const history = recordAssessment(editingSupplier, formData, getTemplateWeights(templateId), getTemplateCriteria(templateId));
+      const auditEntries = diffAssessment(
+        getAuditedAssessment(editingSupplier),
+        formData,
+        auditAuthor
+      );
       const updatedSupplier: Supplier = {
         ...editingSupplier,
         ...formData,
         distance: typeof formData.distance === 'string' ? parseFloat(formData.distance) || 0 : formData.distance,
         certifications: formData.certifications || [],
         completedCriteria: editingSupplier.completedCriteria || [],
+        ...history,
+        auditLog: [...(editingSupplier.auditLog || []), ...auditEntries],
         lastUpdated: new Date().toISOString().split('T')[0]
       };
       setSuppliers(suppliers.map(s => s.id === editingSupplier.id ? updatedSupplier : s));
+      deleteEvidenceData(getRemovedEvidenceIds(editingSupplier, formData));
       setSelectedSupplier(updatedSupplier);
       setEditingSupplier(null);
       navigateToView('report', updatedSupplier.id);
     } else {
       const newSupplier: Supplier = {
-        id: suppliers.length > 0 ? Math.max(...suppliers.map(s => s.id)) + 1 : 1,
+        id: createSupplierId(),
         ...formData,
         distance: typeof formData.distance === 'string' ? parseFloat(formData.distance) || 0 : formData.distance,
         certifications: formData.certifications || [],
         completedCriteria: [],
         lastUpdated: new Date().toISOString().split('T')[0],
-        aiFlags: []
+        ...recordAssessment({ assessments: [], questionSets: {} }, formData, getTemplateWeights(formData.templateId), getTemplateCriteria(formData.templateId)),
+        auditLog: diffAssessment(EMPTY_ASSESSMENT, formData, auditAuthor)
       };
       setSuppliers([...suppliers, newSupplier]);
       navigateToView('dashboard');
     }
-    setFormData({ name: '', location: '', distance: '', materials: [], contactEmail: '', scores: {}, documents: {}, additionalNotes: {}, certifications: [] });
+    setFormData(EMPTY_FORM_DATA);
+  };
+  
+  // Deleting moves the supplier to the trash, from where it can be restored
+  const handleDeleteSupplier = (supplierId: string) => {
+    if (!can('trashSuppliers')) return;
+    setSuppliers(suppliers.map(s => s.id === supplierId ? moveToTrash(s) : s));
   };
   
-  const handleDeleteSupplier = (supplierId: number) => {
+  const handleRestoreSupplier = (supplierId: string) => {
+    if (!can('trashSuppliers')) return;
+    setSuppliers(suppliers.map(s => s.id === supplierId ? restoreFromTrash(s) : s));
+  };
+  
+  // Purging from the trash is permanent, so it needs typed confirmation
+  const handlePurgeSupplier = (supplierId: string) => {
+    if (!can('deleteSuppliers')) return;
     setDeleteConfirmation({ show: true, supplierId, inputValue: '' });
   };
   
   const confirmDelete = () => {
+    if (!can('deleteSuppliers')) return;
     if (deleteConfirmation.inputValue.toLowerCase() === 'delete' && deleteConfirmation.supplierId) {
+      const purged = suppliers.find(s => s.id === deleteConfirmation.supplierId);
+      deleteEvidenceData(getEvidenceFileIds(purged));
       setSuppliers(suppliers.filter(s => s.id !== deleteConfirmation.supplierId));
       setDeleteConfirmation({ show: false, supplierId: null, inputValue: '' });
-      setView('dashboard');
     }
   };
   
   const handleEditSupplier = (supplier: Supplier) => {
     setEditingSupplier(supplier);
-    setFormData({
-      name: supplier.name,
-      location: supplier.location,
-      distance: String(supplier.distance),
-      materials: supplier.materials,
-      contactEmail: supplier.contactEmail,
-      scores: supplier.scores,
-      documents: supplier.documents || {},
-      additionalNotes: supplier.additionalNotes || {},
-      certifications: supplier.certifications || []
-    });
+    setFormData(toFormData(supplier));
     navigateToView('supplier-form');
   };
   
   // Settings handlers
-  const handleSaveWeights = () => {
+  const handleSaveWeights = async () => {
+    if (!can('editWeights')) return;
     const normalized = normalizeWeights(tempWeights);
-    setCategoryWeights(normalized);
     setTempWeights(normalized);
-    saveCategoryWeights(normalized);
-    alert('Category weights saved successfully!');
+    if (weightsTemplateId !== STANDARD_TEMPLATE_ID) {
+      if (await updateTemplates(templates.map(t => (t.id === weightsTemplateId ? { ...t, weights: normalized } : t)))) {
+        alert('Category weights saved successfully!');
+      }
+      return;
+    }
+    setCategoryWeights(normalized);
+    if (await saveCategoryWeights(normalized)) {
+      alert('Category weights saved successfully!');
+    }
+  };
+  
+  // Unsaved weight changes are discarded when switching templates
+  const handleWeightsTemplateChange = (templateId: string) => {
+    setWeightsTemplateId(templateId);
+    setTempWeights(getTemplateWeights(templateId));
+  };
+  
+  // Store the templates and reload their questions
+  const updateTemplates = async (updated: QuestionnaireTemplate[]) => {
+    setTemplates(updated);
+    setTemplateCriteria(await loadTemplateCriteria(updated));
+    return saveTemplates(updated);
+  };
+  
+  const handleCreateTemplate = async (name: string, copyFromId: string) => {
+    if (!can('editQuestionnaires')) return;
+    const source = templates.find(t => t.id === copyFromId);
+    const csv = source ? source.csv : (await loadQuestionnaire()) ?? (await loadDefaultQuestionsCsv());
+    await updateTemplates([...templates, { id: createTemplateId(), name, csv, weights: source ? source.weights : categoryWeights }]);
+  };
+  
+  const handleRenameTemplate = (templateId: string, name: string) => {
+    if (!can('editQuestionnaires')) return;
+    updateTemplates(templates.map(t => (t.id === templateId ? { ...t, name } : t)));
+  };
+  
+  // Only templates no supplier uses can be deleted, so no answers lose their questions
+  const handleDeleteTemplate = (templateId: string) => {
+    if (!can('editQuestionnaires') || suppliers.some(s => s.templateId === templateId)) return;
+    updateTemplates(templates.filter(t => t.id !== templateId));
+    if (templateFilter === templateId) setTemplateFilter('all');
+    if (weightsTemplateId === templateId) handleWeightsTemplateChange(STANDARD_TEMPLATE_ID);
   };
   
   
-  const handleExportData = () => {
-    exportSuppliersToJSON(suppliers);
+  const handleAssessorNameChange = (assessorName: string) => {
+    const updatedSettings = { ...appSettings, assessorName };
+    setAppSettings(updatedSettings);
+    saveSettings(updatedSettings);
+  };
+  
+  const handleTrashRetentionChange = (trashRetentionDays: number) => {
+    if (!can('deleteSuppliers')) return;
+    const updatedSettings = { ...appSettings, trashRetentionDays };
+    setAppSettings(updatedSettings);
+    saveSettings(updatedSettings);
+  };
+  
+  const handleExportData = (passphrase?: string) => {
+    exportSuppliersToJSON(activeSuppliers, passphrase).catch(error => {
+      alert(`Error exporting data: ${error.message}`);
+    });
+  };
+  
+  const openImportFile = async (file: File, passphrase?: string) => {
+    const { valid, invalid, evidence } = await importSuppliersFromJSON(file, passphrase);
+    // Compared field by field with current suppliers, so older files need their scores on the same scales first
+    const restored = valid.map(supplier => restoreNativeScores(supplier, getTemplateCriteria(getSupplierTemplateId(supplier))));
+    setPendingImport({ fileName: file.name, suppliers: restored, invalid, evidence });
+    navigateToView('import');
+  };
+  
+  const openBackupFile = async (file: File, passphrase?: string) => {
+    const backup = await readWorkspaceBackup(file, passphrase);
+    setPendingRestore({ fileName: file.name, backup, summary: await summarizeBackup(backup) });
+    navigateToView('restore');
   };
   
   const handleImportData = (file: File) => {
-    importSuppliersFromJSON(file)
-      .then(imported => {
-        setSuppliers(imported);
-        alert(`Successfully imported ${imported.length} suppliers`);
-      })
-      .catch(error => {
-        alert(`Error importing data: ${error.message}`);
-      });
+    if (!can('importSuppliers')) return;
+    openImportFile(file).catch(error => {
+      if (error instanceof PassphraseRequiredError) {
+        setEncryptedFile({ file, purpose: 'import' });
+        return;
+      }
+      alert(`Error importing data: ${error.message}`);
+    });
+  };
+  
+  const canRestore = can('importSuppliers') && can('deleteSuppliers') && can('editWeights') && can('editQuestionnaires');
+  
+  const handleDownloadBackup = (passphrase?: string) => {
+    downloadWorkspaceBackup(passphrase).catch(error => {
+      alert(`Error creating backup: ${error.message}`);
+    });
+  };
+  
+  const handleRestoreBackup = (file: File) => {
+    if (!canRestore) return;
+    openBackupFile(file).catch(error => {
+      if (error instanceof PassphraseRequiredError) {
+        setEncryptedFile({ file, purpose: 'restore' });
+        return;
+      }
+      alert(`Error reading backup: ${error.message}`);
+    });
+  };
+  
+  // Rejects when the passphrase is wrong, so the prompt can ask again
+  const handleDecryptFile = async (passphrase: string) => {
+    if (!encryptedFile) return;
+    await (encryptedFile.purpose === 'import' ? openImportFile : openBackupFile)(encryptedFile.file, passphrase);
+    setEncryptedFile(null);
+  };
+  
+  const handleConfirmRestore = async () => {
+    if (!canRestore || !pendingRestore) return;
+    if (!(await restoreWorkspaceBackup(pendingRestore.backup))) {
+      alert('Parts of the backup could not be saved. See the message at the top of the page.');
+      return;
+    }
+    // Reload so every part of the workspace is read back from storage
+    window.history.replaceState(null, '', '#dashboard');
+    window.location.reload();
+  };
+  
+  // Start an AI assessment of a saved supplier, prefilled from its profile
+  const handleReassessWithAI = (supplier: Supplier) => {
+    setAiAssessment(prev => ({
+      ...prev,
+      supplierName: supplier.name,
+      location: supplier.location,
+      materials: supplier.materials,
+      website: supplier.website || '',
+      templateId: getSupplierTemplateId(supplier),
+      supplierId: supplier.id,
+      results: null
+    }));
+    navigateToView('ai-assessment');
   };
   
   // AI Assessment handler
   const handleRunAIAssessment = async () => {
+    if (!can('runAIAssessment')) return;
     if (!aiAssessment.supplierName) {
       alert('Please enter a supplier name.');
       return;
     }
     
-    setAiAssessment(prev => ({ ...prev, processing: true }));
+    // Reuse the website saved for a supplier of the same name when none was entered
+    const knownSupplier = activeSuppliers.find(
+      s => normalizeSupplierName(s.name) === normalizeSupplierName(aiAssessment.supplierName)
+    );
+    const website = aiAssessment.website.trim() || knownSupplier?.website || '';
+    
+    setAiAssessment(prev => ({ ...prev, website, processing: true }));
     
     try {
       const results = await runAIAssessment(
@@ -375,11 +790,11 @@ const PowerhouseSupplierSystem = () => {
           supplierName: aiAssessment.supplierName,
           location: aiAssessment.location,
           materials: aiAssessment.materials,
-          website: aiAssessment.website,
+          website,
           uploadedDocs: aiAssessment.uploadedDocs,
           additionalNotes: aiAssessment.additionalNotes
         },
-        criteriaDefinitions
+        getTemplateCriteria(aiAssessment.templateId)
       );
       
       setAiAssessment(prev => ({
@@ -407,14 +822,16 @@ const PowerhouseSupplierSystem = () => {
   
   // Reset weights handler
   const handleResetWeights = () => {
+    if (!can('editWeights')) return;
     loadWeights().then(weights => {
       setTempWeights(weights);
-      setCategoryWeights(weights);
+      if (weightsTemplateId === STANDARD_TEMPLATE_ID) setCategoryWeights(weights);
     });
   };
 
   // Save AI assessment handler
-  const handleSaveAIAssessment = (supplierData: Omit<Supplier, 'id'>) => {
+  const handleSaveAIAssessment = (supplierData: Omit<Supplier, 'id' | 'assessments' | 'questionSets' | 'auditLog'>) => {
+    if (!can('editSuppliers')) return;
     // Extract materials from supplier data
     const supplierMaterials = supplierData.materials || [];
     
@@ -426,24 +843,43 @@ const PowerhouseSupplierSystem = () => {
       saveMaterials(updatedMaterials);
     }
     
-    const newSupplier: Supplier = {
-      id: suppliers.length > 0 ? Math.max(...suppliers.map(s => s.id)) + 1 : 1,
-      ...supplierData
-    };
-    setSuppliers([...suppliers, newSupplier]);
+    const reassessed = aiAssessment.supplierId ? findSupplierById(suppliers, aiAssessment.supplierId) : undefined;
+    let savedSupplier: Supplier;
+    if (reassessed) {
+      // The AI's scores and notes replace those of the criteria it answered; the rest of the supplier is kept
+      const assessedIds = Object.keys(supplierData.scores);
+      const withoutAssessed = <T,>(values: Record<string, T> | undefined) =>
+        Object.fromEntries(Object.entries(values || {}).filter(([id]) => !assessedIds.includes(id)));
+      const merged = {
+        scores: { ...reassessed.scores, ...supplierData.scores },
+        answers: withoutAssessed(reassessed.answers),
+        additionalNotes: { ...withoutAssessed(reassessed.additionalNotes), ...supplierData.additionalNotes },
+        notApplicable: withoutAssessed(reassessed.notApplicable),
+        aiFlags: [...(reassessed.aiFlags || []).filter(flag => !assessedIds.includes(flag.criterionId)), ...(supplierData.aiFlags || [])]
+      };
+      const templateId = getSupplierTemplateId(reassessed);
+      savedSupplier = {
+        ...reassessed,
+        ...merged,
+        website: supplierData.website || reassessed.website,
+        aiAssessed: true,
+        ...recordAssessment(reassessed, { ...reassessed, ...merged }, getTemplateWeights(templateId), getTemplateCriteria(templateId)),
+        auditLog: [...(reassessed.auditLog || []), ...diffAssessment(getAuditedAssessment(reassessed), merged, auditAuthor)],
+        lastUpdated: supplierData.lastUpdated
+      };
+      setSuppliers(suppliers.map(s => s.id === reassessed.id ? savedSupplier : s));
+    } else {
+      savedSupplier = {
+        id: createSupplierId(),
+        ...supplierData,
+        ...recordAssessment({ assessments: [], questionSets: {} }, supplierData, getTemplateWeights(supplierData.templateId), getTemplateCriteria(supplierData.templateId)),
+        auditLog: diffAssessment(EMPTY_ASSESSMENT, supplierData, auditAuthor)
+      };
+      setSuppliers([...suppliers, savedSupplier]);
+    }
     // After saving, switch to edit mode for revision
-    setEditingSupplier(newSupplier);
-    setFormData({
-      name: newSupplier.name,
-      location: newSupplier.location,
-      distance: String(newSupplier.distance),
-      materials: newSupplier.materials,
-      contactEmail: newSupplier.contactEmail,
-      scores: newSupplier.scores,
-      documents: newSupplier.documents || {},
-      additionalNotes: newSupplier.additionalNotes || {},
-      certifications: newSupplier.certifications || []
-    });
+    setEditingSupplier(savedSupplier);
+    setFormData(toFormData(savedSupplier));
     setAiAssessment({
       supplierName: '',
       location: '',
@@ -451,6 +887,8 @@ const PowerhouseSupplierSystem = () => {
       website: '',
       uploadedDocs: [],
       additionalNotes: '',
+      templateId: STANDARD_TEMPLATE_ID,
+      supplierId: null,
       processing: false,
       results: null,
       resultFilter: 'all'
@@ -458,12 +896,149 @@ const PowerhouseSupplierSystem = () => {
     navigateToView('supplier-form'); // Switch to manual assessment for revision
   };
 
+  // Throws when the questionnaire could not be saved, so the editor keeps the changes
+  const handleSaveQuestionnaire = async (csv: string | null) => {
+    if (!can('editQuestionnaires')) return;
+    if (editingTemplateId !== STANDARD_TEMPLATE_ID) {
+      if (csv === null || !(await updateTemplates(templates.map(t => (t.id === editingTemplateId ? { ...t, csv } : t))))) {
+        throw new Error('The questionnaire could not be saved');
+      }
+      return;
+    }
+    if (!(await saveQuestionnaire(csv))) {
+      throw new Error('The questionnaire could not be saved');
+    }
+    const questions = await loadQuestions(csv ?? undefined);
+    setCriteriaDefinitions(questions);
+    await checkCriteriaChanges(questions, suppliers.filter(usesStandardTemplate));
+  };
+  
+  const handleApplyCriteriaRemap = (mapping: Record<string, string | null>) => {
+    if (!can('editSuppliers')) return;
+    const remapped = suppliers.map(supplier => (usesStandardTemplate(supplier) ? remapSupplierCriteria(supplier, mapping) : supplier));
+    deleteEvidenceData(suppliers.flatMap((supplier, idx) => getRemovedEvidenceIds(supplier, remapped[idx])));
+    setSuppliers(remapped);
+    handleDismissCriteriaRemap();
+  };
+  
+  // Record the current questions as the ones saved answers belong to
+  const handleDismissCriteriaRemap = () => {
+    saveCriteriaSnapshot(getQuestionTexts(criteriaDefinitions));
+    setCriteriaRemap(null);
+    navigateToView('dashboard');
+  };
+  
+  const handleResolveSyncConflict = async (conflict: SyncConflict, choice: 'local' | 'server') => {
+    await resolveSyncConflict(conflict, choice);
+    if (choice === 'local') {
+      setSuppliers(await loadSuppliers());
+    }
+  };
+  
+  const handleLogin = (newSession: Session) => {
+    setSession(newSession);
+    navigateToView('dashboard');
+    // Pick up anything that failed to sync while signed out
+    syncNow();
+  };
+  
+  const handleLogout = async () => {
+    await logout();
+    setSession(null);
+    navigateToView('dashboard');
+  };
+  
+  // The shared server cannot be used without signing in
+  if (role === null) {
+    return (
+      <div className="min-h-screen bg-white py-8 md:py-16 px-4 md:px-8">
+        <LoginView serverUrl={storageTarget.serverUrl} onLogin={handleLogin} />
+      </div>
+    );
+  }
   
   return (
     <div className="min-h-screen bg-white py-8 md:py-16 px-4 md:px-8">
+      <div className="max-w-7xl mx-auto mb-4 flex justify-end items-center gap-3 text-xs text-gray-600">
+        {isEncryptionEnabled() && (
+          <button onClick={lockWorkspace} className="flex items-center gap-1 uppercase text-black hover:underline" title="Lock the encrypted workspace until the passphrase is entered again">
+            <Lock className="w-3 h-3" />
+            Lock
+          </button>
+        )}
+        {session ? (
+          <>
+            <span>{session.user.name} • {ROLE_LABELS[session.user.role]}</span>
+            <button onClick={handleLogout} className="flex items-center gap-1 uppercase text-black hover:underline">
+              <LogOut className="w-3 h-3" />
+              Sign Out
+            </button>
+          </>
+        ) : (
+          <button onClick={() => navigateToView('login')} className="flex items-center gap-1 uppercase text-black hover:underline" title="Sign in to run AI assessments on the backend server">
+            <LogIn className="w-3 h-3" />
+            Sign In
+          </button>
+        )}
+      </div>
+      {storageError && (
+        <div className="max-w-7xl mx-auto mb-8 p-4 bg-red-50 border-l-4 border-red-600 flex items-start justify-between">
+          <div className="flex items-start space-x-3">
+            <AlertCircle className="w-5 h-5 text-red-600 mt-0.5 flex-shrink-0" />
+            <div>
+              <div className="text-sm font-medium text-red-900 mb-1">Changes not saved</div>
+              <div className="text-sm text-red-800">{storageError.message}</div>
+            </div>
+          </div>
+          <button onClick={() => setStorageError(null)} className="ml-4 text-red-700 hover:text-red-900" title="Dismiss">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+      {criteriaRemap && view !== 'criteria-remap' && (
+        <div className="max-w-7xl mx-auto mb-8 p-4 bg-yellow-50 border-l-4 border-yellow-500 flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <AlertCircle className="w-5 h-5 text-yellow-700 flex-shrink-0" />
+            <div className="text-sm text-yellow-900">
+              The questionnaire changed: saved answers for {criteriaRemap.matches.length} criteri{criteriaRemap.matches.length !== 1 ? 'a' : 'on'} may now belong to a different question
+            </div>
+          </div>
+          <button
+            onClick={() => navigateToView('criteria-remap')}
+            className="ml-4 px-4 py-2 border-2 border-black text-black hover:bg-black hover:text-white transition-colors text-xs uppercase"
+          >
+            Review
+          </button>
+        </div>
+      )}
+      {syncStatus && syncStatus.conflicts.length > 0 && view !== 'sync-conflicts' && (
+        <div className="max-w-7xl mx-auto mb-8 p-4 bg-yellow-50 border-l-4 border-yellow-500 flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <GitMerge className="w-5 h-5 text-yellow-700 flex-shrink-0" />
+            <div className="text-sm text-yellow-900">
+              {syncStatus.conflicts.length} field{syncStatus.conflicts.length !== 1 ? 's were' : ' was'} changed by someone else while you were editing
+            </div>
+          </div>
+          <button
+            onClick={() => navigateToView('sync-conflicts')}
+            className="ml-4 px-4 py-2 border-2 border-black text-black hover:bg-black hover:text-white transition-colors text-xs uppercase"
+          >
+            Review
+          </button>
+        </div>
+      )}
+      {syncStatus && (syncStatus.state === 'offline' || syncStatus.state === 'error') && syncStatus.pending > 0 && (
+        <div className="max-w-7xl mx-auto mb-8 p-3 bg-gray-50 border-l-4 border-gray-400 flex items-center space-x-3 text-sm text-gray-700">
+          <CloudOff className="w-4 h-4 flex-shrink-0" />
+          <span>
+            {syncStatus.state === 'offline' ? 'Working offline' : `Sync failed: ${syncStatus.message}`}
+            {' • '}{syncStatus.pending} change{syncStatus.pending !== 1 ? 's' : ''} saved in this browser will sync when the server is reachable
+          </span>
+        </div>
+      )}
       {view === 'dashboard' && (
             <Dashboard
-              suppliers={suppliers}
+              suppliers={activeSuppliers}
               filteredSuppliers={filteredSuppliers}
               searchTerm={searchTerm}
               setSearchTerm={setSearchTerm}
@@ -472,12 +1047,22 @@ const PowerhouseSupplierSystem = () => {
               sortBy={sortBy}
             setSortBy={setSortBy}
             allMaterials={allMaterials}
-            getSupplierScore={getSupplierScore}
+            getSupplierScore={getDashboardScore}
             onSupplierClick={(supplier) => { setSelectedSupplier(supplier); navigateToView('report', supplier.id); }}
             onEditSupplier={handleEditSupplier}
             onDeleteSupplier={handleDeleteSupplier}
-            onViewChange={(view) => navigateToView(view)}
-            criteriaDefinitions={criteriaDefinitions}
+            onViewChange={(view) => {
+              // A new AI assessment from the dashboard is for a new supplier
+              if (view === 'ai-assessment') setAiAssessment(prev => ({ ...prev, supplierId: null }));
+              navigateToView(view);
+            }}
+            getSupplierCriteria={(supplier) => getTemplateCriteria(getSupplierTemplateId(supplier))}
+            getSupplierTemplateId={getSupplierTemplateId}
+            templates={templateOptions}
+            templateFilter={templateFilter}
+            setTemplateFilter={setTemplateFilter}
+            commonQuestionCount={commonCriteria ? Object.keys(commonCriteria).length : null}
+            role={role}
           />
       )}
       {view === 'settings' && (
@@ -486,12 +1071,100 @@ const PowerhouseSupplierSystem = () => {
           setTempWeights={setTempWeights}
           onSaveWeights={handleSaveWeights}
           onResetWeights={handleResetWeights}
+          templates={templateOptions}
+          templateUsage={getTemplateUsage(templates, suppliers)}
+          weightsTemplateId={weightsTemplateId}
+          onWeightsTemplateChange={handleWeightsTemplateChange}
+          onCreateTemplate={handleCreateTemplate}
+          onRenameTemplate={handleRenameTemplate}
+          onDeleteTemplate={handleDeleteTemplate}
           onExportData={handleExportData}
           onImportData={handleImportData}
+          onDownloadBackup={handleDownloadBackup}
+          onRestoreBackup={handleRestoreBackup}
+          assessorName={appSettings.assessorName || ''}
+          onAssessorNameChange={handleAssessorNameChange}
+          storageBackend={getStorageBackendName()}
+          storageEstimate={storageEstimate}
+          trashRetentionDays={trashRetentionDays}
+          onTrashRetentionChange={handleTrashRetentionChange}
+          trashedCount={trashedSuppliers.length}
+          onOpenTrash={() => navigateToView('trash')}
+          onOpenQuestionnaire={(templateId) => {
+            setEditingTemplateId(templateId);
+            navigateToView('questionnaire');
+          }}
           onBack={() => navigateToView('dashboard')}
+          role={role}
+          user={session?.user ?? null}
+        />
+      )}
+      {view === 'import' && pendingImport && can('importSuppliers') && (
+        <ImportReview
+          fileName={pendingImport.fileName}
+          importedSuppliers={pendingImport.suppliers}
+          invalidRecords={pendingImport.invalid}
+          existingSuppliers={activeSuppliers}
+          criteriaDefinitions={criteriaDefinitions}
+          author={auditAuthor}
+          role={role}
+          onApply={(imported) => {
+            // Imports only touch active suppliers; a trashed supplier present in the import is replaced by it
+            const importedIds = new Set(imported.map(s => s.id));
+            setSuppliers([...imported, ...trashedSuppliers.filter(s => !importedIds.has(s.id))]);
+            // Store embedded evidence for the files the imported suppliers reference
+            const importedFileIds = imported.flatMap(s => getEvidenceFileIds(s));
+            importedFileIds.forEach(fileId => {
+              const dataUrl = pendingImport.evidence[fileId];
+              if (dataUrl) saveEvidenceData(fileId, dataUrl);
+            });
+            // Replacing can drop suppliers, along with their evidence
+            const keptFileIds = new Set(importedFileIds);
+            deleteEvidenceData(activeSuppliers.flatMap(s => getEvidenceFileIds(s)).filter(id => !keptFileIds.has(id)));
+          }}
+          onClose={() => {
+            setPendingImport(null);
+            navigateToView('dashboard');
+          }}
+        />
+      )}
+      {view === 'questionnaire' && can('editQuestionnaires') && (
+        <QuestionnaireEditor
+          key={editingTemplateId}
+          template={templates.find(t => t.id === editingTemplateId)}
+          onSave={handleSaveQuestionnaire}
+          onBack={() => navigateToView('settings')}
         />
       )}
-      {view === 'ai-assessment' && (
+      {view === 'criteria-remap' && criteriaRemap && can('editSuppliers') && (
+        <CriteriaRemapReview
+          remap={criteriaRemap}
+          criteriaDefinitions={criteriaDefinitions}
+          onApply={handleApplyCriteriaRemap}
+          onDismiss={handleDismissCriteriaRemap}
+          onBack={() => navigateToView('dashboard')}
+        />
+      )}
+      {view === 'restore' && pendingRestore && canRestore && (
+        <RestoreReview
+          fileName={pendingRestore.fileName}
+          backup={pendingRestore.summary}
+          current={{
+            activeSuppliers: activeSuppliers.length,
+            trashedSuppliers: trashedSuppliers.length,
+            materials: allMaterials.length,
+            weights: categoryWeights,
+            questionCount: Object.keys(criteriaDefinitions).length,
+            templateNames: templates.map(t => t.name)
+          }}
+          onRestore={handleConfirmRestore}
+          onCancel={() => {
+            setPendingRestore(null);
+            navigateToView('settings');
+          }}
+        />
+      )}
+      {view === 'ai-assessment' && can('runAIAssessment') && (
         <AIAssessment
           supplierName={aiAssessment.supplierName}
           location={aiAssessment.location}
@@ -500,13 +1173,17 @@ const PowerhouseSupplierSystem = () => {
           additionalNotes={aiAssessment.additionalNotes}
           processing={aiAssessment.processing}
           results={aiAssessment.results}
-          criteriaDefinitions={criteriaDefinitions}
+          templateId={aiAssessment.templateId}
+          reassessing={aiAssessment.supplierId !== null}
+          templates={templateOptions}
+          criteriaDefinitions={getTemplateCriteria(aiAssessment.templateId)}
           allMaterials={allMaterials}
           onSupplierNameChange={(name) => setAiAssessment(prev => ({ ...prev, supplierName: name }))}
           onLocationChange={(location) => setAiAssessment(prev => ({ ...prev, location }))}
           onMaterialsChange={(materials) => setAiAssessment(prev => ({ ...prev, materials }))}
           onWebsiteChange={(website) => setAiAssessment(prev => ({ ...prev, website }))}
           onAdditionalNotesChange={(notes) => setAiAssessment(prev => ({ ...prev, additionalNotes: notes }))}
+          onTemplateChange={(templateId) => setAiAssessment(prev => ({ ...prev, templateId }))}
           onRunAssessment={handleRunAIAssessment}
           onSaveAssessment={handleSaveAIAssessment}
           onReset={() => setAiAssessment({
@@ -516,6 +1193,8 @@ const PowerhouseSupplierSystem = () => {
             website: '',
             uploadedDocs: [],
             additionalNotes: '',
+            templateId: STANDARD_TEMPLATE_ID,
+            supplierId: null,
             processing: false,
             results: null,
             resultFilter: 'all'
@@ -523,43 +1202,84 @@ const PowerhouseSupplierSystem = () => {
           onBack={() => navigateToView('dashboard')}
         />
       )}
-      {view === 'supplier-form' && (
+      {view === 'supplier-form' && can('editSuppliers') && (
         <ManualAssessment
           formData={formData}
-          criteriaDefinitions={criteriaDefinitions}
+          criteriaDefinitions={getTemplateCriteria(getSupplierTemplateId(formData))}
+          templates={templateOptions}
           allMaterials={allMaterials}
           editingSupplier={editingSupplier}
           onInputChange={handleInputChange}
           onScoreChange={handleScoreChange}
+          onAnswerChange={handleAnswerChange}
+          onTemplateChange={handleTemplateChange}
           onSubmit={handleSubmit}
           onCancel={() => {
+            // Discard evidence attached during this edit
+            deleteEvidenceData(getRemovedEvidenceIds(formData, editingSupplier));
             setEditingSupplier(null);
-            setFormData({ name: '', location: '', distance: '', materials: [], contactEmail: '', scores: {}, documents: {}, additionalNotes: {}, certifications: [] });
+            setFormData(EMPTY_FORM_DATA);
             navigateToView('dashboard');
           }}
           onBack={() => navigateToView('dashboard')}
         />
       )}
+      {view === 'trash' && (
+        <TrashView
+          trashedSuppliers={trashedSuppliers}
+          retentionDays={trashRetentionDays}
+          onRestore={handleRestoreSupplier}
+          onPurge={handlePurgeSupplier}
+          onBack={() => navigateToView('dashboard')}
+          role={role}
+        />
+      )}
+      {view === 'login' && (
+        <LoginView
+          serverUrl={storageTarget.serverUrl}
+          onLogin={handleLogin}
+          onCancel={() => navigateToView('dashboard')}
+        />
+      )}
+      {view === 'sync-conflicts' && (
+        <SyncConflicts
+          conflicts={syncStatus?.conflicts || []}
+          criteriaDefinitions={criteriaDefinitions}
+          onResolve={handleResolveSyncConflict}
+          onBack={() => navigateToView('dashboard')}
+        />
+      )}
       {view === 'report' && selectedSupplier && (
         <ReportView
           supplier={selectedSupplier}
-          criteriaDefinitions={criteriaDefinitions}
-          categoryWeights={categoryWeights}
+          criteriaDefinitions={getTemplateCriteria(getSupplierTemplateId(selectedSupplier))}
+          categoryWeights={getTemplateWeights(getSupplierTemplateId(selectedSupplier))}
           onEdit={() => handleEditSupplier(selectedSupplier)}
+          onRunAIAssessment={() => handleReassessWithAI(selectedSupplier)}
           onBack={() => navigateToView('dashboard')}
+          role={role}
+        />
+      )}
+      
+      {encryptedFile && (
+        <PassphrasePrompt
+          title={encryptedFile.purpose === 'import' ? 'Encrypted Import' : 'Encrypted Backup'}
+          message={`${encryptedFile.file.name} is encrypted. Enter the passphrase it was saved with.`}
+          onSubmit={handleDecryptFile}
+          onCancel={() => setEncryptedFile(null)}
         />
       )}
       
       {deleteConfirmation.show && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
           <div className="bg-white max-w-md w-full p-6 border-2 border-black">
-            <h2 className="text-xl font-light text-black mb-4">Delete Supplier Report</h2>
+            <h2 className="text-xl font-light text-black mb-4">Permanently Delete Supplier Report</h2>
             <p className="text-sm text-gray-700 mb-4">This action cannot be undone. This will permanently delete the supplier report and all associated data.</p>
             <p className="text-sm text-black mb-4">Please type <strong>delete</strong> to confirm:</p>
             <input type="text" value={deleteConfirmation.inputValue} onChange={(e) => setDeleteConfirmation({ ...deleteConfirmation, inputValue: e.target.value })} className="w-full px-3 py-2 border-2 border-gray-300 focus:border-black focus:outline-none mb-4" placeholder="Type 'delete' to confirm" autoFocus />
             <div className="flex space-x-3">
               <button onClick={confirmDelete} disabled={deleteConfirmation.inputValue.toLowerCase() !== 'delete'} className="flex-1 px-4 py-3 bg-red-600 text-white text-xs uppercase disabled:opacity-50 disabled:cursor-not-allowed hover:bg-red-700 transition-colors">
-                Delete Supplier
+                Delete Permanently
               </button>
               <button onClick={() => setDeleteConfirmation({ show: false, supplierId: null, inputValue: '' })} className="flex-1 px-4 py-3 border-2 border-black text-black hover:bg-black hover:text-white transition-colors text-xs uppercase">
                 Cancel
@@ -0,0 +1,78 @@
+import { useState } from 'react';
+import { AlertCircle } from 'lucide-react';
+import { CriterionDefinition } from '../utils/csvParser';
+import { AssessedQuestionnaire, diffQuestionnaires, formatQuestionnaireVersion, getQuestionnaireVersion, QuestionField } from '../utils/questionnaireVersion';
+
+interface QuestionnaireChangesNoticeProps {
+  // Assessment whose questions are compared with the current questionnaire
+  assessment: AssessedQuestionnaire;
+  criteriaDefinitions: Record<string, CriterionDefinition>;
+}
+
+const FIELD_LABELS: Record<QuestionField, string> = {
+  question: 'wording',
+  options: 'scoring options',
+  priority: 'priority',
+  category: 'category',
+  conditions: 'show/skip conditions',
+  format: 'answer type'
+};
+
+const truncate = (text: string, length = 120) => (text.length > length ? `${text.substring(0, length)}...` : text);
+
+/**
+ * Shows which questions were added, removed or changed since the assessment was answered; renders nothing when the
+ * assessment used the current questionnaire
+ */
+export const QuestionnaireChangesNotice = ({ assessment, criteriaDefinitions }: QuestionnaireChangesNoticeProps) => {
+  const [expanded, setExpanded] = useState(false);
+  const currentVersion = getQuestionnaireVersion(criteriaDefinitions);
+  if (!assessment.questionnaireVersion || !currentVersion || assessment.questionnaireVersion === currentVersion) return null;
+
+  const changes = diffQuestionnaires(assessment.questions, criteriaDefinitions);
+  const summary = [
+    changes.added.length > 0 && `${changes.added.length} added`,
+    changes.removed.length > 0 && `${changes.removed.length} removed`,
+    changes.changed.length > 0 && `${changes.changed.length} changed`
+  ].filter(Boolean).join(', ');
+
+  return (
+    <div className="mb-8 p-4 bg-yellow-50 border-l-4 border-yellow-500 text-sm text-yellow-900">
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex items-start space-x-3">
+          <AlertCircle className="w-5 h-5 flex-shrink-0" />
+          <span>
+            Assessed on {new Date(assessment.assessedAt).toLocaleDateString()} against questionnaire version{' '}
+            <span className="font-mono">{formatQuestionnaireVersion(assessment.questionnaireVersion)}</span>; the current version is{' '}
+            <span className="font-mono">{formatQuestionnaireVersion(currentVersion)}</span>
+            {summary ? ` (${summary} question${changes.added.length + changes.removed.length + changes.changed.length !== 1 ? 's' : ''}).` : '.'}
+          </span>
+        </div>
+        {summary && (
+          <button onClick={() => setExpanded(!expanded)} className="text-xs uppercase hover:underline whitespace-nowrap">
+            {expanded ? 'Hide changes' : 'Show changes'}
+          </button>
+        )}
+      </div>
+      {expanded && (
+        <ul className="mt-3 ml-8 space-y-1">
+          {changes.added.map(id => (
+            <li key={`added-${id}`}>
+              <span className="font-mono text-xs">{id}</span> Added: {truncate(criteriaDefinitions[id].question)}
+            </li>
+          ))}
+          {changes.removed.map(id => (
+            <li key={`removed-${id}`}>
+              <span className="font-mono text-xs">{id}</span> Removed: {truncate(assessment.questions[id].question)}
+            </li>
+          ))}
+          {changes.changed.map(({ id, fields }) => (
+            <li key={`changed-${id}`}>
+              <span className="font-mono text-xs">{id}</span> Changed {fields.map(field => FIELD_LABELS[field]).join(', ')}: {truncate(criteriaDefinitions[id].question)}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,89 @@
+import { useState, useEffect } from 'react';
+import { AlertCircle, CheckCircle } from 'lucide-react';
+import { loadDefaultQuestionsCsv, loadQuestionsWithDiagnostics, QuestionsLoadResult, QuestionDiagnosticKind } from '../utils/csvParser';
+import { loadQuestionnaire } from '../utils/storage';
+
+const KIND_LABELS: Record<QuestionDiagnosticKind, string> = {
+  skipped: 'Skipped',
+  defaultOptions: 'Default options',
+  duplicateScore: 'Duplicate score',
+  duplicateId: 'Duplicate ID',
+  invalidCondition: 'Condition',
+  invalidKind: 'Question type',
+  questionCount: 'Question count'
+};
+
+export const QuestionnaireDiagnostics = () => {
+  const [result, setResult] = useState<QuestionsLoadResult | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState(false);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const saved = await loadQuestionnaire();
+        setResult(await loadQuestionsWithDiagnostics(saved ?? (await loadDefaultQuestionsCsv())));
+      } catch (error) {
+        setLoadError(error instanceof Error ? error.message : String(error));
+      }
+    })();
+  }, []);
+
+  const diagnostics = result?.diagnostics ?? [];
+
+  return (
+    <div className="p-4 border border-gray-200">
+      <div className="flex items-center justify-between">
+        <div>
+          <div className="text-sm font-medium text-black mb-1">Load Check</div>
+          <div className="text-xs text-gray-500 flex items-center gap-1">
+            {loadError ? (
+              <span className="text-red-700">Could not read the questionnaire: {loadError}</span>
+            ) : !result ? (
+              'Checking questions...'
+            ) : diagnostics.length === 0 ? (
+              <>
+                <CheckCircle className="w-3 h-3 text-green-700" />
+                All {Object.keys(result.criteria).length} questions were read as written
+              </>
+            ) : (
+              <>
+                <AlertCircle className="w-3 h-3 text-orange-500" />
+                {Object.keys(result.criteria).length} questions loaded • {diagnostics.length} row{diagnostics.length !== 1 ? 's were' : ' was'} skipped or not read as written
+              </>
+            )}
+          </div>
+        </div>
+        {diagnostics.length > 0 && (
+          <button
+            onClick={() => setExpanded(!expanded)}
+            className="px-4 py-2 border-2 border-gray-400 text-gray-700 hover:border-black hover:text-black transition-colors text-xs uppercase flex-shrink-0 ml-4"
+          >
+            {expanded ? 'Hide Details' : 'Show Details'}
+          </button>
+        )}
+      </div>
+
+      {expanded && (
+        <ul className="mt-4 space-y-3">
+          <li className="text-xs text-gray-500">Row numbers count the header as row 1, as in a spreadsheet.</li>
+          {diagnostics.map((diagnostic, idx) => (
+            <li key={idx} className="p-3 bg-gray-50 border border-gray-200 text-sm">
+              <div className="flex flex-wrap items-center gap-2 mb-1">
+                <span className="px-2 py-0.5 bg-white border border-gray-300 text-xs uppercase text-gray-700">{KIND_LABELS[diagnostic.kind]}</span>
+                {diagnostic.row !== null && <span className="text-xs text-gray-500">Row {diagnostic.row}</span>}
+              </div>
+              <div className="text-black mb-2">{diagnostic.reason}</div>
+              {Object.entries(diagnostic.cells).map(([column, text]) => (
+                <div key={column} className="mb-1">
+                  <div className="text-xs uppercase tracking-wide text-gray-500">{column}</div>
+                  <pre className="text-xs text-gray-700 whitespace-pre-wrap font-mono bg-white border border-gray-200 p-2">{text || '(empty)'}</pre>
+                </div>
+              ))}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,440 @@
+import { useState, useEffect, useMemo } from 'react';
+import { ChevronRight, ChevronUp, ChevronDown, Plus, X, Download, Archive, RotateCcw, AlertCircle } from 'lucide-react';
+import { loadDefaultQuestionsCsv } from '../utils/csvParser';
+import { loadQuestionnaire, QuestionnaireTemplate } from '../utils/storage';
+import { CriterionOption } from '../utils/csvParser';
+import { QuestionKind, KIND_LABELS, describeKindProblem, getChoiceScores, isRangeKind } from '../utils/questionKinds';
+import {
+  QuestionDraft,
+  QuestionIssue,
+  PRIORITIES,
+  Priority,
+  createDraftKey,
+  parseQuestionnaireCsv,
+  serializeQuestionnaire,
+  getDraftCriterionIds,
+  validateQuestionnaire,
+  downloadQuestionnaireCsv
+} from '../utils/questionnaire';
+
+interface QuestionnaireEditorProps {
+  // Template whose questions are edited; the standard questionnaire when not given
+  template?: QuestionnaireTemplate;
+  // Saves the edited questionnaire, or null to go back to the default public/questions.csv (standard questionnaire only)
+  onSave: (csv: string | null) => Promise<void>;
+  onBack: () => void;
+}
+
+const inputClass = 'w-full px-3 py-2 border-2 border-gray-300 focus:border-black focus:outline-none text-sm';
+
+// Scoring options to start from when a question changes to a kind its options cannot score
+const STARTER_OPTIONS: Record<QuestionKind, CriterionOption[]> = {
+  options: [
+    { value: 4, label: 'Excellent' },
+    { value: 3, label: 'Good' },
+    { value: 2, label: 'Fair' },
+    { value: 1, label: 'Poor' }
+  ],
+  numeric: [
+    { value: 4, label: '0-50' },
+    { value: 3, label: '50-200' },
+    { value: 2, label: '200-1000' },
+    { value: 1, label: '1000+' }
+  ],
+  percentage: [
+    { value: 4, label: '75-100%' },
+    { value: 3, label: '50-75%' },
+    { value: 2, label: '25-50%' },
+    { value: 1, label: '0-25%' }
+  ],
+  yesNo: [
+    { value: 4, label: 'Yes' },
+    { value: 1, label: 'No' }
+  ],
+  multiSelect: [
+    { value: 4, label: '3+ selected' },
+    { value: 3, label: '2 selected' },
+    { value: 2, label: '1 selected' },
+    { value: 1, label: '0 selected' }
+  ]
+};
+
+export const QuestionnaireEditor = ({ template, onSave, onBack }: QuestionnaireEditorProps) => {
+  const [drafts, setDrafts] = useState<QuestionDraft[] | null>(null);
+  const [savedCsv, setSavedCsv] = useState('');
+  const [isCustom, setIsCustom] = useState(false);
+  // Criterion IDs by draft key as last saved, to warn when a change would move an ID
+  const [previousIds, setPreviousIds] = useState<Record<string, string>>({});
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const startEditing = (csv: string, custom: boolean) => {
+    const parsed = parseQuestionnaireCsv(csv);
+    const ids = getDraftCriterionIds(parsed);
+    setDrafts(parsed);
+    setSavedCsv(serializeQuestionnaire(parsed));
+    setIsCustom(custom);
+    setPreviousIds(Object.fromEntries(parsed.map((draft, index) => [draft.key, ids[index]])));
+  };
+
+  useEffect(() => {
+    (async () => {
+      try {
+        if (template) {
+          startEditing(template.csv, true);
+          return;
+        }
+        const saved = await loadQuestionnaire();
+        startEditing(saved ?? (await loadDefaultQuestionsCsv()), saved !== null);
+      } catch (error) {
+        setLoadError(error instanceof Error ? error.message : String(error));
+      }
+    })();
+  }, []);
+
+  const ids = useMemo(() => getDraftCriterionIds(drafts || []), [drafts]);
+  const issues = useMemo(() => validateQuestionnaire(drafts || [], previousIds), [drafts, previousIds]);
+  const csv = useMemo(() => serializeQuestionnaire(drafts || []), [drafts]);
+  const errorCount = issues.filter(issue => issue.severity === 'error').length;
+  const warningCount = issues.length - errorCount;
+  const dirty = drafts !== null && csv !== savedCsv;
+  const categories = useMemo(() => Array.from(new Set((drafts || []).map(draft => draft.category))), [drafts]);
+  const subCategories = useMemo(() => Array.from(new Set((drafts || []).map(draft => draft.subCategory.trim()))), [drafts]);
+
+  if (loadError) {
+    return <div className="max-w-5xl mx-auto p-4 bg-red-50 border-l-4 border-red-600 text-sm text-red-800">Could not load the questionnaire: {loadError}</div>;
+  }
+  if (!drafts) {
+    return <div className="max-w-5xl mx-auto text-sm text-gray-600">Loading questionnaire...</div>;
+  }
+
+  const updateDraft = (index: number, changes: Partial<QuestionDraft>) => {
+    setDrafts(drafts.map((draft, i) => (i === index ? { ...draft, ...changes } : draft)));
+  };
+
+  const changeKind = (index: number, kind: QuestionKind) => {
+    const draft = drafts[index];
+    const keepOptions = kind === 'options' || !describeKindProblem(kind, draft.options, ['choice']);
+    updateDraft(index, { kind, options: keepOptions ? draft.options : STARTER_OPTIONS[kind] });
+  };
+
+  const moveDraft = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= drafts.length) return;
+    const reordered = [...drafts];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setDrafts(reordered);
+  };
+
+  const addDraft = () => {
+    const last = drafts[drafts.length - 1];
+    const draft: QuestionDraft = {
+      key: createDraftKey(),
+      id: '',
+      category: last?.category || '',
+      subCategory: last?.subCategory || '',
+      priority: 'MEDIUM',
+      question: '',
+      options: STARTER_OPTIONS.options,
+      retired: false,
+      showIf: '',
+      skipIf: '',
+      kind: 'options',
+      unit: '',
+      choices: []
+    };
+    setDrafts([...drafts, draft]);
+    setExpandedKey(draft.key);
+  };
+
+  const handleBack = () => {
+    if (dirty && !confirm('Discard your unsaved changes to the questionnaire?')) return;
+    onBack();
+  };
+
+  const handleSave = async () => {
+    if (errorCount > 0) return;
+    setSaving(true);
+    try {
+      await onSave(csv);
+      startEditing(csv, true);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'The questionnaire could not be saved');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleResetToDefault = async () => {
+    if (!confirm('Discard the edited questionnaire and go back to the default questions.csv?')) return;
+    setSaving(true);
+    try {
+      await onSave(null);
+      startEditing(await loadDefaultQuestionsCsv(), false);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'The questionnaire could not be saved');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const issuesFor = (index: number | null): QuestionIssue[] => issues.filter(issue => issue.index === index);
+
+  return (
+    <div className="max-w-5xl mx-auto">
+      <div className="mb-8">
+        <button onClick={handleBack} className="text-sm text-black mb-6 hover:underline flex items-center">
+          <ChevronRight className="w-4 h-4 rotate-180 mr-1" />
+          Back to Settings
+        </button>
+        <h1 className="text-3xl font-light text-black mb-3">Question Bank{template && `: ${template.name}`}</h1>
+        <div className="h-px bg-black w-24 mb-4"></div>
+        <p className="text-sm text-gray-600">
+          Add, edit, reorder and retire criteria. Every question is saved with its criterion ID, so moving or adding questions never renumbers the others; new questions take the next free number in their sub-category.
+          Retired questions are no longer asked but keep their ID, so it is not reused.
+          {template
+            ? ` These are the questions of the ${template.name} template.`
+            : isCustom ? ' This workspace uses an edited questionnaire.' : ' This workspace uses the default questions.csv.'}
+        </p>
+      </div>
+
+      <div className="sticky top-0 z-10 bg-white mb-6 py-3 border-b-2 border-black flex flex-wrap items-center justify-between gap-3">
+        <div className="text-sm text-gray-700">
+          {drafts.filter(draft => !draft.retired).length} active • {drafts.filter(draft => draft.retired).length} retired
+          {errorCount > 0 && <span className="text-red-700"> • {errorCount} error{errorCount !== 1 ? 's' : ''}</span>}
+          {warningCount > 0 && <span className="text-orange-600"> • {warningCount} warning{warningCount !== 1 ? 's' : ''}</span>}
+          {dirty && <span className="text-gray-500"> • unsaved changes</span>}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={() => downloadQuestionnaireCsv(csv)}
+            disabled={errorCount > 0}
+            className="px-4 py-2 border-2 border-black text-black hover:bg-black hover:text-white transition-colors text-xs uppercase flex items-center space-x-2 disabled:opacity-50 disabled:pointer-events-none"
+          >
+            <Download className="w-4 h-4" />
+            <span>questions.csv</span>
+          </button>
+          {isCustom && !template && (
+            <button
+              onClick={handleResetToDefault}
+              disabled={saving}
+              className="px-4 py-2 border-2 border-gray-400 text-gray-700 hover:border-black hover:text-black transition-colors text-xs uppercase flex items-center space-x-2 disabled:opacity-50"
+            >
+              <RotateCcw className="w-4 h-4" />
+              <span>Use Default</span>
+            </button>
+          )}
+          <button
+            onClick={handleSave}
+            disabled={saving || errorCount > 0 || !dirty}
+            className="px-4 py-2 bg-black text-white hover:bg-gray-800 transition-colors text-xs uppercase disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save Questionnaire'}
+          </button>
+        </div>
+      </div>
+
+      {issuesFor(null).map(issue => (
+        <div key={issue.message} className="mb-4 p-3 bg-red-50 border-l-4 border-red-600 text-sm text-red-800">{issue.message}</div>
+      ))}
+
+      <datalist id="questionnaire-categories">
+        {categories.map(category => <option key={category} value={category} />)}
+      </datalist>
+      <datalist id="questionnaire-subcategories">
+        {subCategories.map(subCategory => <option key={subCategory} value={subCategory} />)}
+      </datalist>
+
+      <div className="space-y-2 mb-6">
+        {drafts.map((draft, index) => {
+          const draftIssues = issuesFor(index);
+          const hasError = draftIssues.some(issue => issue.severity === 'error');
+          const expanded = expandedKey === draft.key;
+          // Only questions added since the last save can be deleted; saved ones are retired so their IDs are not reused
+          const isNew = !(draft.key in previousIds);
+          return (
+            <div key={draft.key} className={`border-2 ${hasError ? 'border-red-300' : 'border-gray-200'} ${draft.retired ? 'bg-gray-50' : ''}`}>
+              <div className="flex items-center gap-3 p-3">
+                <button
+                  onClick={() => setExpandedKey(expanded ? null : draft.key)}
+                  className="flex-1 min-w-0 text-left flex items-center gap-3"
+                >
+                  <span className="px-2 py-0.5 bg-gray-100 text-gray-700 text-xs font-mono flex-shrink-0">{ids[index]}</span>
+                  <span className={`text-sm truncate ${draft.retired ? 'text-gray-400 line-through' : 'text-black'}`}>
+                    {draft.question.trim() || 'New question'}
+                  </span>
+                </button>
+                {draftIssues.length > 0 && (
+                  <AlertCircle className={`w-4 h-4 flex-shrink-0 ${hasError ? 'text-red-600' : 'text-orange-500'}`} />
+                )}
+                <span className="text-xs text-gray-500 flex-shrink-0">{draft.priority}</span>
+                <div className="flex gap-1 flex-shrink-0">
+                  <button onClick={() => moveDraft(index, -1)} disabled={index === 0} className="p-1 text-gray-600 hover:text-black disabled:opacity-30" title="Move up">
+                    <ChevronUp className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => moveDraft(index, 1)} disabled={index === drafts.length - 1} className="p-1 text-gray-600 hover:text-black disabled:opacity-30" title="Move down">
+                    <ChevronDown className="w-4 h-4" />
+                  </button>
+                  {isNew ? (
+                    <button onClick={() => setDrafts(drafts.filter((_, i) => i !== index))} className="p-1 text-gray-600 hover:text-red-600" title="Delete">
+                      <X className="w-4 h-4" />
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => updateDraft(index, { retired: !draft.retired })}
+                      className="p-1 text-gray-600 hover:text-black"
+                      title={draft.retired ? 'Bring back' : 'Retire'}
+                    >
+                      {draft.retired ? <RotateCcw className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {draftIssues.length > 0 && (
+                <ul className="px-3 pb-3 space-y-1">
+                  {draftIssues.map(issue => (
+                    <li key={issue.message} className={`text-xs ${issue.severity === 'error' ? 'text-red-700' : 'text-orange-600'}`}>{issue.message}</li>
+                  ))}
+                </ul>
+              )}
+
+              {expanded && (
+                <div className="p-4 border-t border-gray-200 space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                    <div>
+                      <label className="block text-xs uppercase tracking-wide text-gray-600 mb-2">Criterion ID</label>
+                      <input value={draft.id} onChange={(e) => updateDraft(index, { id: e.target.value })} className={`${inputClass} font-mono`} placeholder={ids[index]} />
+                    </div>
+                    <div>
+                      <label className="block text-xs uppercase tracking-wide text-gray-600 mb-2">Category</label>
+                      <input list="questionnaire-categories" value={draft.category} onChange={(e) => updateDraft(index, { category: e.target.value })} className={inputClass} placeholder="e.g., 1.MATERIAL SOURCING" />
+                    </div>
+                    <div>
+                      <label className="block text-xs uppercase tracking-wide text-gray-600 mb-2">Sub-category</label>
+                      <input list="questionnaire-subcategories" value={draft.subCategory} onChange={(e) => updateDraft(index, { subCategory: e.target.value })} className={inputClass} placeholder="e.g., 1a.MATERIAL SOURCING" />
+                    </div>
+                    <div>
+                      <label className="block text-xs uppercase tracking-wide text-gray-600 mb-2">Priority</label>
+                      <select value={draft.priority} onChange={(e) => updateDraft(index, { priority: e.target.value as Priority })} className={inputClass}>
+                        {PRIORITIES.map(priority => <option key={priority} value={priority}>{priority}</option>)}
+                      </select>
+                    </div>
+                  </div>
+                  <div>
+                    <label className="block text-xs uppercase tracking-wide text-gray-600 mb-2">Question</label>
+                    <textarea value={draft.question} onChange={(e) => updateDraft(index, { question: e.target.value })} rows={3} className={inputClass} />
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-xs uppercase tracking-wide text-gray-600 mb-2">Show If</label>
+                      <input value={draft.showIf} onChange={(e) => updateDraft(index, { showIf: e.target.value })} className={`${inputClass} font-mono`} placeholder={'e.g., 1a.1 = "International"'} />
+                    </div>
+                    <div>
+                      <label className="block text-xs uppercase tracking-wide text-gray-600 mb-2">Skip If</label>
+                      <input value={draft.skipIf} onChange={(e) => updateDraft(index, { skipIf: e.target.value })} className={`${inputClass} font-mono`} placeholder="e.g., 1a.1 >= 3" />
+                    </div>
+                    <div className="md:col-span-2 text-xs text-gray-500">
+                      Compare another question's score (= != &gt;= &lt;= &gt; &lt;) or its chosen option label in quotes, and join comparisons with AND or OR. Questions that do not apply are hidden and left out of completion and scores.
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-xs uppercase tracking-wide text-gray-600 mb-2">Answer Type</label>
+                      <select value={draft.kind} onChange={(e) => changeKind(index, e.target.value as QuestionKind)} className={inputClass}>
+                        {(Object.keys(KIND_LABELS) as QuestionKind[]).map(kind => <option key={kind} value={kind}>{KIND_LABELS[kind]}</option>)}
+                      </select>
+                    </div>
+                    {draft.kind === 'numeric' && (
+                      <div>
+                        <label className="block text-xs uppercase tracking-wide text-gray-600 mb-2">Unit</label>
+                        <input value={draft.unit} onChange={(e) => updateDraft(index, { unit: e.target.value })} className={inputClass} placeholder="e.g., km" />
+                      </div>
+                    )}
+                    {draft.kind === 'multiSelect' && (
+                      <div>
+                        <label className="block text-xs uppercase tracking-wide text-gray-600 mb-2">Choices (one per line)</label>
+                        <textarea
+                          value={draft.choices.join('\n')}
+                          onChange={(e) => updateDraft(index, { choices: e.target.value.split('\n') })}
+                          rows={4}
+                          className={inputClass}
+                          placeholder={'e.g., FSC\nPEFC\nCradle to Cradle\nor with scores: GECA = 4'}
+                        />
+                      </div>
+                    )}
+                    {draft.kind !== 'options' && (
+                      <div className="md:col-span-2 text-xs text-gray-500">
+                        {draft.kind === 'multiSelect' && getChoiceScores(draft.choices)
+                          ? 'Each choice ends with the score it gives, e.g. "GECA = 4", matching a scoring option; the answer scores the highest choice selected.'
+                          : isRangeKind(draft.kind)
+                            ? `Start each option label with the range of ${draft.kind === 'multiSelect' ? 'selections' : 'answers'} it scores, e.g. "0-50", "1000+", "<= 10", "> 75" or a single value; both ends are included except with < and >, and an answer on a shared end gets the range that starts there.${draft.kind === 'multiSelect' ? ' To score each choice instead, end every choice with its score, e.g. "GECA = 4".' : ''}`
+                            : 'Label one option Yes and the other No, with the score each answer gets.'}
+                        {' '}The answer is kept with the supplier alongside its score.
+                      </div>
+                    )}
+                  </div>
+                  <div>
+                    <label className="block text-xs uppercase tracking-wide text-gray-600 mb-2">Scoring Options</label>
+                    <div className="space-y-2">
+                      {draft.options.map((option, optionIndex) => (
+                        <div key={optionIndex} className="flex items-center gap-2">
+                          <input
+                            type="number"
+                            min="1"
+                            step="1"
+                            value={Number.isNaN(option.value) ? '' : option.value}
+                            onChange={(e) => updateDraft(index, {
+                              options: draft.options.map((o, i) => (i === optionIndex ? { ...o, value: parseInt(e.target.value) } : o))
+                            })}
+                            className="w-20 px-3 py-2 border-2 border-gray-300 focus:border-black focus:outline-none text-sm"
+                          />
+                          <input
+                            value={option.label}
+                            onChange={(e) => updateDraft(index, {
+                              options: draft.options.map((o, i) => (i === optionIndex ? { ...o, label: e.target.value } : o))
+                            })}
+                            className={inputClass}
+                            placeholder="Label"
+                          />
+                          <button
+                            onClick={() => updateDraft(index, { options: draft.options.filter((_, i) => i !== optionIndex) })}
+                            className="p-1 text-gray-600 hover:text-red-600"
+                            title="Remove option"
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                    <button
+                      onClick={() => updateDraft(index, {
+                        options: [...draft.options, { value: Math.max(0, ...draft.options.map(o => o.value).filter(v => !Number.isNaN(v))) + 1, label: '' }]
+                      })}
+                      className="mt-2 text-xs uppercase text-black hover:underline flex items-center gap-1"
+                    >
+                      <Plus className="w-3 h-3" />
+                      Add Option
+                    </button>
+                    <div className="text-xs text-gray-500 mt-2">
+                      Use whatever scale the question needs, e.g. 1-3 or 1-5; scores are put on a common 1-4 scale only when totals are calculated.
+                    </div>
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <button
+        onClick={addDraft}
+        className="px-4 py-2 border-2 border-black text-black hover:bg-black hover:text-white transition-colors text-xs uppercase flex items-center space-x-2"
+      >
+        <Plus className="w-4 h-4" />
+        <span>Add Question</span>
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import { ListChecks, Plus } from 'lucide-react';
+import { STANDARD_TEMPLATE_ID, TemplateOption } from '../utils/templates';
+import { Role, hasPermission } from '../utils/auth';
+
+interface QuestionnaireTemplatesProps {
+  templates: TemplateOption[];
+  // Suppliers, including those in the trash, assessed with each template
+  usage: Record<string, number>;
+  onEditQuestions: (templateId: string) => void;
+  // The new template starts with a copy of another template's questions and weights
+  onCreate: (name: string, copyFromId: string) => void;
+  onRename: (templateId: string, name: string) => void;
+  onDelete: (templateId: string) => void;
+  role: Role;
+}
+
+export const QuestionnaireTemplates = ({ templates, usage, onEditQuestions, onCreate, onRename, onDelete, role }: QuestionnaireTemplatesProps) => {
+  const [newName, setNewName] = useState('');
+  const [copyFromId, setCopyFromId] = useState(STANDARD_TEMPLATE_ID);
+  const canEdit = hasPermission(role, 'editQuestionnaires');
+  const nameTaken = (name: string, exceptId?: string) =>
+    templates.some(template => template.id !== exceptId && template.name.trim().toLowerCase() === name.trim().toLowerCase());
+
+  const handleCreate = () => {
+    if (!newName.trim() || nameTaken(newName)) return;
+    onCreate(newName.trim(), copyFromId);
+    setNewName('');
+  };
+
+  const handleRename = (template: TemplateOption) => {
+    const name = prompt('Template name', template.name)?.trim();
+    if (!name || name === template.name) return;
+    if (nameTaken(name, template.id)) {
+      alert(`There is already a template called ${name}.`);
+      return;
+    }
+    onRename(template.id, name);
+  };
+
+  const handleDelete = (template: TemplateOption) => {
+    if (!confirm(`Delete the ${template.name} template and its questions and weights?`)) return;
+    onDelete(template.id);
+  };
+
+  return (
+    <div className="p-4 border border-gray-200">
+      <div className="text-sm font-medium text-black mb-1">Question Bank</div>
+      <div className="text-xs text-gray-500 mb-4">
+        Each template is a questionnaire with its own category weights, chosen when a supplier is created; add one for each type of supplier that needs different questions.
+        Add, edit, reorder and retire criteria and their scoring options, and download the result as questions.csv.
+        {!canEdit && ' Only admins can change the questionnaire.'}
+      </div>
+
+      <ul className="divide-y divide-gray-200 border-t border-b border-gray-200 mb-4">
+        {templates.map(template => {
+          const count = usage[template.id] || 0;
+          const isStandard = template.id === STANDARD_TEMPLATE_ID;
+          return (
+            <li key={template.id} className="flex items-center justify-between py-3">
+              <div>
+                <div className="text-sm text-black">{template.name}</div>
+                <div className="text-xs text-gray-500">
+                  {count} supplier{count !== 1 ? 's' : ''}
+                  {isStandard && ' • also used for suppliers whose template was deleted'}
+                </div>
+              </div>
+              <div className="flex gap-2 flex-shrink-0 ml-4">
+                {!isStandard && canEdit && (
+                  <>
+                    <button onClick={() => handleRename(template)} className="px-3 py-1.5 border border-gray-300 text-gray-700 hover:border-black hover:text-black transition-colors text-xs uppercase">
+                      Rename
+                    </button>
+                    <button
+                      onClick={() => handleDelete(template)}
+                      disabled={count > 0}
+                      title={count > 0 ? 'Templates in use by suppliers cannot be deleted' : undefined}
+                      className="px-3 py-1.5 border border-red-300 text-red-600 hover:border-red-600 transition-colors text-xs uppercase disabled:opacity-50 disabled:pointer-events-none"
+                    >
+                      Delete
+                    </button>
+                  </>
+                )}
+                <button
+                  onClick={() => onEditQuestions(template.id)}
+                  disabled={!canEdit}
+                  className="px-4 py-2 border-2 border-black text-black hover:bg-black hover:text-white transition-colors text-xs uppercase flex items-center space-x-2 disabled:opacity-50 disabled:pointer-events-none"
+                >
+                  <ListChecks className="w-4 h-4" />
+                  <span>Edit Questions</span>
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      {canEdit && (
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="New template name, e.g. Logistics"
+            className="flex-1 min-w-[12rem] px-3 py-2 border-2 border-gray-300 focus:border-black focus:outline-none text-sm"
+          />
+          <select
+            value={copyFromId}
+            onChange={(e) => setCopyFromId(e.target.value)}
+            className="px-3 py-2 border-2 border-gray-300 focus:border-black focus:outline-none text-sm"
+          >
+            {templates.map(template => (
+              <option key={template.id} value={template.id}>Copy of {template.name}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleCreate}
+            disabled={!newName.trim() || nameTaken(newName)}
+            className="px-4 py-2 bg-black text-white hover:bg-gray-800 transition-colors text-xs uppercase flex items-center space-x-2 disabled:opacity-50"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Add Template</span>
+          </button>
+          {nameTaken(newName) && <div className="w-full text-xs text-red-600">There is already a template with this name</div>}
+        </div>
+      )}
+    </div>
+  );
+};
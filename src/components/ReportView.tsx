@@ -1,15 +1,30 @@
 import { useState } from 'react';
-import { ChevronRight, Edit, XCircle, AlertCircle } from 'lucide-react';
+import { ChevronRight, Edit, XCircle, AlertCircle, History, Download, RefreshCw } from 'lucide-react';
 import { Supplier } from '../utils/storage';
 import { CriterionDefinition } from '../utils/csvParser';
-import { calculateAllScores } from '../utils/scoring';
+import { calculateAllScores, getCategoryScore, getCriterionCategoryId, isScoreInRange, normalizeCriterionScore, NORMALIZED_MAX_SCORE } from '../utils/scoring';
+import { getApplicableCriteria } from '../utils/conditions';
+import { formatAnswer } from '../utils/questionKinds';
+import { getSnapshotQuestions, getSnapshotScore, sortSnapshots } from '../utils/history';
+import { getAssessedQuestionnaire } from '../utils/questionnaireVersion';
+import { getCriterionAuditEntries, formatAuditValue, exportAuditLogToCSV, AUDIT_FIELD_LABELS } from '../utils/audit';
+import { getEvidenceFiles, getScoresWithoutEvidence } from '../utils/evidence';
+import { getCertificationStatus, describeExpiry } from '../utils/certifications';
+import { formatABN, getWebsiteUrl } from '../utils/profile';
+import { Role, hasPermission } from '../utils/auth';
+import { EvidenceFiles } from './EvidenceFiles';
+import { QuestionnaireChangesNotice } from './QuestionnaireChangesNotice';
+
+type QuestionStatus = 'COMPLETED' | 'NEEDS_REVIEW' | 'NOT_APPLICABLE' | 'NO_SCORE';
 
 interface ReportViewProps {
   supplier: Supplier;
   criteriaDefinitions: Record<string, CriterionDefinition>;
   categoryWeights: Record<string, number>;
   onEdit: () => void;
+  onRunAIAssessment: () => void;
   onBack: () => void;
+  role: Role;
 }
 
 const categoryNames: Record<string, string> = {
@@ -37,49 +52,86 @@ export const ReportView = ({
   criteriaDefinitions,
   categoryWeights,
   onEdit,
-  onBack
+  onRunAIAssessment,
+  onBack,
+  role
 }: ReportViewProps) => {
+  const canEdit = hasPermission(role, 'editSuppliers');
   // Status filter state
-  const [statusFilter, setStatusFilter] = useState<'ALL' | 'COMPLETED' | 'NEEDS_REVIEW' | 'NO_SCORE'>('ALL');
+  const [statusFilter, setStatusFilter] = useState<QuestionStatus | 'ALL'>('ALL');
+  // Which assessment is shown: the current one or an index into the sorted history
+  const [selectedAssessment, setSelectedAssessment] = useState<'current' | number>('current');
+  // Criteria whose change history is expanded
+  const [expandedHistory, setExpandedHistory] = useState<string[]>([]);
+  const auditLog = supplier.auditLog || [];
+
+  const toggleHistory = (criterionId: string) => {
+    setExpandedHistory(prev => prev.includes(criterionId) ? prev.filter(id => id !== criterionId) : [...prev, criterionId]);
+  };
+
+  // Historical snapshots carry their own scores, weights and question set
+  const snapshots = sortSnapshots(supplier.assessments || []);
+  const snapshot = selectedAssessment === 'current' ? null : snapshots[selectedAssessment] ?? null;
+  const scores = snapshot ? snapshot.scores : supplier.scores;
+  const additionalNotes = snapshot ? snapshot.additionalNotes : supplier.additionalNotes;
+  const notApplicable = (snapshot ? snapshot.notApplicable : supplier.notApplicable) || {};
+  const answers = (snapshot ? snapshot.answers : supplier.answers) || {};
+  const aiFlags = snapshot ? snapshot.aiFlags : supplier.aiFlags;
+  const weights = snapshot && Object.keys(snapshot.weights).length > 0 ? snapshot.weights : categoryWeights;
+  const snapshotQuestions = snapshot ? getSnapshotQuestions(supplier, snapshot) : {};
+  const questions = Object.keys(snapshotQuestions).length > 0 ? snapshotQuestions : criteriaDefinitions;
+  const timeline = snapshots.map(item => ({ assessedAt: item.assessedAt, score: getSnapshotScore(supplier, item) }));
+  // Questions the shown answers were given against, compared with the current questionnaire
+  const assessedQuestionnaire = snapshot
+    ? { assessedAt: snapshot.assessedAt, questionnaireVersion: snapshot.questionnaireVersion, questions: snapshotQuestions }
+    : getAssessedQuestionnaire(supplier);
 
   // Calculate all scores
-  const scoreCalculation = calculateAllScores(supplier.scores, categoryWeights, criteriaDefinitions);
+  const scoreCalculation = calculateAllScores(scores, weights, questions, notApplicable);
+  // Questions skipped by earlier answers are left out of the report
+  const applicableQuestions = getApplicableCriteria(questions, scores);
+  const skippedCount = Object.keys(questions).length - Object.keys(applicableQuestions).length;
 
   // Group criteria by category
   const groupedCriteria: Record<string, Array<[string, CriterionDefinition]>> = {};
-  Object.entries(criteriaDefinitions).forEach(([id, criterion]) => {
+  Object.entries(applicableQuestions).forEach(([id, criterion]) => {
     if (!groupedCriteria[criterion.category]) {
       groupedCriteria[criterion.category] = [];
     }
     groupedCriteria[criterion.category].push([id, criterion]);
   });
 
-  // Calculate category breakdowns
+  const getQuestionStatus = (criterionId: string): QuestionStatus => {
+    if (notApplicable[criterionId]) return 'NOT_APPLICABLE';
+    const score = scores[criterionId];
+    if (score === null || score === undefined) return 'NO_SCORE';
+    const aiFlag = aiFlags?.find((flag: any) => flag.criterionId === criterionId);
+    return aiFlag?.needsReview ? 'NEEDS_REVIEW' : 'COMPLETED';
+  };
+
+  // Calculate category breakdowns; questions marked not applicable are counted separately
   const categoryBreakdowns: Record<string, {
     answered: number;
     total: number;
+    notApplicable: number;
     averageScore: number;
     weightedScore: number;
   }> = {};
 
   Object.entries(groupedCriteria).forEach(([categoryName, criteria]) => {
-    const categoryId = categoryName.match(/^(\d+)/)?.[1] || '';
-    // Get scores for this category - only include answered questions
-    const categoryScores = criteria
-      .map(([id]) => supplier.scores[id])
-      .filter((score): score is number => score !== null && score !== undefined);
-    
-    const answered = categoryScores.length;
-    const total = criteria.length;
-    // Calculate average of only answered questions in this category
-    const averageScore = answered > 0 
-      ? categoryScores.reduce((sum, score) => sum + score, 0) / answered 
-      : 0;
-    const weightedScore = averageScore * (categoryWeights[categoryId] || 0);
+    const categoryId = criteria.length > 0 ? getCriterionCategoryId(criteria[0][0], criteria[0][1]) : '';
+    // Only answered questions count, with scores on their question's scale
+    const applicableCriteria = criteria.filter(([id]) => !notApplicable[id]);
+    const answered = applicableCriteria.filter(([id]) => isScoreInRange(id, scores[id], questions)).length;
+    const total = applicableCriteria.length;
+    // Average on the common 1-4 scale, as in the headline scores
+    const averageScore = getCategoryScore(scores, categoryId, questions, notApplicable);
+    const weightedScore = averageScore * (weights[categoryId] || 0);
 
     categoryBreakdowns[categoryName] = {
       answered,
       total,
+      notApplicable: criteria.length - total,
       averageScore,
       weightedScore
     };
@@ -103,33 +155,25 @@ export const ReportView = ({
   };
 
   // Count questions by status
-  const totalQuestions = Object.keys(criteriaDefinitions).length;
   let completedCount = 0;
   let needsReviewCount = 0;
+  let notApplicableCount = 0;
   let noScoreCount = 0;
   
-  // Count questions that have scores
-  Object.entries(supplier.scores).forEach(([criterionId, score]) => {
-    const hasScore = score !== null && score !== undefined;
-    if (!hasScore) {
-      noScoreCount++;
-      return;
-    }
-    
-    // Check if this question needs review
-    const aiFlag = supplier.aiFlags?.find((flag: any) => flag.criterionId === criterionId);
-    const needsReview = aiFlag?.needsReview || false;
-    
-    if (needsReview) {
-      needsReviewCount++;
-    } else {
-      completedCount++;
-    }
+  Object.keys(applicableQuestions).forEach(criterionId => {
+    const status = getQuestionStatus(criterionId);
+    if (status === 'COMPLETED') completedCount++;
+    else if (status === 'NEEDS_REVIEW') needsReviewCount++;
+    else if (status === 'NOT_APPLICABLE') notApplicableCount++;
+    else noScoreCount++;
   });
-  
-  // Count questions that don't have any score entry (not in supplier.scores)
-  const questionsWithNoEntry = totalQuestions - Object.keys(supplier.scores).length;
-  noScoreCount += questionsWithNoEntry;
+  // Questions marked not applicable are left out of the completion total
+  const totalQuestions = Object.keys(applicableQuestions).length - notApplicableCount;
+
+
+  // Evidence is kept for the supplier as a whole, so historical snapshots are checked against the current files
+  const scoresWithoutEvidence = getScoresWithoutEvidence(scores, supplier.documents, applicableQuestions);
+  const highPriorityWithoutEvidence = scoresWithoutEvidence.filter(id => questions[id]?.priority === 'HIGH');
 
   return (
     <div className="max-w-6xl mx-auto">
@@ -147,16 +191,48 @@ export const ReportView = ({
             <h1 className="text-4xl font-light text-black mb-3">{supplier.name}</h1>
             <div className="h-px bg-black w-24 mb-4"></div>
             <div className="space-y-2 text-sm text-gray-600">
+              {supplier.tradeType && (
+                <div>Trade Type: <span className="text-black">{supplier.tradeType}</span></div>
+              )}
               {supplier.location && (
                 <div>Location: <span className="text-black">{supplier.location}</span></div>
               )}
+              {supplier.streetAddress && (
+                <div>Address: <span className="text-black">{supplier.streetAddress}</span></div>
+              )}
               {supplier.distance > 0 && (
                 <div>Distance: <span className="text-black">{supplier.distance} km</span></div>
               )}
-              {supplier.contactEmail && (
-                <div>Email: <span className="text-black">{supplier.contactEmail}</span></div>
+              {supplier.abn && (
+                <div>ABN: <span className="text-black">{formatABN(supplier.abn)}</span></div>
+              )}
+              {supplier.website && (
+                <div>
+                  Website:{' '}
+                  <a href={getWebsiteUrl(supplier.website)} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:text-blue-800 underline">
+                    {supplier.website}
+                  </a>
+                </div>
               )}
               <div>Last Updated: <span className="text-black">{supplier.lastUpdated}</span></div>
+              {(supplier.contacts || []).length > 0 && (
+                <div className="pt-2">
+                  <div className="text-xs uppercase tracking-wide text-gray-600 mb-1">Contacts</div>
+                  {supplier.contacts.map((contact, idx) => (
+                    <div key={idx}>
+                      <span className="text-black">{contact.name || 'Unnamed contact'}</span>
+                      {contact.role && <span> ({contact.role})</span>}
+                      {contact.email && (
+                        <> • <a href={`mailto:${contact.email}`} className="text-blue-600 hover:text-blue-800 underline">{contact.email}</a></>
+                      )}
+                      {contact.phone && <> • {contact.phone}</>}
+                    </div>
+                  ))}
+                </div>
+              )}
+              {supplier.profileNotes && (
+                <div className="pt-2 max-w-xl whitespace-pre-wrap text-gray-700">{supplier.profileNotes}</div>
+              )}
               {supplier.aiAssessed && (
                 <div className="inline-flex items-center px-2 py-1 bg-blue-100 text-blue-800 text-xs uppercase">
                   AI Assessed
@@ -164,15 +240,55 @@ export const ReportView = ({
               )}
             </div>
           </div>
+          <div className="flex gap-2">
+            {auditLog.length > 0 && (
+              <button
+                onClick={() => exportAuditLogToCSV(supplier)}
+                className="flex items-center gap-2 px-4 py-2 border-2 border-gray-400 text-gray-700 hover:border-black hover:text-black transition-colors text-xs uppercase"
+              >
+                <Download className="w-4 h-4" />
+                Audit Log
+              </button>
+            )}
+            {hasPermission(role, 'runAIAssessment') && (
+              <button
+                onClick={onRunAIAssessment}
+                className="flex items-center gap-2 px-4 py-2 border-2 border-gray-400 text-gray-700 hover:border-black hover:text-black transition-colors text-xs uppercase"
+              >
+                <RefreshCw className="w-4 h-4" />
+                AI Reassess
+              </button>
+            )}
+            {canEdit && (
+              <button
+                onClick={onEdit}
+                className="flex items-center gap-2 px-4 py-2 border-2 border-black text-black hover:bg-black hover:text-white transition-colors text-xs uppercase"
+              >
+                <Edit className="w-4 h-4" />
+                Edit
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {snapshot && (
+        <div className="mb-8 p-4 bg-blue-50 border-l-4 border-blue-600 flex items-center justify-between">
+          <div className="text-sm text-blue-900">
+            Viewing the assessment saved on <strong>{new Date(snapshot.assessedAt).toLocaleString()}</strong>, scored with the weights and questions in use at the time.
+          </div>
           <button
-            onClick={onEdit}
-            className="flex items-center gap-2 px-4 py-2 border-2 border-black text-black hover:bg-black hover:text-white transition-colors text-xs uppercase"
+            onClick={() => setSelectedAssessment('current')}
+            className="ml-4 text-xs uppercase text-blue-900 hover:underline whitespace-nowrap"
           >
-            <Edit className="w-4 h-4" />
-            Edit
+            Show current
           </button>
         </div>
-      </div>
+      )}
+
+      {assessedQuestionnaire && (
+        <QuestionnaireChangesNotice assessment={assessedQuestionnaire} criteriaDefinitions={criteriaDefinitions} />
+      )}
 
       {/* Score Summary */}
       <section className="mb-12 p-6 bg-gray-50 border border-gray-200">
@@ -195,7 +311,7 @@ export const ReportView = ({
               <span className="text-2xl text-gray-400"> / {totalQuestions}</span>
             </div>
             <div className="text-sm text-gray-600 mb-3">
-              {Math.round((completedCount / totalQuestions) * 100)}% completed
+              {totalQuestions > 0 ? Math.round((completedCount / totalQuestions) * 100) : 0}% completed
             </div>
             <div className="space-y-1.5">
               {needsReviewCount > 0 && (
@@ -208,11 +324,101 @@ export const ReportView = ({
                   {noScoreCount} no score
                 </div>
               )}
+              {notApplicableCount > 0 && (
+                <div className="text-xs text-blue-700">
+                  {notApplicableCount} not applicable
+                </div>
+              )}
+              {skippedCount > 0 && (
+                <div className="text-xs text-gray-500">
+                  {skippedCount} skipped by earlier answers
+                </div>
+              )}
+              {highPriorityWithoutEvidence.length > 0 && (
+                <div className="text-xs text-red-600">
+                  {highPriorityWithoutEvidence.length} HIGH-priority score{highPriorityWithoutEvidence.length !== 1 ? 's' : ''} without evidence
+                </div>
+              )}
+              {scoresWithoutEvidence.length > highPriorityWithoutEvidence.length && (
+                <div className="text-xs text-gray-500">
+                  {scoresWithoutEvidence.length - highPriorityWithoutEvidence.length} other score{scoresWithoutEvidence.length - highPriorityWithoutEvidence.length !== 1 ? 's' : ''} without evidence
+                </div>
+              )}
             </div>
           </div>
         </div>
       </section>
 
+      {/* Assessment History */}
+      {snapshots.length > 0 && (
+        <section className="mb-12">
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-2xl font-light text-black flex items-center gap-2">
+              <History className="w-5 h-5" />
+              Assessment History
+            </h2>
+            <select
+              value={selectedAssessment}
+              onChange={(e) => setSelectedAssessment(e.target.value === 'current' ? 'current' : parseInt(e.target.value))}
+              className="px-3 py-1.5 text-xs border-2 border-gray-300 focus:border-black focus:outline-none bg-white"
+            >
+              <option value="current">Current assessment</option>
+              {snapshots.map((item, idx) => (
+                <option key={item.assessedAt} value={idx}>
+                  {new Date(item.assessedAt).toLocaleString()}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* Score timeline - one point per saved assessment */}
+          {timeline.length > 1 && (
+            <div className="p-4 border border-gray-200 mb-4">
+              <svg viewBox="0 0 600 160" className="w-full h-40" preserveAspectRatio="none">
+                {[1, 2, 3, 4].map(value => (
+                  <line key={value} x1="0" x2="600" y1={150 - (value / 4) * 140} y2={150 - (value / 4) * 140} stroke="#e5e7eb" strokeWidth="1" />
+                ))}
+                <polyline
+                  fill="none"
+                  stroke="#000000"
+                  strokeWidth="2"
+                  points={timeline.map((point, idx) => `${20 + (idx / (timeline.length - 1)) * 560},${150 - (point.score / 4) * 140}`).join(' ')}
+                />
+                {timeline.map((point, idx) => (
+                  <circle
+                    key={point.assessedAt}
+                    cx={20 + (idx / (timeline.length - 1)) * 560}
+                    cy={150 - (point.score / 4) * 140}
+                    r={selectedAssessment === idx ? 6 : 4}
+                    fill={selectedAssessment === idx ? '#000000' : '#ffffff'}
+                    stroke="#000000"
+                    strokeWidth="2"
+                    className="cursor-pointer"
+                    onClick={() => setSelectedAssessment(idx)}
+                  />
+                ))}
+              </svg>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            {timeline.map((point, idx) => (
+              <button
+                key={point.assessedAt}
+                type="button"
+                onClick={() => setSelectedAssessment(idx)}
+                className={`w-full flex items-center justify-between px-4 py-2 text-sm transition-colors ${
+                  selectedAssessment === idx ? 'bg-black text-white' : 'border border-gray-200 text-black hover:border-black'
+                }`}
+              >
+                <span>{new Date(point.assessedAt).toLocaleString()}</span>
+                <span>{point.score.toFixed(2)} / 4</span>
+              </button>
+            ))}
+          </div>
+        </section>
+      )}
+
       {/* Category Breakdown */}
       <section className="mb-12">
         <h2 className="text-2xl font-light text-black mb-6">Category Breakdown</h2>
@@ -256,12 +462,40 @@ export const ReportView = ({
             {supplier.certifications.length > 0 && (
               <div>
                 <h3 className="text-sm uppercase tracking-wide text-gray-600 mb-3">Certifications</h3>
-                <div className="flex flex-wrap gap-2">
-                  {supplier.certifications.map(cert => (
-                    <span key={cert} className="px-3 py-1.5 bg-green-50 text-green-800 text-sm border border-green-200">
-                      {cert}
-                    </span>
-                  ))}
+                <div className="space-y-3">
+                  {supplier.certifications.map(cert => {
+                    const status = getCertificationStatus(cert);
+                    const details = [
+                      cert.certificateNumber && `No. ${cert.certificateNumber}`,
+                      cert.issuer && `Issued by ${cert.issuer}`,
+                      cert.issueDate && `Issued ${cert.issueDate}`,
+                      cert.expiryDate && `Expires ${cert.expiryDate}`
+                    ].filter(Boolean);
+                    return (
+                      <div key={cert.id} className="p-3 border border-gray-200">
+                        <div className="flex items-center justify-between gap-2 mb-1">
+                          <span className="text-sm text-black">{cert.standard}</span>
+                          <span className={`text-xs px-2 py-0.5 border ${
+                            status === 'expired' ? 'bg-red-50 text-red-800 border-red-200' :
+                            status === 'expiring' ? 'bg-yellow-50 text-yellow-800 border-yellow-200' :
+                            'bg-green-50 text-green-800 border-green-200'
+                          }`}>
+                            {describeExpiry(cert)}
+                          </span>
+                        </div>
+                        {details.length > 0 && <div className="text-xs text-gray-600">{details.join(' • ')}</div>}
+                        {cert.scope && <div className="text-xs text-gray-600">Scope: {cert.scope}</div>}
+                        {cert.criterionIds.length > 0 && (
+                          <div className="text-xs text-gray-500 mt-1">Supports {cert.criterionIds.join(', ')}</div>
+                        )}
+                        {cert.evidence && (
+                          <div className="mt-2">
+                            <EvidenceFiles files={[cert.evidence]} />
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
                 </div>
               </div>
             )}
@@ -277,12 +511,13 @@ export const ReportView = ({
             <span className="text-xs uppercase tracking-wide text-gray-600 mr-2">Filter by Status:</span>
             <select
               value={statusFilter}
-              onChange={(e) => setStatusFilter(e.target.value as 'ALL' | 'COMPLETED' | 'NEEDS_REVIEW' | 'NO_SCORE')}
+              onChange={(e) => setStatusFilter(e.target.value as QuestionStatus | 'ALL')}
               className="px-3 py-1.5 text-xs border-2 border-gray-300 focus:border-black focus:outline-none bg-white"
             >
               <option value="ALL">All</option>
               <option value="COMPLETED">Completed</option>
               <option value="NEEDS_REVIEW">Needs Review</option>
+              <option value="NOT_APPLICABLE">Not Applicable</option>
               <option value="NO_SCORE">No Score</option>
             </select>
           </div>
@@ -290,15 +525,7 @@ export const ReportView = ({
         
         {Object.entries(groupedCriteria).map(([categoryName, criteria]) => {
           // Filter criteria based on status filter
-          const filteredCriteria = criteria.filter(([criterionId]) => {
-            if (statusFilter === 'ALL') return true;
-            const score = supplier.scores[criterionId];
-            const hasScore = score !== null && score !== undefined;
-            const aiFlag = supplier.aiFlags?.find((flag: any) => flag.criterionId === criterionId);
-            const needsReview = aiFlag?.needsReview || false;
-            const status = hasScore ? (needsReview ? 'NEEDS_REVIEW' : 'COMPLETED') : 'NO_SCORE';
-            return status === statusFilter;
-          });
+          const filteredCriteria = criteria.filter(([criterionId]) => statusFilter === 'ALL' || getQuestionStatus(criterionId) === statusFilter);
 
           // Don't show category if no criteria match the filter
           if (filteredCriteria.length === 0 && statusFilter !== 'ALL') {
@@ -311,7 +538,9 @@ export const ReportView = ({
                 <h3 className="text-2xl font-light text-black">{cleanCategoryName(categoryName)}</h3>
                 <div className="text-sm text-gray-600 mt-1">
                   {statusFilter === 'ALL' 
-                    ? `${categoryBreakdowns[categoryName]?.answered || 0} of ${criteria.length} questions answered`
+                    ? `${categoryBreakdowns[categoryName]?.answered || 0} of ${categoryBreakdowns[categoryName]?.total || 0} questions answered${
+                        categoryBreakdowns[categoryName]?.notApplicable ? ` • ${categoryBreakdowns[categoryName].notApplicable} not applicable` : ''
+                      }`
                     : `${filteredCriteria.length} question${filteredCriteria.length !== 1 ? 's' : ''} shown (${statusFilter})`
                   }
                 </div>
@@ -319,12 +548,15 @@ export const ReportView = ({
               
               <div className="space-y-6">
                 {filteredCriteria.map(([criterionId, criterion]) => {
-                  const score = supplier.scores[criterionId];
-                  const notes = supplier.additionalNotes?.[criterionId] || '';
-                  const hasScore = score !== null && score !== undefined;
-                  const aiFlag = supplier.aiFlags?.find((flag: any) => flag.criterionId === criterionId);
-                  const needsReview = aiFlag?.needsReview || false;
-                  const status = hasScore ? (needsReview ? 'NEEDS_REVIEW' : 'COMPLETED') : 'NO_SCORE';
+                  const score = scores[criterionId];
+                  const notes = additionalNotes?.[criterionId] || '';
+                  const justification = notApplicable[criterionId] || '';
+                  const status = getQuestionStatus(criterionId);
+                  const hasScore = status === 'COMPLETED' || status === 'NEEDS_REVIEW';
+                  // Contribution to the totals, which put every question on the common 1-4 scale
+                  const normalizedScore = hasScore ? normalizeCriterionScore(score as number, criterion) : null;
+                  const needsReview = status === 'NEEDS_REVIEW';
+                  const evidenceFiles = getEvidenceFiles(supplier.documents, criterionId);
                   
                   return (
                     <div key={criterionId} className="pb-6 border-b border-gray-200 last:border-0" data-status={status}>
@@ -347,6 +579,13 @@ export const ReportView = ({
                                 Needs Review
                               </span>
                             )}
+                            {hasScore && evidenceFiles.length === 0 && (
+                              <span className={`text-xs uppercase px-2 py-0.5 ${
+                                criterion.priority === 'HIGH' ? 'bg-red-600 text-white' : 'bg-gray-100 text-gray-600'
+                              }`}>
+                                {criterion.priority === 'HIGH' ? 'Evidence Required' : 'No Evidence'}
+                              </span>
+                            )}
                             {criterion.subCategory && (
                               <span className="text-xs text-gray-500">{criterion.subCategory}</span>
                             )}
@@ -356,13 +595,24 @@ export const ReportView = ({
                         <div className="ml-4 text-right">
                           {hasScore ? (
                             <div>
-                              <div className={`text-3xl font-light ${getScoreColor(score)}`}>
+                              <div className={`text-3xl font-light ${getScoreColor(normalizedScore)}`}>
                                 {score}
-                                <span className="text-xl text-gray-400"> / 4</span>
+                                <span className="text-xl text-gray-400"> / {criterion.maxScore}</span>
                               </div>
-                              <div className={`text-xs mt-1 ${getScoreColor(score)}`}>
-                                {getScoreLabel(score)}
+                              <div className={`text-xs mt-1 ${getScoreColor(normalizedScore)}`}>
+                                {getScoreLabel(normalizedScore)}
                               </div>
+                              {criterion.maxScore !== NORMALIZED_MAX_SCORE && normalizedScore !== null && (
+                                <div className="text-xs text-gray-500 mt-1">
+                                  Counts as {parseFloat(normalizedScore.toFixed(2))} / {NORMALIZED_MAX_SCORE}
+                                </div>
+                              )}
+                              {/* Show the answer given to a numeric, percentage, yes/no or multi-select question */}
+                              {answers[criterionId] !== undefined && (
+                                <div className="text-sm text-black mt-1 max-w-[150px]">
+                                  Answer: {formatAnswer(criterion, answers[criterionId])}
+                                </div>
+                              )}
                               {/* Show selected option label */}
                               {criterion.options.find(opt => opt.value === score) && (
                                 <div className="text-xs text-gray-500 mt-1 max-w-[150px]">
@@ -370,6 +620,11 @@ export const ReportView = ({
                                 </div>
                               )}
                             </div>
+                          ) : justification ? (
+                            <div className="text-blue-700">
+                              <div className="text-3xl font-light">N/A</div>
+                              <div className="text-xs mt-1">Not applicable</div>
+                            </div>
                           ) : (
                             <div className="text-gray-400">
                               <XCircle className="w-6 h-6 mx-auto mb-1" />
@@ -379,6 +634,13 @@ export const ReportView = ({
                         </div>
                       </div>
                       
+                      {justification && (
+                        <div className="mt-3 p-3 bg-blue-50 border-l-4 border-blue-400">
+                          <div className="text-xs uppercase tracking-wide text-blue-800 mb-1">Why not applicable</div>
+                          <div className="text-sm text-gray-700 whitespace-pre-wrap">{justification}</div>
+                        </div>
+                      )}
+                      
                       {notes && (
                         <div className="mt-3 p-3 bg-gray-50 border-l-4 border-gray-400">
                           <div className="text-xs uppercase tracking-wide text-gray-600 mb-1">Notes</div>
@@ -412,6 +674,56 @@ export const ReportView = ({
                           </div>
                         </div>
                       )}
+
+                      {evidenceFiles.length > 0 && (
+                        <div className="mt-3">
+                          <div className="text-xs uppercase tracking-wide text-gray-600 mb-1">Evidence</div>
+                          <EvidenceFiles files={evidenceFiles} />
+                        </div>
+                      )}
+
+                      {/* Change history for this criterion */}
+                      {(() => {
+                        const entries = getCriterionAuditEntries(auditLog, criterionId);
+                        if (entries.length === 0) return null;
+                        const expanded = expandedHistory.includes(criterionId);
+                        return (
+                          <div className="mt-3">
+                            <button
+                              type="button"
+                              onClick={() => toggleHistory(criterionId)}
+                              className="text-xs text-gray-500 hover:text-gray-700 underline flex items-center gap-1"
+                            >
+                              <History className="w-3 h-3" />
+                              {expanded ? 'Hide' : 'Show'} change history ({entries.length})
+                            </button>
+                            {expanded && (
+                              <table className="mt-2 w-full text-xs text-left border border-gray-200">
+                                <thead className="bg-gray-50 text-gray-600 uppercase tracking-wide">
+                                  <tr>
+                                    <th className="px-2 py-1 font-normal">When</th>
+                                    <th className="px-2 py-1 font-normal">Who</th>
+                                    <th className="px-2 py-1 font-normal">Field</th>
+                                    <th className="px-2 py-1 font-normal">From</th>
+                                    <th className="px-2 py-1 font-normal">To</th>
+                                  </tr>
+                                </thead>
+                                <tbody>
+                                  {entries.map((entry, idx) => (
+                                    <tr key={idx} className="border-t border-gray-200 align-top">
+                                      <td className="px-2 py-1 whitespace-nowrap">{new Date(entry.timestamp).toLocaleString()}</td>
+                                      <td className="px-2 py-1">{entry.author}</td>
+                                      <td className="px-2 py-1">{AUDIT_FIELD_LABELS[entry.field]}</td>
+                                      <td className="px-2 py-1 text-gray-500 max-w-[200px] truncate" title={formatAuditValue(entry.oldValue)}>{formatAuditValue(entry.oldValue)}</td>
+                                      <td className="px-2 py-1 max-w-[200px] truncate" title={formatAuditValue(entry.newValue)}>{formatAuditValue(entry.newValue)}</td>
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                            )}
+                          </div>
+                        );
+                      })()}
                     </div>
                   );
                 })}
@@ -429,13 +741,15 @@ export const ReportView = ({
         >
           Back to Dashboard
         </button>
-        <button
-          onClick={onEdit}
-          className="px-8 py-3 bg-black text-white text-xs uppercase hover:bg-gray-800 transition-colors flex items-center gap-2"
-        >
-          <Edit className="w-4 h-4" />
-          Edit Assessment
-        </button>
+        {canEdit && (
+          <button
+            onClick={onEdit}
+            className="px-8 py-3 bg-black text-white text-xs uppercase hover:bg-gray-800 transition-colors flex items-center gap-2"
+          >
+            <Edit className="w-4 h-4" />
+            Edit Assessment
+          </button>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,121 @@
+import { useState } from 'react';
+import { ChevronRight, AlertCircle, RotateCcw } from 'lucide-react';
+import { BackupSummary } from '../utils/backup';
+import { getCategoryWeights } from '../utils/csvParser';
+
+// The workspace as it is now, shown next to the backup
+export interface WorkspaceSummary {
+  activeSuppliers: number;
+  trashedSuppliers: number;
+  materials: number;
+  weights: Record<string, number>;
+  questionCount: number;
+  templateNames: string[];
+}
+
+interface RestoreReviewProps {
+  fileName: string;
+  backup: BackupSummary;
+  current: WorkspaceSummary;
+  onRestore: () => Promise<void>;
+  onCancel: () => void;
+}
+
+export const RestoreReview = ({ fileName, backup, current, onRestore, onCancel }: RestoreReviewProps) => {
+  const [restoring, setRestoring] = useState(false);
+
+  const rows: Array<{ label: string; current: string; backup: string }> = [
+    { label: 'Suppliers', current: String(current.activeSuppliers), backup: String(backup.activeSuppliers) },
+    { label: 'Suppliers in trash', current: String(current.trashedSuppliers), backup: String(backup.trashedSuppliers) },
+    { label: 'Evidence files', current: '—', backup: String(backup.evidenceFiles) },
+    { label: 'Materials', current: String(current.materials), backup: String(backup.materials) },
+    {
+      label: 'Questionnaire',
+      current: `${current.questionCount} questions`,
+      backup: `${backup.questionCount} questions${backup.customQuestionnaire ? ' (custom)' : ''}`
+    },
+    {
+      label: 'Questionnaire templates',
+      current: current.templateNames.join(', ') || 'None',
+      backup: backup.templateNames.join(', ') || 'None'
+    },
+    ...getCategoryWeights({ ...current.weights, ...backup.weights }).map(category => ({
+      label: `Weight: ${category.categoryName}`,
+      current: (current.weights[category.categoryId] ?? 0).toFixed(2),
+      backup: (backup.weights[category.categoryId] ?? 0).toFixed(2)
+    })),
+    ...(backup.settings.assessorName ? [{ label: 'Assessor name', current: '—', backup: String(backup.settings.assessorName) }] : []),
+    ...(backup.settings.trashRetentionDays
+      ? [{ label: 'Trash retention', current: '—', backup: `${backup.settings.trashRetentionDays} days` }]
+      : [])
+  ];
+
+  const handleRestore = async () => {
+    if (!confirm('Replace all suppliers, evidence, weights, materials, settings and the questionnaire in this workspace with the backup? This cannot be undone.')) return;
+    setRestoring(true);
+    try {
+      await onRestore();
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto">
+      <div className="mb-8">
+        <button onClick={onCancel} className="text-sm text-black mb-6 hover:underline flex items-center">
+          <ChevronRight className="w-4 h-4 rotate-180 mr-1" />
+          Back to Settings
+        </button>
+        <h1 className="text-3xl font-light text-black mb-3">Restore Backup</h1>
+        <div className="h-px bg-black w-24 mb-4"></div>
+        <p className="text-sm text-gray-600">
+          {fileName}
+          {backup.createdAt && <> • made {new Date(backup.createdAt).toLocaleString()}</>}
+          {' • '}backup version {backup.backupVersion}
+        </p>
+      </div>
+
+      <div className="mb-8 p-4 bg-yellow-50 border-l-4 border-yellow-500 flex items-start space-x-3 text-sm text-yellow-900">
+        <AlertCircle className="w-5 h-5 flex-shrink-0" />
+        <span>Restoring replaces everything in this workspace with the backup. Download a backup of the current workspace first if you may need it.</span>
+      </div>
+
+      <table className="w-full text-sm mb-8">
+        <thead>
+          <tr className="border-b-2 border-black text-left text-xs uppercase tracking-wide text-gray-600">
+            <th className="py-2 font-normal"></th>
+            <th className="py-2 font-normal">Current</th>
+            <th className="py-2 font-normal">Backup</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <tr key={row.label} className="border-b border-gray-200">
+              <td className="py-2 text-black">{row.label}</td>
+              <td className="py-2 text-gray-600">{row.current}</td>
+              <td className={`py-2 ${row.current !== row.backup && row.current !== '—' ? 'text-black font-medium' : 'text-gray-600'}`}>{row.backup}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="flex justify-end space-x-3">
+        <button
+          onClick={onCancel}
+          className="px-6 py-3 border-2 border-gray-400 text-gray-700 hover:border-black hover:text-black transition-colors text-xs uppercase"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleRestore}
+          disabled={restoring}
+          className="px-6 py-3 bg-black text-white hover:bg-gray-800 transition-colors text-xs uppercase flex items-center space-x-2 disabled:opacity-50"
+        >
+          <RotateCcw className="w-4 h-4" />
+          <span>{restoring ? 'Restoring...' : 'Restore and Replace Workspace'}</span>
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,132 @@
+import { useState, useEffect } from 'react';
+import { Server, UploadCloud, RefreshCw } from 'lucide-react';
+import { getStorageTarget, setStorageTarget, copyBrowserDataToServer, getSyncStatus, onSyncStatusChange, syncNow, StorageTarget, SyncStatus } from '../utils/storage';
+import { checkServerConnection } from '../utils/api';
+
+type ConnectionStatus = 'idle' | 'checking' | 'connected' | 'failed';
+
+function describeSyncStatus(status: SyncStatus): string {
+  const pending = status.pending > 0 ? ` • ${status.pending} change${status.pending !== 1 ? 's' : ''} waiting to sync` : '';
+  const lastSynced = status.lastSyncedAt ? `Last synced ${new Date(status.lastSyncedAt).toLocaleString()}` : 'Not synced yet';
+  if (status.state === 'syncing') return `Syncing...${pending}`;
+  if (status.state === 'offline') return `Offline - working from this browser's copy • ${lastSynced}${pending}`;
+  if (status.state === 'error') return `Sync failed: ${status.message} • ${lastSynced}${pending}`;
+  return `${lastSynced}${pending}`;
+}
+
+export const ServerStorageSettings = () => {
+  const [saved] = useState<StorageTarget>(() => getStorageTarget());
+  const [target, setTarget] = useState<StorageTarget['target']>(saved.target);
+  const [serverUrl, setServerUrl] = useState(saved.serverUrl);
+  const [status, setStatus] = useState<ConnectionStatus>('idle');
+  const [copying, setCopying] = useState(false);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus | null>(() => getSyncStatus());
+
+  useEffect(() => onSyncStatusChange(setSyncStatus), []);
+
+  const changed = target !== saved.target || serverUrl.trim() !== saved.serverUrl;
+
+  const testConnection = async () => {
+    setStatus('checking');
+    setStatus((await checkServerConnection(serverUrl.trim())) ? 'connected' : 'failed');
+  };
+
+  const handleCopy = async () => {
+    if (!confirm(`Replace all suppliers, weights and materials on ${serverUrl.trim()} with the data in this browser?`)) return;
+    setCopying(true);
+    try {
+      const count = await copyBrowserDataToServer(serverUrl.trim());
+      alert(`Copied ${count} supplier${count !== 1 ? 's' : ''} to the server.`);
+    } catch (error) {
+      alert(`Error copying data to the server: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setCopying(false);
+    }
+  };
+
+  const handleApply = async () => {
+    await setStorageTarget({ target, serverUrl: serverUrl.trim() });
+    // Storage is chosen once on load, so reload to switch
+    window.location.reload();
+  };
+
+  return (
+    <div className="p-4 border border-gray-200">
+      <div className="flex items-center gap-2 text-sm font-medium text-black mb-1">
+        <Server className="w-4 h-4" />
+        Shared Server
+      </div>
+      <div className="text-xs text-gray-500 mb-4">
+        Keep suppliers, weights, materials and evidence on the backend server so your team works from one directory.
+        Changes are saved in this browser first and synced whenever the server is reachable, so assessments can continue offline.
+        Settings such as your assessor name stay in this browser.
+      </div>
+
+      {syncStatus && (
+        <div className="flex items-center justify-between gap-4 mb-4 p-3 bg-gray-50 border border-gray-200">
+          <span className={`text-xs ${syncStatus.state === 'error' ? 'text-red-700' : 'text-gray-700'}`}>{describeSyncStatus(syncStatus)}</span>
+          <button
+            onClick={() => syncNow()}
+            disabled={syncStatus.state === 'syncing'}
+            className="px-3 py-1.5 text-xs uppercase border border-gray-300 text-black hover:border-black transition-colors flex items-center space-x-2 disabled:opacity-50 flex-shrink-0"
+          >
+            <RefreshCw className={`w-3 h-3 ${syncStatus.state === 'syncing' ? 'animate-spin' : ''}`} />
+            <span>Sync Now</span>
+          </button>
+        </div>
+      )}
+
+      <div className="flex items-center gap-6 mb-3 text-sm">
+        {(['browser', 'server'] as const).map(option => (
+          <label key={option} className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="radio"
+              name="storage-target"
+              checked={target === option}
+              onChange={() => setTarget(option)}
+            />
+            {option === 'browser' ? 'This browser only' : 'Shared server'}
+          </label>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="url"
+          value={serverUrl}
+          onChange={(e) => {
+            setServerUrl(e.target.value);
+            setStatus('idle');
+          }}
+          placeholder="http://localhost:3001"
+          className="flex-1 min-w-[16rem] px-3 py-2 border-2 border-gray-300 focus:border-black focus:outline-none text-sm"
+        />
+        <button
+          onClick={testConnection}
+          disabled={!serverUrl.trim() || status === 'checking'}
+          className="px-4 py-2 border-2 border-black text-black hover:bg-black hover:text-white transition-colors text-xs uppercase disabled:opacity-50"
+        >
+          {status === 'checking' ? 'Testing...' : 'Test Connection'}
+        </button>
+        <button
+          onClick={handleCopy}
+          disabled={!serverUrl.trim() || copying}
+          className="px-4 py-2 border-2 border-black text-black hover:bg-black hover:text-white transition-colors text-xs uppercase flex items-center space-x-2 disabled:opacity-50"
+          title="Copy the data in this browser to the server"
+        >
+          <UploadCloud className="w-4 h-4" />
+          <span>{copying ? 'Copying...' : 'Copy Browser Data'}</span>
+        </button>
+        <button
+          onClick={handleApply}
+          disabled={!changed || (target === 'server' && !serverUrl.trim())}
+          className="px-4 py-2 bg-black text-white hover:bg-gray-800 transition-colors text-xs uppercase disabled:opacity-50"
+        >
+          Apply & Reload
+        </button>
+      </div>
+      {status === 'connected' && <div className="text-xs text-green-700 mt-2">Server is reachable</div>}
+      {status === 'failed' && <div className="text-xs text-red-700 mt-2">Could not reach the server at this address</div>}
+    </div>
+  );
+};
@@ -1,14 +1,54 @@
-import { ChevronRight, Download, Upload } from 'lucide-react';
+import { useState } from 'react';
+import { ChevronRight, Download, Upload, Trash2, Archive, RotateCcw } from 'lucide-react';
 import { getCategoryWeights } from '../utils/csvParser';
+import { ServerStorageSettings } from './ServerStorageSettings';
+import { WorkspacePassphraseSettings } from './WorkspacePassphraseSettings';
+import { QuestionnaireDiagnostics } from './QuestionnaireDiagnostics';
+import { QuestionnaireTemplates } from './QuestionnaireTemplates';
+import { TemplateOption } from '../utils/templates';
+import { Role, User, hasPermission, ROLE_LABELS } from '../utils/auth';
 
 interface SettingsProps {
+  // Weights being edited, for the template in weightsTemplateId
   tempWeights: Record<string, number>;
   setTempWeights: (weights: Record<string, number>) => void;
   onSaveWeights: () => void;
   onResetWeights: () => void;
-  onExportData: () => void;
+  templates: TemplateOption[];
+  // Suppliers, including those in the trash, assessed with each template
+  templateUsage: Record<string, number>;
+  weightsTemplateId: string;
+  onWeightsTemplateChange: (templateId: string) => void;
+  onCreateTemplate: (name: string, copyFromId: string) => void;
+  onRenameTemplate: (templateId: string, name: string) => void;
+  onDeleteTemplate: (templateId: string) => void;
+  // With a passphrase the export file is encrypted
+  onExportData: (passphrase?: string) => void;
   onImportData: (file: File) => void;
+  // Same passphrase option as onExportData
+  onDownloadBackup: (passphrase?: string) => void;
+  onRestoreBackup: (file: File) => void;
+  assessorName: string;
+  onAssessorNameChange: (name: string) => void;
+  storageBackend: 'indexeddb' | 'localstorage' | 'server';
+  storageEstimate: { usage: number; quota: number } | null;
+  trashRetentionDays: number;
+  onTrashRetentionChange: (days: number) => void;
+  trashedCount: number;
+  onOpenTrash: () => void;
+  onOpenQuestionnaire: (templateId: string) => void;
   onBack: () => void;
+  role: Role;
+  // Signed-in account, whose name replaces the assessor name in the audit log
+  user: User | null;
+}
+
+// Format a byte count for display (e.g. "1.2 MB")
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
 }
 
 export const Settings = ({
@@ -16,10 +56,36 @@ export const Settings = ({
   setTempWeights,
   onSaveWeights,
   onResetWeights,
+  templates,
+  templateUsage,
+  weightsTemplateId,
+  onWeightsTemplateChange,
+  onCreateTemplate,
+  onRenameTemplate,
+  onDeleteTemplate,
   onExportData,
   onImportData,
-  onBack
+  onDownloadBackup,
+  onRestoreBackup,
+  assessorName,
+  onAssessorNameChange,
+  storageBackend,
+  storageEstimate,
+  trashRetentionDays,
+  onTrashRetentionChange,
+  trashedCount,
+  onOpenTrash,
+  onOpenQuestionnaire,
+  onBack,
+  role,
+  user
 }: SettingsProps) => {
+  const [encryptExport, setEncryptExport] = useState(false);
+  const [exportPassphrase, setExportPassphrase] = useState('');
+  const canEditWeights = hasPermission(role, 'editWeights');
+  // Restoring replaces suppliers, weights and the questionnaire, so it needs every one of those permissions
+  const canRestore = (['importSuppliers', 'deleteSuppliers', 'editWeights', 'editQuestionnaires'] as const).every(p => hasPermission(role, p));
+  const downloadPassphrase = encryptExport ? exportPassphrase : undefined;
   const categoryWeightList = getCategoryWeights(tempWeights);
   const totalWeight = Object.values(tempWeights).reduce((sum, w) => sum + w, 0);
   
@@ -34,12 +100,53 @@ export const Settings = ({
         <div className="h-px bg-black w-24"></div>
       </div>
       
+      {/* Assessor */}
+      <section className="mb-12">
+        <h2 className="text-xl font-light text-black mb-6">Assessor</h2>
+        <p className="text-sm text-gray-600 mb-6">
+          Your name is recorded in the audit log against every score, note and review change you save.
+        </p>
+        {user ? (
+          <div className="text-sm text-black">
+            Signed in as <strong>{user.name}</strong> ({user.username}) • {ROLE_LABELS[user.role]}
+          </div>
+        ) : (
+          <div>
+            <label className="block text-xs uppercase tracking-wide text-gray-600 mb-2">Your Name</label>
+            <input
+              type="text"
+              value={assessorName}
+              onChange={(e) => onAssessorNameChange(e.target.value)}
+              className="w-full px-0 py-2 border-0 border-b-2 border-gray-300 focus:border-black focus:outline-none text-lg bg-transparent"
+              placeholder="e.g., Jane Smith"
+            />
+          </div>
+        )}
+      </section>
+      
       {/* Category Weights */}
       <section className="mb-12">
         <h2 className="text-xl font-light text-black mb-6">Category Weights</h2>
         <p className="text-sm text-gray-600 mb-6">
           Adjust the relative importance of each category. Weights will be automatically normalized to sum to 1.0.
+          {templates.length > 1 && ' Each questionnaire template has its own weights; Dashboard scores that compare suppliers on different templates use the Standard weights.'}
+          {!canEditWeights && ' Only admins can change the weights.'}
         </p>
+
+        {templates.length > 1 && (
+          <div className="mb-6">
+            <label className="block text-xs uppercase tracking-wide text-gray-600 mb-2">Template</label>
+            <select
+              value={weightsTemplateId}
+              onChange={(e) => onWeightsTemplateChange(e.target.value)}
+              className="px-3 py-2 border-2 border-gray-300 focus:border-black focus:outline-none text-sm"
+            >
+              {templates.map(template => (
+                <option key={template.id} value={template.id}>{template.name}</option>
+              ))}
+            </select>
+          </div>
+        )}
         
         <div className="space-y-4 mb-6">
           {categoryWeightList.map(cat => (
@@ -55,11 +162,12 @@ export const Settings = ({
                   max="1"
                   step="0.01"
                   value={tempWeights[cat.categoryId] || 0}
+                  disabled={!canEditWeights}
                   onChange={(e) => {
                     const newWeights = { ...tempWeights, [cat.categoryId]: parseFloat(e.target.value) || 0 };
                     setTempWeights(newWeights);
                   }}
-                  className="w-24 px-3 py-2 border-2 border-gray-300 focus:border-black focus:outline-none text-sm"
+                  className="w-24 px-3 py-2 border-2 border-gray-300 focus:border-black focus:outline-none text-sm disabled:bg-gray-50 disabled:text-gray-500"
                 />
                 <div className="text-sm text-gray-600 w-16 text-right">
                   {(tempWeights[cat.categoryId] || 0).toFixed(2)}
@@ -86,56 +194,179 @@ export const Settings = ({
         <div className="flex justify-end space-x-3">
           <button
             onClick={onResetWeights}
-            className="px-6 py-3 border-2 border-gray-400 text-gray-700 hover:border-black hover:text-black transition-colors text-xs uppercase"
+            disabled={!canEditWeights}
+            className="px-6 py-3 border-2 border-gray-400 text-gray-700 hover:border-black hover:text-black transition-colors text-xs uppercase disabled:opacity-50 disabled:pointer-events-none"
           >
             Reset to Defaults
           </button>
           <button
             onClick={onSaveWeights}
-            className="px-6 py-3 bg-black text-white hover:bg-gray-800 transition-colors text-xs uppercase"
+            disabled={!canEditWeights}
+            className="px-6 py-3 bg-black text-white hover:bg-gray-800 transition-colors text-xs uppercase disabled:opacity-50 disabled:pointer-events-none"
           >
             Save Weights
           </button>
         </div>
       </section>
       
+      {/* Questionnaire */}
+      <section className="mb-12">
+        <h2 className="text-xl font-light text-black mb-6">Questionnaire</h2>
+        <div className="space-y-4">
+          <QuestionnaireTemplates
+            templates={templates}
+            usage={templateUsage}
+            onEditQuestions={onOpenQuestionnaire}
+            onCreate={onCreateTemplate}
+            onRename={onRenameTemplate}
+            onDelete={onDeleteTemplate}
+            role={role}
+          />
+        
+          <QuestionnaireDiagnostics />
+        </div>
+      </section>
+      
       {/* Data Management */}
       <section className="mb-12">
         <h2 className="text-xl font-light text-black mb-6">Data Management</h2>
         
         <div className="space-y-4">
+          <div className="p-4 bg-gray-50 border border-gray-300">
+            <div className="text-sm font-medium text-black mb-1">{storageBackend === 'server' ? 'Server Storage' : 'Browser Storage'}</div>
+            <div className="text-xs text-gray-500">
+              {storageBackend === 'server'
+                ? 'Supplier data is stored in this browser and synced with the shared server'
+                : `Data is stored in ${storageBackend === 'indexeddb' ? 'IndexedDB' : 'localStorage (IndexedDB unavailable)'}`}
+              {storageBackend !== 'server' && storageEstimate && storageEstimate.quota > 0 && (
+                <> • {formatBytes(storageEstimate.usage)} of {formatBytes(storageEstimate.quota)} used</>
+              )}
+            </div>
+          </div>
+          
+          <ServerStorageSettings />
+          
+          <WorkspacePassphraseSettings />
+          
+          <div className="p-4 border border-gray-200">
+            <div className="text-sm font-medium text-black mb-1">Encrypted Downloads</div>
+            <div className="text-xs text-gray-500 mb-2">Protect exports and backups with a passphrase; it is asked for when the file is imported or restored</div>
+            <div className="flex flex-wrap items-center gap-3 text-xs text-gray-700">
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input type="checkbox" checked={encryptExport} onChange={(e) => setEncryptExport(e.target.checked)} />
+                Encrypt with a passphrase
+              </label>
+              {encryptExport && (
+                <input
+                  type="password"
+                  value={exportPassphrase}
+                  onChange={(e) => setExportPassphrase(e.target.value)}
+                  autoComplete="new-password"
+                  placeholder="File passphrase"
+                  className="px-2 py-1 border border-gray-300 focus:border-black focus:outline-none text-xs"
+                />
+              )}
+            </div>
+          </div>
+          
           <div className="flex items-center justify-between p-4 border border-gray-200">
             <div>
               <div className="text-sm font-medium text-black mb-1">Export Suppliers</div>
               <div className="text-xs text-gray-500">Download all supplier data as JSON</div>
             </div>
             <button
-              onClick={onExportData}
-              className="px-4 py-2 border-2 border-black text-black hover:bg-black hover:text-white transition-colors text-xs uppercase flex items-center space-x-2"
+              onClick={() => onExportData(downloadPassphrase)}
+              disabled={encryptExport && !exportPassphrase}
+              className="px-4 py-2 border-2 border-black text-black hover:bg-black hover:text-white transition-colors text-xs uppercase flex items-center space-x-2 disabled:opacity-50 disabled:pointer-events-none"
             >
               <Download className="w-4 h-4" />
               <span>Export</span>
             </button>
           </div>
           
+          {hasPermission(role, 'importSuppliers') && (
+            <div className="flex items-center justify-between p-4 border border-gray-200">
+              <div>
+                <div className="text-sm font-medium text-black mb-1">Import Suppliers</div>
+                <div className="text-xs text-gray-500">Upload a JSON file, encrypted or not, to merge with or replace the current suppliers</div>
+              </div>
+              <label className="px-4 py-2 border-2 border-black text-black hover:bg-black hover:text-white transition-colors text-xs uppercase flex items-center space-x-2 cursor-pointer">
+                <Upload className="w-4 h-4" />
+                <span>Import</span>
+                <input
+                  type="file"
+                  accept=".json"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) onImportData(file);
+                  }}
+                  className="hidden"
+                />
+              </label>
+            </div>
+          )}
+          
           <div className="flex items-center justify-between p-4 border border-gray-200">
             <div>
-              <div className="text-sm font-medium text-black mb-1">Import Suppliers</div>
-              <div className="text-xs text-gray-500">Upload JSON file to import supplier data</div>
+              <div className="text-sm font-medium text-black mb-1">Workspace Backup</div>
+              <div className="text-xs text-gray-500">
+                Everything needed to reproduce this workspace in one file: suppliers (including the trash), evidence files, weights, materials, settings and the questionnaire
+              </div>
             </div>
-            <label className="px-4 py-2 border-2 border-black text-black hover:bg-black hover:text-white transition-colors text-xs uppercase flex items-center space-x-2 cursor-pointer">
-              <Upload className="w-4 h-4" />
-              <span>Import</span>
-              <input
-                type="file"
-                accept=".json"
-                onChange={(e) => {
-                  const file = e.target.files?.[0];
-                  if (file) onImportData(file);
-                }}
-                className="hidden"
-              />
-            </label>
+            <div className="flex gap-2 flex-shrink-0 ml-4">
+              <button
+                onClick={() => onDownloadBackup(downloadPassphrase)}
+                disabled={encryptExport && !exportPassphrase}
+                className="px-4 py-2 border-2 border-black text-black hover:bg-black hover:text-white transition-colors text-xs uppercase flex items-center space-x-2 disabled:opacity-50 disabled:pointer-events-none"
+              >
+                <Archive className="w-4 h-4" />
+                <span>Back Up</span>
+              </button>
+              {canRestore && (
+                <label className="px-4 py-2 border-2 border-black text-black hover:bg-black hover:text-white transition-colors text-xs uppercase flex items-center space-x-2 cursor-pointer">
+                  <RotateCcw className="w-4 h-4" />
+                  <span>Restore</span>
+                  <input
+                    type="file"
+                    accept=".json"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) onRestoreBackup(file);
+                      e.target.value = '';
+                    }}
+                    className="hidden"
+                  />
+                </label>
+              )}
+            </div>
+          </div>
+          
+          <div className="flex items-center justify-between p-4 border border-gray-200">
+            <div>
+              <div className="text-sm font-medium text-black mb-1">Trash</div>
+              <div className="text-xs text-gray-500 flex items-center gap-2">
+                <span>{trashedCount} deleted supplier{trashedCount !== 1 ? 's' : ''} • kept for</span>
+                <input
+                  type="number"
+                  min="1"
+                  value={trashRetentionDays}
+                  disabled={!hasPermission(role, 'deleteSuppliers')}
+                  onChange={(e) => {
+                    const days = parseInt(e.target.value);
+                    if (days >= 1) onTrashRetentionChange(days);
+                  }}
+                  className="w-16 px-2 py-1 border border-gray-300 focus:border-black focus:outline-none text-xs"
+                />
+                <span>days before permanent deletion</span>
+              </div>
+            </div>
+            <button
+              onClick={onOpenTrash}
+              className="px-4 py-2 border-2 border-black text-black hover:bg-black hover:text-white transition-colors text-xs uppercase flex items-center space-x-2"
+            >
+              <Trash2 className="w-4 h-4" />
+              <span>Open Trash</span>
+            </button>
           </div>
         </div>
       </section>
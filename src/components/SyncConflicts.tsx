@@ -0,0 +1,83 @@
+import { ChevronRight, CheckCircle } from 'lucide-react';
+import { CriterionDefinition } from '../utils/csvParser';
+import { SyncConflict } from '../utils/sync';
+import { formatFieldValue } from '../utils/merge';
+
+interface SyncConflictsProps {
+  conflicts: SyncConflict[];
+  criteriaDefinitions: Record<string, CriterionDefinition>;
+  onResolve: (conflict: SyncConflict, choice: 'local' | 'server') => void;
+  onBack: () => void;
+}
+
+export const SyncConflicts = ({ conflicts, criteriaDefinitions, onResolve, onBack }: SyncConflictsProps) => {
+  const supplierIds = Array.from(new Set(conflicts.map(conflict => conflict.supplierId)));
+
+  return (
+    <div className="max-w-5xl mx-auto">
+      <div className="mb-8">
+        <button onClick={onBack} className="text-sm text-black mb-6 hover:underline flex items-center">
+          <ChevronRight className="w-4 h-4 rotate-180 mr-1" />
+          Back to Dashboard
+        </button>
+        <h1 className="text-3xl font-light text-black mb-3">Sync Conflicts</h1>
+        <div className="h-px bg-black w-24 mb-4"></div>
+        <p className="text-sm text-gray-600">
+          These fields were changed both in this browser and by someone else before the changes could be synced.
+          The server's value is shown in the app until you choose; keeping yours sends it to the server on the next sync.
+        </p>
+      </div>
+
+      {conflicts.length === 0 ? (
+        <div className="p-4 bg-green-50 border-l-4 border-green-600 flex items-center space-x-2 text-sm text-green-800">
+          <CheckCircle className="w-4 h-4" />
+          <span>All conflicts are resolved.</span>
+        </div>
+      ) : (
+        supplierIds.map(supplierId => {
+          const supplierConflicts = conflicts.filter(conflict => conflict.supplierId === supplierId);
+          return (
+            <div key={supplierId} className="mb-8">
+              <div className="mb-4 pb-3 border-b-2 border-black">
+                <h3 className="text-lg font-light text-black">{supplierConflicts[0].supplierName}</h3>
+              </div>
+              <div className="space-y-4">
+                {supplierConflicts.map(conflict => {
+                  const question = conflict.criterionId ? criteriaDefinitions[conflict.criterionId]?.question : undefined;
+                  return (
+                    <div key={conflict.key} className="pb-4 border-b border-gray-200 last:border-0">
+                      <div className="flex items-center gap-3 mb-2">
+                        <span className="px-2 py-0.5 bg-gray-100 text-gray-700 text-xs font-mono">{conflict.label}</span>
+                        {question && <span className="text-xs text-gray-500 truncate">{question}</span>}
+                        <span className="text-xs text-gray-400 ml-auto flex-shrink-0">
+                          Detected {new Date(conflict.detectedAt).toLocaleString()}
+                        </span>
+                      </div>
+                      <div className="grid grid-cols-2 gap-2">
+                        {(['local', 'server'] as const).map(side => (
+                          <button
+                            key={side}
+                            type="button"
+                            onClick={() => onResolve(conflict, side)}
+                            className="p-3 text-left text-sm border border-gray-300 text-black hover:border-black transition-colors"
+                          >
+                            <div className="text-[10px] uppercase tracking-wide opacity-75 mb-1">
+                              {side === 'local' ? 'Keep Mine' : 'Keep Server'}
+                            </div>
+                            <div className="whitespace-pre-wrap line-clamp-4">
+                              {formatFieldValue(side === 'local' ? conflict.localValue : conflict.serverValue)}
+                            </div>
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,83 @@
+import { ChevronRight, RotateCcw, Trash2 } from 'lucide-react';
+import { Supplier } from '../utils/storage';
+import { getPurgeDate } from '../utils/trash';
+import { Role, hasPermission } from '../utils/auth';
+
+interface TrashViewProps {
+  trashedSuppliers: Supplier[];
+  retentionDays: number;
+  onRestore: (supplierId: string) => void;
+  onPurge: (supplierId: string) => void;
+  onBack: () => void;
+  role: Role;
+}
+
+export const TrashView = ({
+  trashedSuppliers,
+  retentionDays,
+  onRestore,
+  onPurge,
+  onBack,
+  role
+}: TrashViewProps) => {
+  // Most recently deleted first
+  const sortedSuppliers = [...trashedSuppliers].sort(
+    (a, b) => new Date(b.deletedAt as string).getTime() - new Date(a.deletedAt as string).getTime()
+  );
+
+  return (
+    <div className="max-w-5xl mx-auto">
+      <div className="mb-8">
+        <button onClick={onBack} className="text-sm text-black mb-6 hover:underline flex items-center">
+          <ChevronRight className="w-4 h-4 rotate-180 mr-1" />
+          Back to Dashboard
+        </button>
+        <h1 className="text-3xl font-light text-black mb-3">Trash</h1>
+        <div className="h-px bg-black w-24 mb-4"></div>
+        <p className="text-sm text-gray-600">
+          Deleted suppliers are kept for {retentionDays} day{retentionDays !== 1 ? 's' : ''} before they are removed permanently.
+          They are not shown on the dashboard or included in exports.
+        </p>
+      </div>
+
+      {sortedSuppliers.length === 0 ? (
+        <div className="p-8 border-2 border-gray-200 text-center text-sm text-gray-500">The trash is empty</div>
+      ) : (
+        <div className="space-y-3">
+          {sortedSuppliers.map(supplier => (
+            <div key={supplier.id} className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 p-4 border-2 border-gray-200">
+              <div>
+                <div className="text-lg font-light text-black">{supplier.name}</div>
+                <div className="text-xs text-gray-600">
+                  {supplier.location && `${supplier.location} • `}
+                  Deleted {new Date(supplier.deletedAt as string).toLocaleDateString()}
+                  {' • '}Removed permanently on {getPurgeDate(supplier, retentionDays).toLocaleDateString()}
+                </div>
+              </div>
+              <div className="flex gap-2">
+                {hasPermission(role, 'trashSuppliers') && (
+                  <button
+                    onClick={() => onRestore(supplier.id)}
+                    className="px-4 py-2 border-2 border-black text-black hover:bg-black hover:text-white transition-colors text-xs uppercase flex items-center space-x-2"
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                    <span>Restore</span>
+                  </button>
+                )}
+                {hasPermission(role, 'deleteSuppliers') && (
+                  <button
+                    onClick={() => onPurge(supplier.id)}
+                    className="px-4 py-2 border-2 border-red-600 text-red-600 hover:bg-red-600 hover:text-white transition-colors text-xs uppercase flex items-center space-x-2"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                    <span>Delete Permanently</span>
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
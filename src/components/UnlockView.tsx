@@ -0,0 +1,83 @@
+import { useState } from 'react';
+import { Lock } from 'lucide-react';
+import { unlockStorage, needsPreviousPassphrase } from '../utils/storage';
+
+interface UnlockViewProps {
+  onUnlock: () => void;
+}
+
+export const UnlockView = ({ onUnlock }: UnlockViewProps) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [previousPassphrase, setPreviousPassphrase] = useState('');
+  // A passphrase change that did not finish is completed on unlock, which needs both passphrases
+  const [needsPrevious] = useState(needsPreviousPassphrase);
+  const [error, setError] = useState<string | null>(null);
+  const [unlocking, setUnlocking] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setUnlocking(true);
+    setError(null);
+    try {
+      if (await unlockStorage(passphrase, needsPrevious ? previousPassphrase : undefined)) {
+        onUnlock();
+        return;
+      }
+      setError(needsPrevious ? 'The new or previous passphrase is incorrect' : 'The passphrase is incorrect');
+      setPassphrase('');
+      setPreviousPassphrase('');
+    } catch (error) {
+      // The passphrase was right but finishing an interrupted change failed, e.g. when storage is full; it can be retried
+      setError(`Could not finish unlocking: ${(error as Error).message}`);
+    }
+    setUnlocking(false);
+  };
+
+  return (
+    <div className="max-w-md mx-auto">
+      <div className="mb-8">
+        <h1 className="text-3xl font-light text-black mb-3">Workspace Locked</h1>
+        <div className="h-px bg-black w-24 mb-4"></div>
+        <p className="text-sm text-gray-600">
+          Supplier data in this browser is encrypted. Enter the workspace passphrase to unlock it.
+          {needsPrevious && ' A passphrase change did not finish; enter the new passphrase and the previous one to complete it.'}
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <div>
+          <label className="block text-xs uppercase tracking-wide text-gray-600 mb-2">Passphrase</label>
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            autoComplete="current-password"
+            autoFocus
+            className="w-full px-0 py-2 border-0 border-b-2 border-gray-300 focus:border-black focus:outline-none text-lg bg-transparent"
+          />
+        </div>
+        {needsPrevious && (
+          <div>
+            <label className="block text-xs uppercase tracking-wide text-gray-600 mb-2">Previous Passphrase</label>
+            <input
+              type="password"
+              value={previousPassphrase}
+              onChange={(e) => setPreviousPassphrase(e.target.value)}
+              autoComplete="off"
+              className="w-full px-0 py-2 border-0 border-b-2 border-gray-300 focus:border-black focus:outline-none text-lg bg-transparent"
+            />
+          </div>
+        )}
+        {error && <div className="p-3 bg-red-50 border-l-4 border-red-600 text-sm text-red-800">{error}</div>}
+        <button
+          type="submit"
+          disabled={unlocking || !passphrase || (needsPrevious && !previousPassphrase)}
+          className="w-full px-6 py-3 bg-black text-white hover:bg-gray-800 transition-colors text-xs uppercase flex items-center justify-center space-x-2 disabled:opacity-50"
+        >
+          <Lock className="w-4 h-4" />
+          <span>{unlocking ? 'Unlocking...' : 'Unlock'}</span>
+        </button>
+      </form>
+    </div>
+  );
+};
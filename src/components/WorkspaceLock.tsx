@@ -0,0 +1,51 @@
+import { useState, useEffect, ReactNode } from 'react';
+import { isStorageLocked, isEncryptionEnabled, getAutoLockMinutes, lockStorage } from '../utils/storage';
+import { UnlockView } from './UnlockView';
+
+// Activity that keeps an unlocked workspace open
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'] as const;
+
+/**
+ * Lock the workspace and reload, so no decrypted data is left in the page
+ */
+export function lockWorkspace(): void {
+  lockStorage();
+  window.location.reload();
+}
+
+interface WorkspaceLockProps {
+  children: ReactNode;
+}
+
+// Asks for the workspace passphrase before anything loads, and locks again after inactivity
+export const WorkspaceLock = ({ children }: WorkspaceLockProps) => {
+  const [locked, setLocked] = useState(() => isStorageLocked());
+
+  useEffect(() => {
+    if (locked) return;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    // The passphrase and timeout can change in Settings, so they are read again on every reset
+    const resetTimer = () => {
+      clearTimeout(timer);
+      const minutes = getAutoLockMinutes();
+      if (isEncryptionEnabled() && minutes > 0) {
+        timer = setTimeout(lockWorkspace, minutes * 60 * 1000);
+      }
+    };
+    resetTimer();
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, resetTimer, { passive: true }));
+    return () => {
+      clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, resetTimer));
+    };
+  }, [locked]);
+
+  if (locked) {
+    return (
+      <div className="min-h-screen bg-white py-8 md:py-16 px-4 md:px-8">
+        <UnlockView onUnlock={() => setLocked(false)} />
+      </div>
+    );
+  }
+  return <>{children}</>;
+};
@@ -0,0 +1,127 @@
+import { useState } from 'react';
+import { KeyRound, Lock } from 'lucide-react';
+import { isEncryptionEnabled, setPassphrase, removePassphrase, getAutoLockMinutes, setAutoLockMinutes } from '../utils/storage';
+import { lockWorkspace } from './WorkspaceLock';
+
+const MIN_PASSPHRASE_LENGTH = 8;
+const AUTO_LOCK_OPTIONS = [5, 15, 30, 60, 0];
+
+export const WorkspacePassphraseSettings = () => {
+  const [enabled, setEnabled] = useState(() => isEncryptionEnabled());
+  const [autoLockMinutes, setAutoLock] = useState(() => getAutoLockMinutes());
+  const [passphrase, setNewPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [working, setWorking] = useState(false);
+
+  const problem = passphrase.length < MIN_PASSPHRASE_LENGTH
+    ? `Use at least ${MIN_PASSPHRASE_LENGTH} characters`
+    : passphrase !== confirmation ? 'The passphrases do not match' : null;
+
+  const handleSetPassphrase = async () => {
+    if (problem) return;
+    setWorking(true);
+    try {
+      await setPassphrase(passphrase);
+      setEnabled(true);
+      setNewPassphrase('');
+      setConfirmation('');
+      alert('Workspace passphrase saved. Data in this browser is now encrypted.');
+    } catch (error) {
+      alert(`Error encrypting data: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleRemovePassphrase = async () => {
+    if (!confirm('Remove the workspace passphrase? Data in this browser will be stored unencrypted.')) return;
+    setWorking(true);
+    try {
+      await removePassphrase();
+      setEnabled(false);
+    } catch (error) {
+      alert(`Error decrypting data: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  return (
+    <div className="p-4 border border-gray-200">
+      <div className="flex items-center gap-2 text-sm font-medium text-black mb-1">
+        <KeyRound className="w-4 h-4" />
+        Workspace Passphrase
+      </div>
+      <div className="text-xs text-gray-500 mb-4">
+        Encrypt suppliers, contacts, notes, evidence and settings kept in this browser, for shared workstations.
+        The passphrase is asked for each time the app opens and cannot be recovered, so keep an export somewhere safe.
+        {enabled ? ' Data in this browser is encrypted.' : ''}
+      </div>
+
+      {enabled && (
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-4 p-3 bg-gray-50 border border-gray-200">
+          <label className="flex items-center gap-2 text-xs text-gray-700">
+            Lock after
+            <select
+              value={autoLockMinutes}
+              onChange={(e) => {
+                const minutes = parseInt(e.target.value);
+                setAutoLock(minutes);
+                setAutoLockMinutes(minutes);
+              }}
+              className="px-2 py-1 border border-gray-300 focus:border-black focus:outline-none text-xs"
+            >
+              {AUTO_LOCK_OPTIONS.map(minutes => (
+                <option key={minutes} value={minutes}>{minutes === 0 ? 'never' : `${minutes} minutes`}</option>
+              ))}
+            </select>
+            {autoLockMinutes > 0 && 'without activity'}
+          </label>
+          <button
+            onClick={lockWorkspace}
+            className="px-3 py-1.5 text-xs uppercase border border-gray-300 text-black hover:border-black transition-colors flex items-center space-x-2"
+          >
+            <Lock className="w-3 h-3" />
+            <span>Lock Now</span>
+          </button>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setNewPassphrase(e.target.value)}
+          autoComplete="new-password"
+          placeholder={enabled ? 'New passphrase' : 'Passphrase'}
+          className="flex-1 min-w-[12rem] px-3 py-2 border-2 border-gray-300 focus:border-black focus:outline-none text-sm"
+        />
+        <input
+          type="password"
+          value={confirmation}
+          onChange={(e) => setConfirmation(e.target.value)}
+          autoComplete="new-password"
+          placeholder="Confirm passphrase"
+          className="flex-1 min-w-[12rem] px-3 py-2 border-2 border-gray-300 focus:border-black focus:outline-none text-sm"
+        />
+        <button
+          onClick={handleSetPassphrase}
+          disabled={working || problem !== null}
+          className="px-4 py-2 bg-black text-white hover:bg-gray-800 transition-colors text-xs uppercase disabled:opacity-50"
+        >
+          {working ? 'Working...' : enabled ? 'Change Passphrase' : 'Set Passphrase'}
+        </button>
+        {enabled && (
+          <button
+            onClick={handleRemovePassphrase}
+            disabled={working}
+            className="px-4 py-2 border-2 border-gray-400 text-gray-700 hover:border-black hover:text-black transition-colors text-xs uppercase disabled:opacity-50"
+          >
+            Remove
+          </button>
+        )}
+      </div>
+      {passphrase && problem && <div className="text-xs text-orange-600 mt-2">{problem}</div>}
+    </div>
+  );
+};
@@ -0,0 +1,65 @@
+// Backend server API helpers - shared by AI assessments and server-side storage
+
+const DEFAULT_API_URL = 'http://localhost:3001';
+
+// Server used when nothing else is configured
+export function getApiUrl(): string {
+  return import.meta.env.VITE_API_URL || DEFAULT_API_URL;
+}
+
+// Session token sent with every request; set by the auth utilities when signing in or out
+let authToken: string | null = null;
+
+export function setAuthToken(token: string | null): void {
+  authToken = token;
+}
+
+export function getAuthHeaders(): Record<string, string> {
+  return authToken ? { Authorization: `Bearer ${authToken}` } : {};
+}
+
+// The server answered with an error status; network failures surface as TypeError from fetch instead
+export class ApiError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
+function joinUrl(baseUrl: string, path: string): string {
+  return `${baseUrl.replace(/\/+$/, '')}${path}`;
+}
+
+/**
+ * JSON request to the backend server
+ * @returns The parsed response body, or undefined for 404 and empty responses
+ * @throws ApiError with the server's message when the server rejects the request
+ */
+export async function apiRequest<T>(baseUrl: string, path: string, init: RequestInit = {}): Promise<T | undefined> {
+  const response = await fetch(joinUrl(baseUrl, path), {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...getAuthHeaders(), ...init.headers }
+  });
+  if (response.status === 404) return undefined;
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new ApiError(response.status, error.message || error.error || `Server error: ${response.status}`);
+  }
+  if (response.status === 204) return undefined;
+  return response.json() as Promise<T>;
+}
+
+/**
+ * Whether the backend server at the URL is reachable
+ */
+export async function checkServerConnection(baseUrl: string): Promise<boolean> {
+  try {
+    const response = await fetch(joinUrl(baseUrl, '/health'));
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,139 @@
+// Audit trail utilities - record who changed which criterion, and when
+
+import Papa from 'papaparse';
+import { AuditEntry, AuditValue, Supplier } from './storage';
+import type { QuestionAnswer } from './questionKinds';
+
+interface AuditedAssessment {
+  scores: Record<string, number | null>;
+  answers: Record<string, QuestionAnswer>;
+  additionalNotes: Record<string, string>;
+  notApplicable: Record<string, string>;
+  aiFlags: any[];
+}
+
+export const EMPTY_ASSESSMENT: AuditedAssessment = { scores: {}, answers: {}, additionalNotes: {}, notApplicable: {}, aiFlags: [] };
+
+// The audited parts of a saved supplier, with missing fields of older records as empty
+export function getAuditedAssessment(supplier: Supplier): AuditedAssessment {
+  return {
+    scores: supplier.scores,
+    answers: supplier.answers || {},
+    additionalNotes: supplier.additionalNotes || {},
+    notApplicable: supplier.notApplicable || {},
+    aiFlags: supplier.aiFlags || []
+  };
+}
+
+// Review status as recorded in the log: null when the criterion was never flagged
+function getReviewStatus(flag: any): AuditValue {
+  if (!flag) return null;
+  return flag.needsReview ? 'Needs review' : 'Reviewed';
+}
+
+// AI flag content without the review status, which is logged separately
+function getFlagContent(flag: any): AuditValue {
+  if (!flag) return null;
+  const { needsReview: _needsReview, ...content } = flag;
+  return content;
+}
+
+// Deep equality of two stored values, shared by audit diffing, import merging and sync so they agree on what changed
+export function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Compare two versions of an assessment and produce one audit entry per changed value
+ * @param before Assessment as previously saved (use EMPTY_ASSESSMENT for new suppliers)
+ * @param after Assessment being saved
+ * @param author Name of the person saving the change
+ */
+export function diffAssessment(before: AuditedAssessment, after: AuditedAssessment, author: string): AuditEntry[] {
+  const timestamp = new Date().toISOString();
+  const entries: AuditEntry[] = [];
+  const record = (criterionId: string, field: AuditEntry['field'], oldValue: AuditValue, newValue: AuditValue) => {
+    if (!isSameValue(oldValue, newValue)) {
+      entries.push({ timestamp, author, criterionId, field, oldValue, newValue });
+    }
+  };
+
+  const scoreIds = new Set([...Object.keys(before.scores), ...Object.keys(after.scores)]);
+  scoreIds.forEach(id => record(id, 'score', before.scores[id] ?? null, after.scores[id] ?? null));
+
+  const answerIds = new Set([...Object.keys(before.answers), ...Object.keys(after.answers)]);
+  answerIds.forEach(id => record(id, 'answer', before.answers[id] ?? null, after.answers[id] ?? null));
+
+  const noteIds = new Set([...Object.keys(before.additionalNotes), ...Object.keys(after.additionalNotes)]);
+  noteIds.forEach(id => record(id, 'note', before.additionalNotes[id] || null, after.additionalNotes[id] || null));
+
+  const notApplicableIds = new Set([...Object.keys(before.notApplicable), ...Object.keys(after.notApplicable)]);
+  notApplicableIds.forEach(id => record(id, 'notApplicable', before.notApplicable[id] || null, after.notApplicable[id] || null));
+
+  const beforeFlags = new Map<string, any>((before.aiFlags || []).map(flag => [flag.criterionId, flag]));
+  const afterFlags = new Map<string, any>((after.aiFlags || []).map(flag => [flag.criterionId, flag]));
+  const flagIds = new Set([...beforeFlags.keys(), ...afterFlags.keys()]);
+  flagIds.forEach(id => {
+    record(id, 'aiFlag', getFlagContent(beforeFlags.get(id)), getFlagContent(afterFlags.get(id)));
+    record(id, 'reviewStatus', getReviewStatus(beforeFlags.get(id)), getReviewStatus(afterFlags.get(id)));
+  });
+
+  return entries;
+}
+
+/**
+ * Audit entries for a single criterion, newest first
+ */
+export function getCriterionAuditEntries(auditLog: AuditEntry[], criterionId: string): AuditEntry[] {
+  return auditLog
+    .filter(entry => entry.criterionId === criterionId)
+    .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+}
+
+/**
+ * Human-readable form of a logged value
+ */
+export function formatAuditValue(value: AuditValue): string {
+  if (value === null || value === undefined || value === '') return '(none)';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '(none selected)';
+  if (typeof value === 'object') {
+    const flag = value as Record<string, any>;
+    return flag.confidence ? `${flag.confidence} confidence: ${flag.reasoning || ''}`.trim() : JSON.stringify(value);
+  }
+  return String(value);
+}
+
+export const AUDIT_FIELD_LABELS: Record<AuditEntry['field'], string> = {
+  score: 'Score',
+  answer: 'Answer',
+  note: 'Notes',
+  notApplicable: 'Not applicable',
+  aiFlag: 'AI flag',
+  reviewStatus: 'Review status'
+};
+
+// Export a supplier's audit log as a CSV file
+export function exportAuditLogToCSV(supplier: Supplier): void {
+  const rows = [...(supplier.auditLog || [])]
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+    .map(entry => ({
+      timestamp: entry.timestamp,
+      supplier: supplier.name,
+      criterion: entry.criterionId,
+      field: AUDIT_FIELD_LABELS[entry.field],
+      oldValue: formatAuditValue(entry.oldValue),
+      newValue: formatAuditValue(entry.newValue),
+      author: entry.author
+    }));
+  const csv = Papa.unparse(rows, {
+    columns: ['timestamp', 'supplier', 'criterion', 'field', 'oldValue', 'newValue', 'author']
+  });
+  const dataBlob = new Blob([csv], { type: 'text/csv' });
+  const url = URL.createObjectURL(dataBlob);
+  const link = document.createElement('a');
+  link.href = url;
+  const safeName = supplier.name.replace(/[^a-z0-9]+/gi, '-').toLowerCase();
+  link.download = `audit-log-${safeName}-${new Date().toISOString().split('T')[0]}.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
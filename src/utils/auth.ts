@@ -0,0 +1,91 @@
+// Account utilities - signing in to the backend server and what each role may do
+
+import { apiRequest, setAuthToken } from './api';
+
+export type Role = 'viewer' | 'assessor' | 'reviewer' | 'admin';
+
+export type Permission =
+  | 'editSuppliers'
+  | 'runAIAssessment'
+  | 'trashSuppliers'
+  | 'importSuppliers'
+  | 'deleteSuppliers'
+  | 'editWeights'
+  | 'editQuestionnaires';
+
+export interface User {
+  username: string;
+  name: string;
+  role: Role;
+}
+
+export interface Session {
+  token: string;
+  user: User;
+  // Server the session belongs to
+  serverUrl: string;
+}
+
+// Keep in step with ROLE_PERMISSIONS in server/auth.js, which enforces the same rules
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  viewer: [],
+  assessor: ['editSuppliers', 'runAIAssessment'],
+  reviewer: ['editSuppliers', 'runAIAssessment', 'trashSuppliers', 'importSuppliers'],
+  admin: ['editSuppliers', 'runAIAssessment', 'trashSuppliers', 'importSuppliers', 'deleteSuppliers', 'editWeights', 'editQuestionnaires']
+};
+
+export const ROLE_LABELS: Record<Role, string> = {
+  viewer: 'Viewer',
+  assessor: 'Assessor',
+  reviewer: 'Reviewer',
+  admin: 'Admin'
+};
+
+// Kept in localStorage so a signed-in assessor can keep working offline
+const SESSION_STORAGE_KEY = 'powerhouse-session';
+
+export function hasPermission(role: Role, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+export function getSession(): Session | null {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SESSION_STORAGE_KEY) || 'null');
+    if (saved && typeof saved.token === 'string' && saved.user && saved.user.role in ROLE_PERMISSIONS) {
+      return saved;
+    }
+  } catch {
+    // Fall through to signed out
+  }
+  return null;
+}
+
+/**
+ * Sign in to the backend server and remember the session
+ * @throws Error with the server's message when the credentials are rejected or the server is unreachable
+ */
+export async function login(serverUrl: string, username: string, password: string): Promise<Session> {
+  const result = await apiRequest<{ token: string; user: User }>(serverUrl, '/api/auth/login', {
+    method: 'POST',
+    body: JSON.stringify({ username, password })
+  });
+  if (!result) throw new Error('This server does not support signing in');
+  const session: Session = { ...result, serverUrl };
+  localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+  setAuthToken(session.token);
+  return session;
+}
+
+export async function logout(): Promise<void> {
+  const session = getSession();
+  localStorage.removeItem(SESSION_STORAGE_KEY);
+  setAuthToken(null);
+  if (!session) return;
+  // Signing out locally is enough when the server cannot be reached
+  await apiRequest(session.serverUrl, '/api/auth/logout', {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${session.token}` }
+  }).catch(() => undefined);
+}
+
+setAuthToken(getSession()?.token ?? null);
@@ -0,0 +1,230 @@
+// Workspace backup utilities - one versioned archive with everything needed to reproduce the workspace:
+// suppliers (including the trash), evidence files, category weights, materials, settings, the questionnaire and
+// questionnaire templates
+
+import {
+  Supplier,
+  AppSettings,
+  QuestionnaireTemplate,
+  loadSuppliers,
+  saveSuppliers,
+  loadCategoryWeights,
+  saveCategoryWeights,
+  loadMaterials,
+  saveMaterials,
+  loadSettings,
+  saveSettings,
+  loadQuestionnaire,
+  saveQuestionnaire,
+  saveCriteriaSnapshot,
+  loadTemplates,
+  saveTemplates,
+  loadEvidenceData,
+  saveEvidenceData,
+  deleteEvidenceData,
+  readFileText
+} from './storage';
+import { migrateSupplierPayload, createSupplierPayload, SupplierPayload } from './migrations';
+import { loadDefaultQuestionsCsv, loadQuestions, loadWeights } from './csvParser';
+import { getEvidenceFileIds } from './evidence';
+import { getQuestionTexts } from './remap';
+import { encryptBundle, decryptBundle, isEncryptedBundle, PassphraseRequiredError } from './crypto';
+
+/**
+ * Version of the backup archive layout. Supplier records inside carry their own schemaVersion and are migrated
+ * as usual; bump this only when the archive itself changes shape.
+ */
+export const CURRENT_BACKUP_VERSION = 2;
+
+// Settings that belong to this browser rather than the workspace, and are never backed up
+const LOCAL_ONLY_SETTINGS = ['openaiApiKey'];
+
+export interface WorkspaceBackup {
+  format: 'powerhouse-workspace-backup';
+  backupVersion: number;
+  createdAt: string;
+  suppliers: SupplierPayload;
+  // Evidence file contents by file ID
+  evidence: Record<string, string>;
+  // Category weights in use, whether customised or the defaults from weights.csv
+  weights: Record<string, number>;
+  materials: string[];
+  settings: AppSettings;
+  questionnaire: {
+    // Questionnaire CSV in use
+    csv: string;
+    // Whether it replaced the default public/questions.csv
+    custom: boolean;
+  };
+  // Questionnaire templates besides the standard one; backups before version 2 have none
+  templates: QuestionnaireTemplate[];
+}
+
+// What a backup holds, for review before restoring
+export interface BackupSummary {
+  createdAt: string;
+  backupVersion: number;
+  activeSuppliers: number;
+  trashedSuppliers: number;
+  evidenceFiles: number;
+  materials: number;
+  weights: Record<string, number>;
+  questionCount: number;
+  customQuestionnaire: boolean;
+  templateNames: string[];
+  settings: AppSettings;
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isTemplate(value: unknown): value is QuestionnaireTemplate {
+  return isRecord(value)
+    && typeof value.id === 'string'
+    && typeof value.name === 'string'
+    && typeof value.csv === 'string'
+    && isRecord(value.weights)
+    && Object.values(value.weights).every(weight => typeof weight === 'number');
+}
+
+/**
+ * Gather the whole workspace from storage
+ */
+export async function createWorkspaceBackup(): Promise<WorkspaceBackup> {
+  const [suppliers, savedWeights, materials, settings, savedQuestionnaire, templates] = await Promise.all([
+    loadSuppliers(),
+    loadCategoryWeights(),
+    loadMaterials(),
+    loadSettings(),
+    loadQuestionnaire(),
+    loadTemplates()
+  ]);
+  const evidence: Record<string, string> = {};
+  for (const fileId of suppliers.flatMap(supplier => getEvidenceFileIds(supplier))) {
+    const dataUrl = await loadEvidenceData(fileId);
+    if (dataUrl) evidence[fileId] = dataUrl;
+  }
+  return {
+    format: 'powerhouse-workspace-backup',
+    backupVersion: CURRENT_BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    suppliers: createSupplierPayload(suppliers),
+    evidence,
+    weights: savedWeights ?? (await loadWeights()),
+    materials,
+    settings: Object.fromEntries(Object.entries(settings).filter(([key]) => !LOCAL_ONLY_SETTINGS.includes(key))),
+    questionnaire: {
+      csv: savedQuestionnaire ?? (await loadDefaultQuestionsCsv()),
+      custom: savedQuestionnaire !== null
+    },
+    templates
+  };
+}
+
+/**
+ * Download a backup of the whole workspace; with a passphrase the file is encrypted
+ */
+export async function downloadWorkspaceBackup(passphrase?: string): Promise<void> {
+  const backup = await createWorkspaceBackup();
+  const dataStr = JSON.stringify(passphrase ? await encryptBundle(passphrase, backup) : backup, null, 2);
+  const url = URL.createObjectURL(new Blob([dataStr], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `workspace-backup-${backup.createdAt.split('T')[0]}${passphrase ? '-encrypted' : ''}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Read and check a backup file
+ * @throws PassphraseRequiredError if the file is encrypted and no passphrase was given
+ * @throws WrongPassphraseError if the passphrase does not open the file
+ * @throws Error if the file is not a workspace backup or was made by a newer version of the app
+ */
+export async function readWorkspaceBackup(file: File, passphrase?: string): Promise<WorkspaceBackup> {
+  const text = await readFileText(file);
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Invalid JSON file');
+  }
+  if (isEncryptedBundle(parsed)) {
+    if (!passphrase) throw new PassphraseRequiredError();
+    parsed = await decryptBundle(passphrase, parsed);
+  }
+  if (!isRecord(parsed) || parsed.format !== 'powerhouse-workspace-backup') {
+    throw new Error('This is not a workspace backup. Supplier exports are restored with Import Suppliers.');
+  }
+  if (typeof parsed.backupVersion !== 'number' || parsed.backupVersion > CURRENT_BACKUP_VERSION) {
+    throw new Error(`This backup was made by a newer version of the app (backup version ${parsed.backupVersion})`);
+  }
+  if (!isRecord(parsed.questionnaire) || typeof parsed.questionnaire.csv !== 'string') {
+    throw new Error('The backup has no questionnaire');
+  }
+  const suppliers = migrateSupplierPayload(parsed.suppliers);
+  return {
+    format: 'powerhouse-workspace-backup',
+    backupVersion: parsed.backupVersion,
+    createdAt: typeof parsed.createdAt === 'string' ? parsed.createdAt : '',
+    suppliers: createSupplierPayload(suppliers),
+    evidence: isRecord(parsed.evidence)
+      ? Object.fromEntries(Object.entries(parsed.evidence).filter(([, value]) => typeof value === 'string' && value.startsWith('data:')))
+      : {},
+    weights: isRecord(parsed.weights)
+      ? Object.fromEntries(Object.entries(parsed.weights).filter(([, value]) => typeof value === 'number'))
+      : {},
+    materials: Array.isArray(parsed.materials) ? parsed.materials.filter((m: unknown) => typeof m === 'string') : [],
+    settings: isRecord(parsed.settings) ? parsed.settings : {},
+    questionnaire: { csv: parsed.questionnaire.csv, custom: parsed.questionnaire.custom === true },
+    templates: Array.isArray(parsed.templates) ? parsed.templates.filter(isTemplate) : []
+  };
+}
+
+export async function summarizeBackup(backup: WorkspaceBackup): Promise<BackupSummary> {
+  const suppliers: Supplier[] = backup.suppliers.suppliers;
+  return {
+    createdAt: backup.createdAt,
+    backupVersion: backup.backupVersion,
+    activeSuppliers: suppliers.filter(s => !s.deletedAt).length,
+    trashedSuppliers: suppliers.filter(s => s.deletedAt).length,
+    evidenceFiles: Object.keys(backup.evidence).length,
+    materials: backup.materials.length,
+    weights: backup.weights,
+    questionCount: Object.keys(await loadQuestions(backup.questionnaire.csv)).length,
+    customQuestionnaire: backup.questionnaire.custom,
+    templateNames: backup.templates.map(template => template.name),
+    settings: backup.settings
+  };
+}
+
+/**
+ * Replace the whole workspace with a backup. Reload the app afterwards so everything is read back from storage.
+ * @returns Whether every part was saved
+ */
+export async function restoreWorkspaceBackup(backup: WorkspaceBackup): Promise<boolean> {
+  const [currentSuppliers, currentSettings] = await Promise.all([loadSuppliers(), loadSettings()]);
+  const suppliers = backup.suppliers.suppliers;
+  const restoredFileIds = new Set(suppliers.flatMap(supplier => getEvidenceFileIds(supplier)));
+
+  const results: boolean[] = [];
+  // Evidence first, so restored suppliers never reference missing files
+  for (const fileId of restoredFileIds) {
+    const dataUrl = backup.evidence[fileId];
+    if (dataUrl) results.push(await saveEvidenceData(fileId, dataUrl));
+  }
+  results.push(await saveSuppliers(suppliers));
+  await deleteEvidenceData(currentSuppliers.flatMap(supplier => getEvidenceFileIds(supplier)).filter(id => !restoredFileIds.has(id)));
+  if (Object.keys(backup.weights).length > 0) results.push(await saveCategoryWeights(backup.weights));
+  results.push(await saveMaterials(backup.materials));
+  const localSettings = Object.fromEntries(Object.entries(currentSettings).filter(([key]) => LOCAL_ONLY_SETTINGS.includes(key)));
+  results.push(await saveSettings({ ...backup.settings, ...localSettings }));
+  // A backup of the default questionnaire keeps following the default, unless this copy of the app ships a different one
+  const defaultCsv = await loadDefaultQuestionsCsv().catch(() => null);
+  results.push(await saveQuestionnaire(!backup.questionnaire.custom && backup.questionnaire.csv === defaultCsv ? null : backup.questionnaire.csv));
+  results.push(await saveTemplates(backup.templates));
+  // The restored answers belong to the restored questions
+  results.push(await saveCriteriaSnapshot(getQuestionTexts(await loadQuestions(backup.questionnaire.csv))));
+  return results.every(Boolean);
+}
@@ -0,0 +1,132 @@
+// Certification utilities - expiry tracking and reassessment of criteria when a certificate lapses
+
+import { CriterionDefinition } from './csvParser';
+import { CertificationRecord, Supplier } from './storage';
+import { createCertificationId } from './ids';
+import { diffAssessment, getAuditedAssessment } from './audit';
+
+// Certificates expiring within this many days are warned about on the Dashboard
+export const EXPIRY_WARNING_DAYS = 90;
+
+// Author recorded in the audit log when a lapse flags criteria for review
+export const LAPSE_AUDIT_AUTHOR = 'Certificate expiry check';
+
+export type CertificationStatus = 'valid' | 'expiring' | 'expired' | 'no-expiry';
+
+export interface CertificationAlert {
+  supplier: Supplier;
+  record: CertificationRecord;
+  status: 'expiring' | 'expired';
+  daysUntilExpiry: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function startOfDay(date: Date): number {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+}
+
+/**
+ * Whole days until the certificate expires; negative once it has expired, null without an expiry date
+ */
+export function getDaysUntilExpiry(record: CertificationRecord, today: Date = new Date()): number | null {
+  if (!record.expiryDate) return null;
+  const [year, month, day] = record.expiryDate.split('-').map(Number);
+  const expiry = new Date(year, month - 1, day);
+  if (isNaN(expiry.getTime())) return null;
+  return Math.round((expiry.getTime() - startOfDay(today)) / DAY_MS);
+}
+
+// A certificate is valid up to and including its expiry date
+export function getCertificationStatus(record: CertificationRecord, today: Date = new Date()): CertificationStatus {
+  const days = getDaysUntilExpiry(record, today);
+  if (days === null) return 'no-expiry';
+  if (days < 0) return 'expired';
+  if (days <= EXPIRY_WARNING_DAYS) return 'expiring';
+  return 'valid';
+}
+
+export function describeExpiry(record: CertificationRecord, today: Date = new Date()): string {
+  const days = getDaysUntilExpiry(record, today);
+  if (days === null) return 'No expiry date';
+  if (days < 0) return `Expired ${-days} day${days !== -1 ? 's' : ''} ago`;
+  if (days === 0) return 'Expires today';
+  return `Expires in ${days} day${days !== 1 ? 's' : ''}`;
+}
+
+/**
+ * Criteria whose question or scoring options mention the standard, e.g. "FSC" in a sourcing certification question
+ */
+export function findRelatedCriteria(standard: string, criteriaDefinitions: Record<string, CriterionDefinition>): string[] {
+  const needle = standard.trim().toLowerCase();
+  if (needle.length < 2) return [];
+  return Object.entries(criteriaDefinitions)
+    .filter(([, criterion]) => [criterion.question, ...criterion.options.map(option => option.label)]
+      .some(text => (text || '').toLowerCase().includes(needle)))
+    .map(([id]) => id);
+}
+
+export function createCertificationRecord(standard: string, criteriaDefinitions: Record<string, CriterionDefinition>): CertificationRecord {
+  return {
+    id: createCertificationId(),
+    standard,
+    certificateNumber: '',
+    issuer: '',
+    scope: '',
+    issueDate: '',
+    expiryDate: '',
+    criterionIds: findRelatedCriteria(standard, criteriaDefinitions)
+  };
+}
+
+/**
+ * Expired and soon-to-expire certificates across suppliers, most urgent first
+ */
+export function getCertificationAlerts(suppliers: Supplier[], today: Date = new Date()): CertificationAlert[] {
+  const alerts: CertificationAlert[] = [];
+  suppliers.forEach(supplier => {
+    (supplier.certifications || []).forEach(record => {
+      const status = getCertificationStatus(record, today);
+      if (status === 'expired' || status === 'expiring') {
+        alerts.push({ supplier, record, status, daysUntilExpiry: getDaysUntilExpiry(record, today) as number });
+      }
+    });
+  });
+  return alerts.sort((a, b) => a.daysUntilExpiry - b.daysUntilExpiry);
+}
+
+/**
+ * Flag the linked criteria of newly lapsed certificates for review and record the change in the audit log
+ * @returns The same supplier object when nothing lapsed since the last check
+ */
+export function applyCertificationLapses(supplier: Supplier, today: Date = new Date()): Supplier {
+  const lapsed = (supplier.certifications || []).filter(
+    record => !record.lapseFlaggedAt && getCertificationStatus(record, today) === 'expired'
+  );
+  if (lapsed.length === 0) return supplier;
+
+  const flaggedAt = today.toISOString();
+  let aiFlags = [...(supplier.aiFlags || [])];
+  lapsed.forEach(record => {
+    const reason = `${record.standard}${record.certificateNumber ? ` (${record.certificateNumber})` : ''} certificate expired on ${record.expiryDate}`;
+    record.criterionIds.forEach(criterionId => {
+      const existing = aiFlags.find(flag => flag.criterionId === criterionId);
+      aiFlags = existing
+        ? aiFlags.map(flag => (flag.criterionId === criterionId ? { ...flag, needsReview: true } : flag))
+        : [...aiFlags, { criterionId, needsReview: true, reasoning: reason }];
+    });
+  });
+
+  const auditEntries = diffAssessment(
+    getAuditedAssessment(supplier),
+    { ...getAuditedAssessment(supplier), aiFlags },
+    LAPSE_AUDIT_AUTHOR
+  );
+  const lapsedIds = new Set(lapsed.map(record => record.id));
+  return {
+    ...supplier,
+    aiFlags,
+    certifications: supplier.certifications.map(record => (lapsedIds.has(record.id) ? { ...record, lapseFlaggedAt: flaggedAt } : record)),
+    auditLog: [...(supplier.auditLog || []), ...auditEntries]
+  };
+}
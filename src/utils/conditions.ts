@@ -0,0 +1,181 @@
+// Conditional question utilities - questions shown or skipped depending on earlier answers, declared in the
+// SHOW IF and SKIP IF columns of questions.csv, e.g. SHOW IF `1a.1 = "International"` or SKIP IF `1a.1 >= 3`
+
+import type { CriterionDefinition } from './csvParser';
+
+export type ConditionOperator = '=' | '!=' | '>=' | '<=' | '>' | '<';
+
+export interface ConditionClause {
+  // Question whose answer is tested
+  criterionId: string;
+  operator: ConditionOperator;
+  // A score, or an option label (written in quotes) compared with the label of the chosen option
+  value: number | string;
+}
+
+/**
+ * Clauses joined with AND, grouped by OR: the condition holds when every clause of any one group holds.
+ * AND binds tighter than OR, as usual; there are no brackets.
+ */
+export type QuestionCondition = ConditionClause[][];
+
+const TOKEN_PATTERN = /\s*("(?:[^"]|"")*"|!=|>=|<=|=|>|<|[A-Za-z0-9][A-Za-z0-9._-]*)/y;
+const OPERATORS: ConditionOperator[] = ['=', '!=', '>=', '<=', '>', '<'];
+
+function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  TOKEN_PATTERN.lastIndex = 0;
+  while (TOKEN_PATTERN.lastIndex < text.length) {
+    const start = TOKEN_PATTERN.lastIndex;
+    const match = TOKEN_PATTERN.exec(text);
+    if (!match) {
+      if (!text.slice(start).trim()) break;
+      throw new Error(`Cannot read "${text.slice(start).trim()}"`);
+    }
+    tokens.push(match[1]);
+  }
+  return tokens;
+}
+
+/**
+ * Read a SHOW IF or SKIP IF condition
+ * @returns null for an empty cell
+ * @throws Error describing the first part that could not be read
+ */
+export function parseCondition(text: string | undefined): QuestionCondition | null {
+  if (!text?.trim()) return null;
+  const tokens = tokenize(text);
+  const groups: QuestionCondition = [[]];
+  let position = 0;
+  while (position < tokens.length) {
+    const [criterionId, operator, rawValue] = tokens.slice(position, position + 3);
+    if (!criterionId || !operator || rawValue === undefined) {
+      throw new Error(`Expected a criterion ID, a comparison and a value, e.g. 1a.1 = "International", but found "${tokens.slice(position).join(' ')}"`);
+    }
+    if (!OPERATORS.includes(operator as ConditionOperator)) {
+      throw new Error(`"${operator}" is not a comparison; use ${OPERATORS.join(' ')}`);
+    }
+    let value: number | string;
+    if (rawValue.startsWith('"')) {
+      value = rawValue.slice(1, -1).replace(/""/g, '"');
+      if (operator !== '=' && operator !== '!=') {
+        throw new Error(`Option labels can only be compared with = or !=, not ${operator}`);
+      }
+    } else if (/^\d+(\.\d+)?$/.test(rawValue)) {
+      value = parseFloat(rawValue);
+    } else {
+      throw new Error(`"${rawValue}" is not a score or a quoted option label`);
+    }
+    groups[groups.length - 1].push({ criterionId, operator: operator as ConditionOperator, value });
+    position += 3;
+
+    if (position < tokens.length) {
+      const joiner = tokens[position].toUpperCase();
+      if (joiner === 'OR') {
+        groups.push([]);
+      } else if (joiner !== 'AND') {
+        throw new Error(`Expected AND or OR but found "${tokens[position]}"`);
+      }
+      position++;
+      if (position === tokens.length) throw new Error(`Nothing follows ${joiner}`);
+    }
+  }
+  return groups;
+}
+
+// Parse without throwing; a condition that cannot be read is ignored, and listed by the questionnaire load check
+function readCondition(text: string | undefined): QuestionCondition | null {
+  try {
+    return parseCondition(text);
+  } catch {
+    return null;
+  }
+}
+
+// Criterion IDs a condition depends on
+export function getConditionCriterionIds(condition: QuestionCondition | null): string[] {
+  return Array.from(new Set((condition || []).flat().map(clause => clause.criterionId)));
+}
+
+// An unanswered question fails every clause, including != ones
+function clauseHolds(clause: ConditionClause, answer: number | null | undefined, criterion: CriterionDefinition | undefined): boolean {
+  if (answer === null || answer === undefined) return false;
+  if (typeof clause.value === 'string') {
+    const label = criterion?.options.find(option => option.value === answer)?.label.trim().toLowerCase();
+    const same = label === clause.value.trim().toLowerCase();
+    return clause.operator === '!=' ? !same : same;
+  }
+  switch (clause.operator) {
+    case '=': return answer === clause.value;
+    case '!=': return answer !== clause.value;
+    case '>=': return answer >= clause.value;
+    case '<=': return answer <= clause.value;
+    case '>': return answer > clause.value;
+    case '<': return answer < clause.value;
+  }
+}
+
+/**
+ * Questions that do not apply given the answers so far: those whose SHOW IF condition does not hold, or whose SKIP IF
+ * condition does. Answers to a question that does not apply are treated as unanswered by the conditions of others.
+ * Questions in a dependency cycle are always asked.
+ */
+export function getHiddenCriterionIds(
+  criteria: Record<string, CriterionDefinition>,
+  scores: Record<string, number | null>
+): Set<string> {
+  const applicable: Record<string, boolean> = {};
+  const dependencies = Object.fromEntries(
+    Object.entries(criteria).map(([id, criterion]) => [
+      id,
+      [...getConditionCriterionIds(readCondition(criterion.showIf)), ...getConditionCriterionIds(readCondition(criterion.skipIf))]
+    ])
+  );
+  findConditionCycles(dependencies).forEach(id => (applicable[id] = true));
+
+  const isApplicable = (id: string): boolean => {
+    if (applicable[id] !== undefined) return applicable[id];
+
+    const criterion = criteria[id];
+    const answerOf = (controllerId: string) => (criteria[controllerId] && isApplicable(controllerId) ? scores[controllerId] : null);
+    const holds = (condition: QuestionCondition) =>
+      condition.some(group => group.every(clause => clauseHolds(clause, answerOf(clause.criterionId), criteria[clause.criterionId])));
+
+    const showIf = readCondition(criterion?.showIf);
+    const skipIf = readCondition(criterion?.skipIf);
+    const result = (!showIf || holds(showIf)) && (!skipIf || !holds(skipIf));
+    applicable[id] = result;
+    return result;
+  };
+
+  return new Set(Object.keys(criteria).filter(id => !isApplicable(id)));
+}
+
+// The questions that apply given the answers so far
+export function getApplicableCriteria(
+  criteria: Record<string, CriterionDefinition>,
+  scores: Record<string, number | null>
+): Record<string, CriterionDefinition> {
+  const hidden = getHiddenCriterionIds(criteria, scores);
+  return Object.fromEntries(Object.entries(criteria).filter(([id]) => !hidden.has(id)));
+}
+
+/**
+ * Criterion IDs that depend on themselves through their conditions, e.g. A shown if B and B shown if A
+ */
+export function findConditionCycles(conditions: Record<string, string[]>): string[] {
+  const state: Record<string, 'visiting' | 'done'> = {};
+  const cyclic = new Set<string>();
+  const visit = (id: string, path: string[]) => {
+    if (state[id] === 'done') return;
+    if (state[id] === 'visiting') {
+      path.slice(path.indexOf(id)).forEach(member => cyclic.add(member));
+      return;
+    }
+    state[id] = 'visiting';
+    (conditions[id] || []).forEach(next => visit(next, [...path, id]));
+    state[id] = 'done';
+  };
+  Object.keys(conditions).forEach(id => visit(id, []));
+  return Array.from(cyclic);
+}
@@ -0,0 +1,112 @@
+// Encryption utilities - AES-GCM with keys derived from a passphrase (PBKDF2), using the browser's WebCrypto
+
+const PBKDF2_ITERATIONS = 310000;
+
+// A value encrypted with the workspace key, as kept in browser storage
+export interface EncryptedValue {
+  encrypted: 'AES-GCM';
+  iv: string;
+  data: string;
+}
+
+// An exported file protected with its own passphrase; carries the salt so it can be opened anywhere
+export interface EncryptedBundle {
+  format: 'powerhouse-encrypted';
+  version: 1;
+  salt: string;
+  iterations: number;
+  iv: string;
+  data: string;
+}
+
+export class WrongPassphraseError extends Error {
+  constructor() {
+    super('The passphrase is incorrect');
+    this.name = 'WrongPassphraseError';
+  }
+}
+
+// Thrown when opening an encrypted file without a passphrase, so the caller can ask for one
+export class PassphraseRequiredError extends Error {
+  constructor() {
+    super('This file is encrypted; enter its passphrase to open it');
+    this.name = 'PassphraseRequiredError';
+  }
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // Chunked so large evidence files do not overflow the argument limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+export function createSalt(): string {
+  return toBase64(crypto.getRandomValues(new Uint8Array(16)));
+}
+
+export async function deriveKey(passphrase: string, salt: string, iterations = PBKDF2_ITERATIONS): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: fromBase64(salt), iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+export function isEncryptedValue(value: unknown): value is EncryptedValue {
+  const candidate = value as EncryptedValue | null;
+  return typeof candidate === 'object' && candidate !== null && candidate.encrypted === 'AES-GCM'
+    && typeof candidate.iv === 'string' && typeof candidate.data === 'string';
+}
+
+export async function encryptValue(key: CryptoKey, value: unknown): Promise<EncryptedValue> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(value)));
+  return { encrypted: 'AES-GCM', iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+}
+
+/**
+ * Decrypt a value encrypted with encryptValue
+ * @throws WrongPassphraseError if the key does not match (AES-GCM authentication fails)
+ */
+export async function decryptValue<T>(key: CryptoKey, value: EncryptedValue): Promise<T> {
+  let data: ArrayBuffer;
+  try {
+    data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(value.iv) }, key, fromBase64(value.data));
+  } catch {
+    throw new WrongPassphraseError();
+  }
+  return JSON.parse(new TextDecoder().decode(data)) as T;
+}
+
+export function isEncryptedBundle(value: unknown): value is EncryptedBundle {
+  const candidate = value as EncryptedBundle | null;
+  return typeof candidate === 'object' && candidate !== null && candidate.format === 'powerhouse-encrypted'
+    && typeof candidate.salt === 'string' && typeof candidate.iv === 'string' && typeof candidate.data === 'string';
+}
+
+export async function encryptBundle(passphrase: string, value: unknown): Promise<EncryptedBundle> {
+  const salt = createSalt();
+  const { iv, data } = await encryptValue(await deriveKey(passphrase, salt), value);
+  return { format: 'powerhouse-encrypted', version: 1, salt, iterations: PBKDF2_ITERATIONS, iv, data };
+}
+
+/**
+ * @throws WrongPassphraseError if the passphrase does not open the bundle
+ */
+export async function decryptBundle<T>(passphrase: string, bundle: EncryptedBundle): Promise<T> {
+  const key = await deriveKey(passphrase, bundle.salt, bundle.iterations || PBKDF2_ITERATIONS);
+  return decryptValue<T>(key, { encrypted: 'AES-GCM', iv: bundle.iv, data: bundle.data });
+}
@@ -1,11 +1,24 @@
 import Papa from 'papaparse';
+import { parseCondition, getConditionCriterionIds, findConditionCycles } from './conditions';
+import { QuestionKind, parseKindCell, describeKindProblem, parseChoice, getChoiceScores } from './questionKinds';
 
 export interface QuestionRow {
+  // Optional stable criterion ID; rows without one are numbered by their position in the sub-category
+  ID?: string;
   CATEGORY: string;
   'SUB-CATEGORY': string;
   PRIORITY: string;
   'KEY EVALUATION QUESTIONS': string;
   'SCORING GUIDE': string;
+  // Optional; RETIRED questions are no longer asked but keep their place so later criterion IDs do not shift
+  STATUS?: string;
+  // Optional conditions on earlier answers, see conditions.ts
+  'SHOW IF'?: string;
+  'SKIP IF'?: string;
+  // Optional answer format, e.g. NUMBER (km), see questionKinds.ts; empty for a scoring options question
+  TYPE?: string;
+  // Choices of a MULTI-SELECT question, one per line
+  CHOICES?: string;
 }
 
 export interface WeightRow {
@@ -19,12 +32,45 @@ export interface CriterionOption {
 }
 
 export interface CriterionDefinition {
+  // Category name without its number
   category: string;
+  // Number of the row's CATEGORY, which category and weighted scores group the criterion under; missing from question
+  // sets saved before it was recorded, which go by the criterion ID's leading digits, see getCriterionCategoryId
+  categoryId?: string;
   subCategory: string;
   priority: 'HIGH' | 'MEDIUM' | 'LOW';
   question: string;
   options: CriterionOption[];
   maxScore: number;
+  // Asked only when this condition on other answers holds, see parseCondition
+  showIf?: string;
+  // Not asked when this condition holds
+  skipIf?: string;
+  // How the question is answered; a missing kind is a scoring options question
+  kind?: QuestionKind;
+  // Unit of a numeric answer, e.g. km
+  unit?: string;
+  // Choices of a multi-select question
+  choices?: string[];
+  // Score of each choice, when selecting choices scores the highest of them rather than how many were selected
+  choiceScores?: Record<string, number>;
+}
+
+export type QuestionDiagnosticKind = 'skipped' | 'defaultOptions' | 'duplicateScore' | 'duplicateId' | 'invalidCondition' | 'invalidKind' | 'questionCount';
+
+// A problem found while loading questions.csv, for content owners to fix in the file
+export interface QuestionDiagnostic {
+  // Row as numbered in a spreadsheet, counting the header as row 1; null for problems with the whole file
+  row: number | null;
+  kind: QuestionDiagnosticKind;
+  reason: string;
+  // Raw text of the cells involved, by column name
+  cells: Record<string, string>;
+}
+
+export interface QuestionsLoadResult {
+  criteria: Record<string, CriterionDefinition>;
+  diagnostics: QuestionDiagnostic[];
 }
 
 export interface CategoryWeight {
@@ -34,47 +80,9 @@ export interface CategoryWeight {
 }
 
 /**
- * Normalize a score from one scale to 1-4 scale
- * @param oldValue Original score value
- * @param oldMax Maximum value in original scale
- * @returns Normalized score (1-4)
+ * Parse a scoring guide ("4 = Label" per line, or "1=No, 2=Partial, ..." on one line) into options on its own scale, in file order
  */
-function normalizeScore(oldValue: number, oldMax: number): number {
-  // Validate inputs
-  if (isNaN(oldValue) || isNaN(oldMax) || oldMax < 1 || oldValue < 1) {
-    console.warn(`Invalid score values: oldValue=${oldValue}, oldMax=${oldMax}`);
-    return 1; // Default to minimum score
-  }
-  
-  if (oldMax === 4) {
-    // Already on 1-4 scale
-    return oldValue;
-  }
-  
-  if (oldMax === 3) {
-    // Convert 1-3 to 1-4: linear interpolation
-    // Formula: new = 1 + (old - 1) * (3 / 2)
-    const normalized = 1 + (oldValue - 1) * 1.5;
-    return Math.max(1, Math.min(4, Math.round(normalized)));
-  }
-  
-  if (oldMax === 5) {
-    // Convert 1-5 to 1-4: linear interpolation
-    // Formula: new = 1 + (old - 1) * (3 / 4)
-    const normalized = 1 + (oldValue - 1) * 0.75;
-    return Math.max(1, Math.min(4, Math.round(normalized)));
-  }
-  
-  // For any other scale, use general linear interpolation
-  if (oldMax <= 1) {
-    return 1; // Can't interpolate if max is 1
-  }
-  const normalized = 1 + (oldValue - 1) * (3 / (oldMax - 1));
-  return Math.max(1, Math.min(4, Math.round(normalized)));
-}
-
-// Parse scoring guide string into options array and normalize to 1-4 scale
-function parseScoringGuide(guide: string): CriterionOption[] {
+export function parseScoringOptions(guide: string): CriterionOption[] {
   const options: CriterionOption[] = [];
   
   // First, try splitting by newlines (for multi-line format)
@@ -135,46 +143,24 @@ function parseScoringGuide(guide: string): CriterionOption[] {
     }
   }
   
-  if (options.length === 0) {
-    return [];
-  }
-  
-  // Sort by value descending (highest first) to find max
-  options.sort((a, b) => b.value - a.value);
-  const oldMax = options[0].value;
-  
-  // Normalize all options to 1-4 scale
-  // Map each option with its original value for duplicate handling
-  const optionsWithOriginal = options.map(opt => ({
-    originalValue: opt.value,
-    normalizedValue: normalizeScore(opt.value, oldMax),
-    label: opt.label
-  }));
-  
-  // Remove duplicates (in case normalization creates same values)
-  // Keep the option with the highest original value for each normalized value
-  const uniqueOptionsMap = new Map<number, { option: CriterionOption; originalValue: number }>();
-  
-  for (const opt of optionsWithOriginal) {
-    const existing = uniqueOptionsMap.get(opt.normalizedValue);
-    if (!existing || opt.originalValue > existing.originalValue) {
-      uniqueOptionsMap.set(opt.normalizedValue, {
-        option: {
-          value: opt.normalizedValue,
-          label: opt.label
-        },
-        originalValue: opt.originalValue
-      });
-    }
-  }
-  
-  // Convert map to array and sort by normalized value descending
-  const uniqueOptions = Array.from(uniqueOptionsMap.values()).map(item => item.option);
-  return uniqueOptions.sort((a, b) => b.value - a.value);
+  return options;
+}
+
+/**
+ * Parse a scoring guide into options on the guide's own scale, e.g. 1-3 or 1-5, highest score first. Scores are only
+ * put on the common 1-4 scale when totals are calculated, see normalizeCriterionScore; where two options are written
+ * with the same score, the first one is kept.
+ */
+export function parseScoringGuide(guide: string): CriterionOption[] {
+  const options: CriterionOption[] = [];
+  parseScoringOptions(guide).forEach(option => {
+    if (!options.some(kept => kept.value === option.value)) options.push(option);
+  });
+  return options.sort((a, b) => b.value - a.value);
 }
 
 // Extract category ID from category string
-function extractCategoryId(category: string): string {
+export function extractCategoryId(category: string): string {
   const match = category.match(/^(\d+)\./);
   return match ? match[1] : '';
 }
@@ -185,7 +171,7 @@ function extractCategoryName(category: string): string {
 }
 
 // Generate criterion ID based on category, subcategory, and question index within subcategory
-function generateCriterionId(categoryId: string, questionIndex: number, subCategory: string): string {
+export function generateCriterionId(categoryId: string, questionIndex: number, subCategory: string): string {
   // Try to extract pattern like "1a", "1b", "2c", etc. from subcategory
   // The subcategory already includes the category number (e.g., "1d" has "1" in it)
   const subMatch = subCategory.match(/(\d+)([a-z])/i);
@@ -210,14 +196,33 @@ const assetUrl = (file: string) => {
   return new URL(`${normalizedBase}${file}`, window.location.origin).toString();
 };
 
-export async function loadQuestions(): Promise<Record<string, CriterionDefinition>> {
+/**
+ * Fetch the default questionnaire shipped in public/questions.csv
+ */
+export async function loadDefaultQuestionsCsv(): Promise<string> {
+  const url = assetUrl('questions.csv');
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load questions.csv (${response.status} ${response.statusText}) at ${url}`);
+  }
+  return response.text();
+}
+
+/**
+ * Load the questionnaire criteria
+ * @param csv Questionnaire CSV to parse instead of the default public/questions.csv, e.g. one restored from a backup
+ */
+export async function loadQuestions(csv?: string): Promise<Record<string, CriterionDefinition>> {
+  return (await loadQuestionsWithDiagnostics(csv)).criteria;
+}
+
+/**
+ * Load the questionnaire criteria together with every row that was skipped or not read as written
+ * @param csv Questionnaire CSV to parse instead of the default public/questions.csv
+ */
+export async function loadQuestionsWithDiagnostics(csv?: string): Promise<QuestionsLoadResult> {
   try {
-    const url = assetUrl('questions.csv');
-    const response = await fetch(url);
-    if (!response.ok) {
-      throw new Error(`Failed to load questions.csv (${response.status} ${response.statusText}) at ${url}`);
-    }
-    const text = await response.text();
+    const text = csv ?? await loadDefaultQuestionsCsv();
     
     return new Promise((resolve, reject) => {
       Papa.parse<QuestionRow>(text, {
@@ -229,13 +234,26 @@ export async function loadQuestions(): Promise<Record<string, CriterionDefinitio
         transformHeader: (header) => header.trim(), // Trim whitespace from headers
         complete: (results) => {
           const criteria: Record<string, CriterionDefinition> = {};
+          const diagnostics: QuestionDiagnostic[] = [];
           const categoryCounts: Record<string, number> = {};
           const subCategoryCounts: Record<string, number> = {}; // Track questions per subcategory
+          const conditionChecks: Array<() => void> = [];
+          // IDs rows were given, including retired ones, which numbered rows skip so later rows keep their IDs
+          const explicitIds = new Set(results.data.map(row => row.ID?.trim()).filter(Boolean));
           
           let skippedCount = 0;
           const skippedReasons: Record<string, number> = {};
           
           results.data.forEach((row, idx) => {
+            const report = (kind: QuestionDiagnosticKind, reason: string, columns: Array<keyof QuestionRow>) => {
+              diagnostics.push({
+                row: idx + 2,
+                kind,
+                reason,
+                cells: Object.fromEntries(columns.map(column => [column, row[column] || '']))
+              });
+            };
+            
             // Skip rows that are completely empty or only have whitespace
             const hasCategory = row.CATEGORY && row.CATEGORY.trim().length > 0;
             const hasQuestion = row['KEY EVALUATION QUESTIONS'] && row['KEY EVALUATION QUESTIONS'].trim().length > 0;
@@ -244,6 +262,10 @@ export async function loadQuestions(): Promise<Record<string, CriterionDefinitio
               skippedCount++;
               const reason = !hasCategory ? 'No CATEGORY' : 'No KEY EVALUATION QUESTIONS';
               skippedReasons[reason] = (skippedReasons[reason] || 0) + 1;
+              // Blank lines are expected, e.g. at the end of the file
+              if (Object.values(row).some(value => typeof value === 'string' && value.trim())) {
+                report('skipped', `Skipped: ${reason}`, ['CATEGORY', 'SUB-CATEGORY', 'KEY EVALUATION QUESTIONS']);
+              }
               if (idx < 5 || skippedCount <= 3) {
                 console.debug(`Skipping row ${idx + 1}: ${reason}`, { category: row.CATEGORY?.substring(0, 50), question: row['KEY EVALUATION QUESTIONS']?.substring(0, 50) });
               }
@@ -255,6 +277,14 @@ export async function loadQuestions(): Promise<Record<string, CriterionDefinitio
               skippedCount++;
               skippedReasons['No category ID'] = (skippedReasons['No category ID'] || 0) + 1;
               console.warn(`Skipped row ${idx + 1}: No category ID found`, row.CATEGORY);
+              report('skipped', 'Skipped: CATEGORY does not start with its number and a full stop, e.g. "1.MATERIAL SOURCING"', ['CATEGORY', 'KEY EVALUATION QUESTIONS']);
+              return;
+            }
+
+            // Retired questions still take their number within the sub-category
+            if (row.STATUS?.trim().toUpperCase() === 'RETIRED') {
+              const retiredKey = `${categoryId}-${row['SUB-CATEGORY'] || ''}`;
+              subCategoryCounts[retiredKey] = (subCategoryCounts[retiredKey] || 0) + 1;
               return;
             }
 
@@ -272,9 +302,23 @@ export async function loadQuestions(): Promise<Record<string, CriterionDefinitio
             }
             
             const options = parseScoringGuide(scoringGuide);
+            const writtenOptions = parseScoringOptions(scoringGuide);
+            if (options.length > 0 && options.length < writtenOptions.length) {
+              const dropped = writtenOptions.filter((opt, i) => writtenOptions.findIndex(other => other.value === opt.value) !== i).map(opt => `"${opt.label}" (${opt.value})`);
+              report(
+                'duplicateScore',
+                `More than one scoring option has the same score, so only the first of each is kept; dropped ${dropped.join(', ')}`,
+                ['KEY EVALUATION QUESTIONS', 'SCORING GUIDE']
+              );
+            }
             if (options.length === 0) {
               // If no options parsed, create default 1-4 scale
               console.warn(`No options parsed for question: ${question.substring(0, 50)}... Using default options.`);
+              report(
+                'defaultOptions',
+                'No "number = label" options could be read from the SCORING GUIDE, so Excellent/Good/Fair/Poor is used',
+                ['KEY EVALUATION QUESTIONS', 'SCORING GUIDE']
+              );
               options.push(
                 { value: 4, label: 'Excellent' },
                 { value: 3, label: 'Good' },
@@ -284,16 +328,17 @@ export async function loadQuestions(): Promise<Record<string, CriterionDefinitio
             }
             
             // Validate all options have valid values
-            const validOptions = options.filter(opt => typeof opt.value === 'number' && !isNaN(opt.value) && opt.value >= 1 && opt.value <= 4);
+            const validOptions = options.filter(opt => typeof opt.value === 'number' && !isNaN(opt.value) && opt.value >= 1);
             if (validOptions.length === 0) {
               console.error(`No valid options for question: ${question.substring(0, 50)}...`);
               skippedCount++;
               skippedReasons['No valid options'] = (skippedReasons['No valid options'] || 0) + 1;
+              report('skipped', 'Skipped: no scoring option has a score of 1 or more', ['KEY EVALUATION QUESTIONS', 'SCORING GUIDE']);
               return;
             }
             
-            // All scores are now normalized to 1-4, so maxScore is always 4
-            const maxScore = 4;
+            // Each question keeps the scale its guide is written on, e.g. 1-3 or 1-5
+            const maxScore = Math.max(...validOptions.map(opt => opt.value));
             
             // Generate unique ID - use sequential numbering within each subcategory
             const subCategory = row['SUB-CATEGORY'] || '';
@@ -310,18 +355,92 @@ export async function loadQuestions(): Promise<Record<string, CriterionDefinitio
             }
             categoryCounts[categoryId]++;
             
-            // Generate ID: category.subcategory.questionNumber (e.g., "1.1d.1", "1.1d.2")
-            const criterionId = generateCriterionId(categoryId, subCategoryCounts[subCategoryKey], subCategory);
+            // Use the row's own ID when it has one, so inserting or moving questions does not renumber the rest
+            // Otherwise generate ID: category.subcategory.questionNumber (e.g., "1.1d.1", "1.1d.2")
+            const explicitId = row.ID?.trim() || '';
+            if (explicitId && criteria[explicitId]) {
+              console.warn(`Row ${idx + 1}: criterion ID ${explicitId} is already used; numbering this question by position instead`);
+            }
+            let criterionId = explicitId;
+            if (!explicitId || criteria[explicitId]) {
+              // Same numbering as getDraftCriterionIds: the row's position, or the next position no row has taken
+              let position = subCategoryCounts[subCategoryKey];
+              criterionId = generateCriterionId(categoryId, position, subCategory);
+              while (explicitIds.has(criterionId) || criteria[criterionId]) {
+                criterionId = generateCriterionId(categoryId, ++position, subCategory);
+              }
+            }
+            if (explicitId && explicitId !== criterionId) {
+              report('duplicateId', `ID ${explicitId} is already used by an earlier row, so this question was loaded as ${criterionId}`, ['ID', 'KEY EVALUATION QUESTIONS']);
+            }
             
             criteria[criterionId] = {
               category: categoryName,
+              categoryId,
               subCategory: row['SUB-CATEGORY'] || '',
               priority,
               question,
               options: validOptions,
               maxScore
             };
+            
+            // A TYPE that cannot be used leaves the question as a scoring options question
+            if (row.TYPE?.trim()) {
+              const parsedKind = parseKindCell(row.TYPE);
+              const choices = (row.CHOICES || '').split('\n').map(choice => choice.trim()).filter(Boolean);
+              const problem = parsedKind ? describeKindProblem(parsedKind.kind, validOptions, choices) : `"${row.TYPE.trim()}" is not a question type`;
+              if (problem) {
+                report('invalidKind', `${problem}, so the question is answered by picking a scoring option`, ['KEY EVALUATION QUESTIONS', 'SCORING GUIDE', 'TYPE', 'CHOICES']);
+              } else if (parsedKind && parsedKind.kind !== 'options') {
+                criteria[criterionId].kind = parsedKind.kind;
+                if (parsedKind.unit) criteria[criterionId].unit = parsedKind.unit;
+                if (parsedKind.kind === 'multiSelect') {
+                  criteria[criterionId].choices = choices.map(choice => parseChoice(choice).choice);
+                  const choiceScores = getChoiceScores(choices);
+                  if (choiceScores) criteria[criterionId].choiceScores = choiceScores;
+                }
+              }
+            }
+            
+            // Conditions are kept as written; one that cannot be read is ignored, so the question is always asked
+            (['SHOW IF', 'SKIP IF'] as const).forEach(column => {
+              const text = row[column]?.trim();
+              if (!text) return;
+              criteria[criterionId][column === 'SHOW IF' ? 'showIf' : 'skipIf'] = text;
+              try {
+                const referenced = getConditionCriterionIds(parseCondition(text));
+                // Conditions may refer to later questions, so references are checked once every row is loaded
+                conditionChecks.push(() => {
+                  const missing = referenced.filter(id => !criteria[id]);
+                  if (missing.length > 0) {
+                    report('invalidCondition', `${column} refers to ${missing.join(', ')}, which is not a question in this file, so the condition never holds`, ['ID', 'KEY EVALUATION QUESTIONS', column]);
+                  }
+                });
+              } catch (error) {
+                report('invalidCondition', `${column} could not be read and is ignored: ${(error as Error).message}`, ['ID', 'KEY EVALUATION QUESTIONS', column]);
+              }
+            });
           });
+          conditionChecks.forEach(check => check());
+          
+          const cycles = findConditionCycles(Object.fromEntries(Object.entries(criteria).map(([id, criterion]) => [
+            id,
+            [criterion.showIf, criterion.skipIf].flatMap(text => {
+              try {
+                return getConditionCriterionIds(parseCondition(text));
+              } catch {
+                return [];
+              }
+            })
+          ])));
+          if (cycles.length > 0) {
+            diagnostics.push({
+              row: null,
+              kind: 'invalidCondition',
+              reason: `The conditions of ${cycles.join(', ')} depend on each other, so these questions are always asked`,
+              cells: {}
+            });
+          }
           
           if (skippedCount > 0) {
             console.warn(`Skipped ${skippedCount} rows during parsing. Reasons:`, skippedReasons);
@@ -332,9 +451,15 @@ export async function loadQuestions(): Promise<Record<string, CriterionDefinitio
           if (totalLoaded < 60) {
             console.warn(`Expected ~68 questions but only loaded ${totalLoaded}. Check CSV parsing.`);
             console.warn(`Total rows parsed: ${results.data.length}, Skipped: ${skippedCount}, Loaded: ${totalLoaded}`);
+            diagnostics.push({
+              row: null,
+              kind: 'questionCount',
+              reason: `Only ${totalLoaded} questions were loaded; the default questionnaire has about 68`,
+              cells: {}
+            });
           }
           
-          resolve(criteria);
+          resolve({ criteria, diagnostics });
         },
         error: (error: unknown) => {
           reject(error);
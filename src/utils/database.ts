@@ -0,0 +1,75 @@
+// Minimal promise wrapper around IndexedDB used by the storage layer
+
+const DB_NAME = 'powerhouse-supplier-system';
+const DB_VERSION = 1;
+
+// Key-value store holding the same entries that used to live in localStorage
+export const KEY_VALUE_STORE = 'keyval';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+export function isIndexedDBAvailable(): boolean {
+  try {
+    return typeof indexedDB !== 'undefined' && indexedDB !== null;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Open (and upgrade if needed) the application database. The connection is shared.
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(KEY_VALUE_STORE)) {
+          db.createObjectStore(KEY_VALUE_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error('Could not open IndexedDB'));
+      request.onblocked = () => reject(new Error('IndexedDB upgrade blocked by another open tab'));
+    }).catch(error => {
+      // Allow a later call to retry instead of caching the failure
+      databasePromise = null;
+      throw error;
+    });
+  }
+  return databasePromise;
+}
+
+// Run a single request inside its own transaction and resolve once the transaction commits
+async function runRequest<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = makeRequest(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result as T);
+    // Quota errors surface on the transaction rather than the request
+    transaction.onabort = () => reject(transaction.error ?? request.error ?? new Error('IndexedDB transaction aborted'));
+    transaction.onerror = () => reject(transaction.error ?? request.error ?? new Error('IndexedDB transaction failed'));
+  });
+}
+
+export function idbGet<T>(storeName: string, key: IDBValidKey): Promise<T | undefined> {
+  return runRequest<T | undefined>(storeName, 'readonly', store => store.get(key));
+}
+
+export function idbSet(storeName: string, key: IDBValidKey, value: unknown): Promise<void> {
+  return runRequest<void>(storeName, 'readwrite', store => store.put(value, key));
+}
+
+export function idbDelete(storeName: string, key: IDBValidKey): Promise<void> {
+  return runRequest<void>(storeName, 'readwrite', store => store.delete(key));
+}
+
+export function idbKeys(storeName: string): Promise<IDBValidKey[]> {
+  return runRequest<IDBValidKey[]>(storeName, 'readonly', store => store.getAllKeys());
+}
@@ -0,0 +1,97 @@
+// Evidence utilities - files attached to individual criteria as proof for their scores
+
+import { CriterionDefinition } from './csvParser';
+import { EvidenceFile, Supplier, saveEvidenceData, loadEvidenceData } from './storage';
+import { createEvidenceId } from './ids';
+
+// Files are kept in browser storage, so keep individual files to a sensible size
+export const MAX_EVIDENCE_FILE_SIZE = 10 * 1024 * 1024;
+
+export const EVIDENCE_FILE_TYPES = '.pdf,.png,.jpg,.jpeg,.gif,.webp,.doc,.docx,.xls,.xlsx,.txt';
+
+function readFileAsDataURL(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error(`Error reading ${file.name}`));
+    reader.readAsDataURL(file);
+  });
+}
+
+/**
+ * Store an uploaded file and return its metadata for Supplier.documents
+ * @throws Error if the file is too large or could not be saved
+ */
+export async function storeEvidenceFile(file: File): Promise<EvidenceFile> {
+  if (file.size > MAX_EVIDENCE_FILE_SIZE) {
+    throw new Error(`${file.name} is larger than ${MAX_EVIDENCE_FILE_SIZE / (1024 * 1024)} MB`);
+  }
+  const evidence: EvidenceFile = {
+    id: createEvidenceId(),
+    name: file.name,
+    type: file.type || 'application/octet-stream',
+    size: file.size,
+    uploadedAt: new Date().toISOString()
+  };
+  const saved = await saveEvidenceData(evidence.id, await readFileAsDataURL(file));
+  if (!saved) {
+    throw new Error(`${file.name} could not be saved`);
+  }
+  return evidence;
+}
+
+/**
+ * Start a browser download of a stored evidence file
+ */
+export async function downloadEvidenceFile(file: EvidenceFile): Promise<void> {
+  const dataUrl = await loadEvidenceData(file.id);
+  if (!dataUrl) {
+    alert(`${file.name} is no longer available in this browser`);
+    return;
+  }
+  const link = document.createElement('a');
+  link.href = dataUrl;
+  link.download = file.name;
+  link.click();
+}
+
+export function isPreviewable(file: EvidenceFile): boolean {
+  return file.type.startsWith('image/') || file.type === 'application/pdf';
+}
+
+export function getEvidenceFiles(documents: Supplier['documents'] | undefined, criterionId: string): EvidenceFile[] {
+  return documents?.[criterionId] || [];
+}
+
+// Anything that references evidence files: a supplier or the assessment form
+type EvidenceSource = Partial<Pick<Supplier, 'documents' | 'certifications'>>;
+
+// IDs of every evidence file referenced by criteria or certification records
+export function getEvidenceFileIds(source: EvidenceSource | null | undefined): string[] {
+  return [
+    ...Object.values(source?.documents || {}).flat().map(file => file.id),
+    ...(source?.certifications || []).flatMap(record => (record.evidence ? [record.evidence.id] : []))
+  ];
+}
+
+/**
+ * Evidence files present in `before` but not in `after`, whose stored contents can be deleted
+ */
+export function getRemovedEvidenceIds(before: EvidenceSource | null | undefined, after: EvidenceSource | null | undefined): string[] {
+  const kept = new Set(getEvidenceFileIds(after));
+  return getEvidenceFileIds(before).filter(id => !kept.has(id));
+}
+
+/**
+ * Scored criteria with no evidence attached, in criteria order
+ */
+export function getScoresWithoutEvidence(
+  scores: Record<string, number | null>,
+  documents: Supplier['documents'] | undefined,
+  criteriaDefinitions: Record<string, CriterionDefinition>
+): string[] {
+  return Object.keys(criteriaDefinitions).filter(criterionId => {
+    const score = scores[criterionId];
+    return score !== null && score !== undefined && getEvidenceFiles(documents, criterionId).length === 0;
+  });
+}
@@ -0,0 +1,109 @@
+// Assessment history utilities - dated snapshots of each saved assessment
+
+import { CriterionDefinition } from './csvParser';
+import { AssessmentSnapshot, Supplier } from './storage';
+import { calculateAllScores, NORMALIZED_MAX_SCORE } from './scoring';
+import { restoreNativeScore } from './scoreNormalizer';
+import { getQuestionnaireVersion } from './questionnaireVersion';
+import { isSameValue } from './audit';
+import type { QuestionAnswer } from './questionKinds';
+
+interface SavedAssessment {
+  scores: Record<string, number | null>;
+  answers: Record<string, QuestionAnswer>;
+  additionalNotes: Record<string, string>;
+  notApplicable: Record<string, string>;
+  aiFlags: any[];
+}
+
+type AssessmentHistory = Pick<Supplier, 'assessments' | 'questionSets'>;
+
+/**
+ * Capture the assessment as it was saved, together with the weights and
+ * the version of the question set it was scored against
+ */
+function createAssessmentSnapshot(
+  assessment: SavedAssessment,
+  weights: Record<string, number>,
+  questionnaireVersion: string | null
+): AssessmentSnapshot {
+  return {
+    assessedAt: new Date().toISOString(),
+    scores: { ...assessment.scores },
+    answers: { ...assessment.answers },
+    additionalNotes: { ...assessment.additionalNotes },
+    notApplicable: { ...assessment.notApplicable },
+    aiFlags: [...assessment.aiFlags],
+    weights: { ...weights },
+    questionnaireVersion
+  };
+}
+
+/**
+ * A snapshot's scores on the questions' current scales: scores it kept on the old common 1-4 scale are moved to their
+ * question's own scale the same way current scores were, so a converted assessment matches the snapshot it came from
+ */
+function getScoresOnCurrentScales(
+  history: AssessmentHistory,
+  snapshot: AssessmentSnapshot,
+  questions: Record<string, CriterionDefinition>
+): Record<string, number | null> {
+  const snapshotQuestions = getSnapshotQuestions(history, snapshot);
+  return Object.fromEntries(Object.entries(snapshot.scores).map(([id, score]) => {
+    const question = questions[id];
+    const onOldScale = (snapshotQuestions[id]?.maxScore ?? NORMALIZED_MAX_SCORE) === NORMALIZED_MAX_SCORE;
+    return [id, score !== null && question && onOldScale && question.maxScore !== NORMALIZED_MAX_SCORE ? restoreNativeScore(score, question) : score];
+  }));
+}
+
+/**
+ * Add a saved assessment to a supplier's history. The question set is stored once per questionnaire version, and
+ * nothing is added when the scores, answers, notes, "Not applicable" answers and AI flags with their review status
+ * match the latest snapshot.
+ * @returns The history with the new snapshot, or the history unchanged
+ */
+export function recordAssessment(
+  history: AssessmentHistory,
+  assessment: SavedAssessment,
+  weights: Record<string, number>,
+  questions: Record<string, CriterionDefinition>
+): AssessmentHistory {
+  const latest = sortSnapshots(history.assessments || []).pop();
+  if (
+    latest &&
+    isSameValue(getScoresOnCurrentScales(history, latest, questions), assessment.scores) &&
+    isSameValue(latest.answers, assessment.answers) &&
+    isSameValue(latest.additionalNotes, assessment.additionalNotes) &&
+    isSameValue(latest.notApplicable, assessment.notApplicable) &&
+    isSameValue(latest.aiFlags, assessment.aiFlags)
+  ) {
+    return history;
+  }
+  const version = getQuestionnaireVersion(questions);
+  const questionSets = history.questionSets || {};
+  return {
+    assessments: [...(history.assessments || []), createAssessmentSnapshot(assessment, weights, version)],
+    questionSets: version && !questionSets[version] ? { ...questionSets, [version]: questions } : questionSets
+  };
+}
+
+/**
+ * Questions a snapshot was scored against; empty for snapshots saved before questions were recorded
+ */
+export function getSnapshotQuestions(history: AssessmentHistory, snapshot: AssessmentSnapshot): Record<string, CriterionDefinition> {
+  return (snapshot.questionnaireVersion && history.questionSets?.[snapshot.questionnaireVersion]) || {};
+}
+
+/**
+ * Weighted score of a snapshot, using the weights and questions stored with it
+ */
+export function getSnapshotScore(history: AssessmentHistory, snapshot: AssessmentSnapshot): number {
+  return calculateAllScores(snapshot.scores, snapshot.weights, getSnapshotQuestions(history, snapshot), snapshot.notApplicable).weightedScore;
+}
+
+/**
+ * Snapshots ordered oldest first
+ */
+export function sortSnapshots(snapshots: AssessmentSnapshot[]): AssessmentSnapshot[] {
+  return [...snapshots].sort((a, b) => new Date(a.assessedAt).getTime() - new Date(b.assessedAt).getTime());
+}
@@ -0,0 +1,118 @@
+// Identifiers - random UUIDs so records created on different machines never collide, and name-based UUIDs for
+// records migrated from numeric IDs
+
+import type { Supplier } from './storage';
+
+function randomUUID(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  // RFC 4122 version 4 layout for browsers without randomUUID (non-secure contexts)
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+// SHA-1 digest, only for name-based UUIDs; not for security
+function sha1(bytes: Uint8Array): Uint8Array {
+  const length = bytes.length;
+  const padded = new Uint8Array(Math.ceil((length + 9) / 64) * 64);
+  padded.set(bytes);
+  padded[length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(padded.length - 8, Math.floor(length / 0x20000000));
+  view.setUint32(padded.length - 4, (length * 8) >>> 0);
+  const h = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476, 0xc3d2e1f0];
+  const w = new Uint32Array(80);
+  for (let offset = 0; offset < padded.length; offset += 64) {
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(offset + i * 4);
+    for (let i = 16; i < 80; i++) {
+      const x = w[i - 3] ^ w[i - 8] ^ w[i - 14] ^ w[i - 16];
+      w[i] = (x << 1) | (x >>> 31);
+    }
+    let [a, b, c, d, e] = h;
+    for (let i = 0; i < 80; i++) {
+      const f = i < 20 ? (b & c) | (~b & d) : i < 40 ? b ^ c ^ d : i < 60 ? (b & c) | (b & d) | (c & d) : b ^ c ^ d;
+      const k = i < 20 ? 0x5a827999 : i < 40 ? 0x6ed9eba1 : i < 60 ? 0x8f1bbcdc : 0xca62c1d6;
+      const temp = (((a << 5) | (a >>> 27)) + f + e + k + w[i]) >>> 0;
+      e = d;
+      d = c;
+      c = (b << 30) | (b >>> 2);
+      b = a;
+      a = temp;
+    }
+    h[0] = (h[0] + a) >>> 0;
+    h[1] = (h[1] + b) >>> 0;
+    h[2] = (h[2] + c) >>> 0;
+    h[3] = (h[3] + d) >>> 0;
+    h[4] = (h[4] + e) >>> 0;
+  }
+  const digest = new Uint8Array(20);
+  const digestView = new DataView(digest.buffer);
+  h.forEach((word, i) => digestView.setUint32(i * 4, word));
+  return digest;
+}
+
+// Namespace of the name-based IDs given to suppliers saved with numeric IDs
+const LEGACY_SUPPLIER_NAMESPACE = '6f1c2a8e-3b4d-4c5e-9f60-7a8b9c0d1e2f';
+
+// RFC 4122 version 5 UUID: the same namespace and name always give the same ID
+function nameBasedUUID(namespace: string, name: string): string {
+  const namespaceBytes = Uint8Array.from(namespace.replace(/-/g, '').match(/../g)!.map(byte => parseInt(byte, 16)));
+  const nameBytes = new TextEncoder().encode(name);
+  const input = new Uint8Array(namespaceBytes.length + nameBytes.length);
+  input.set(namespaceBytes);
+  input.set(nameBytes, namespaceBytes.length);
+  const bytes = sha1(input).slice(0, 16);
+  bytes[6] = (bytes[6] & 0x0f) | 0x50;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+/**
+ * ID for a supplier saved with a sequential numeric ID, derived from that number and its name so the same record
+ * gets the same ID however often, and on whichever machine, it is migrated
+ */
+export function createLegacySupplierId(legacyId: number, name: unknown): string {
+  return nameBasedUUID(LEGACY_SUPPLIER_NAMESPACE, `legacy:${legacyId}:${typeof name === 'string' ? name.trim() : ''}`);
+}
+
+/**
+ * Create a new globally unique supplier ID
+ */
+export function createSupplierId(): string {
+  return randomUUID();
+}
+
+/**
+ * Create a new ID for a certification record
+ */
+export function createCertificationId(): string {
+  return randomUUID();
+}
+
+/**
+ * Create a new ID for a stored evidence file
+ */
+export function createEvidenceId(): string {
+  return randomUUID();
+}
+
+/**
+ * Create a new ID for a questionnaire template
+ */
+export function createTemplateId(): string {
+  return randomUUID();
+}
+
+/**
+ * Find a supplier by ID, also accepting the numeric ID it had before IDs became UUIDs
+ * so that old #report?id= links keep working
+ */
+export function findSupplierById(suppliers: Supplier[], id: string): Supplier | undefined {
+  return suppliers.find(s => s.id === id) ?? suppliers.find(s => s.legacyId !== undefined && String(s.legacyId) === id);
+}
@@ -0,0 +1,239 @@
+// Merge utilities - combine an imported supplier file with the current supplier list
+
+import { Supplier } from './storage';
+import { diffAssessment, getAuditedAssessment, isSameValue } from './audit';
+import type { QuestionAnswer } from './questionKinds';
+import { createSupplierId } from './ids';
+
+export type MatchMode = 'id' | 'name';
+export type ConflictChoice = 'current' | 'imported';
+
+// A single field that differs between the current and imported copy of a supplier
+export interface FieldConflict {
+  key: string;
+  label: string;
+  criterionId?: string;
+  currentValue: unknown;
+  importedValue: unknown;
+}
+
+export interface SupplierMergeItem {
+  imported: Supplier;
+  existing: Supplier | null;
+  // Fields filled from the import because the current copy has no value
+  additions: string[];
+  conflicts: FieldConflict[];
+}
+
+export interface MergeSummary {
+  added: string[];
+  updated: string[];
+  skipped: string[];
+}
+
+type ProfileField = 'name' | 'location' | 'streetAddress' | 'distance' | 'abn' | 'website' | 'tradeType' | 'profileNotes';
+
+export const PROFILE_FIELDS: Array<{ key: ProfileField; label: string }> = [
+  { key: 'name', label: 'Name' },
+  { key: 'location', label: 'Location' },
+  { key: 'streetAddress', label: 'Street Address' },
+  { key: 'distance', label: 'Distance (km)' },
+  { key: 'abn', label: 'ABN' },
+  { key: 'website', label: 'Website' },
+  { key: 'tradeType', label: 'Trade Type' },
+  { key: 'profileNotes', label: 'Profile Notes' }
+];
+
+/**
+ * Normalize a supplier name for matching: case, spacing and punctuation are ignored
+ */
+export function normalizeSupplierName(name: string): string {
+  return (name || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+// Zero is a real value, e.g. a distance of 0 km, so it is not empty
+function isEmptyValue(value: unknown): boolean {
+  return value === null || value === undefined || value === '';
+}
+
+// Display a conflicting value compactly
+export function formatFieldValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return 'No value';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+// Field keys are either a supplier field ("location") or a per-criterion value ("scores.1a.1", "documents.1a.1")
+// A per-criterion answer is null when the criterion has none
+// A per-criterion "Not applicable" value is its justification, or empty text when the criterion is not marked
+export function readField(supplier: Supplier, key: string): unknown {
+  if (key.startsWith('scores.')) return supplier.scores?.[key.slice('scores.'.length)] ?? null;
+  if (key.startsWith('additionalNotes.')) return supplier.additionalNotes?.[key.slice('additionalNotes.'.length)] || '';
+  if (key.startsWith('answers.')) return supplier.answers?.[key.slice('answers.'.length)] ?? null;
+  if (key.startsWith('notApplicable.')) return supplier.notApplicable?.[key.slice('notApplicable.'.length)] || '';
+  if (key.startsWith('documents.')) return supplier.documents?.[key.slice('documents.'.length)] || [];
+  return supplier[key as keyof Supplier];
+}
+
+export function writeField(supplier: Supplier, key: string, value: unknown): Supplier {
+  if (key.startsWith('scores.')) {
+    return { ...supplier, scores: { ...supplier.scores, [key.slice('scores.'.length)]: value as number | null } };
+  }
+  if (key.startsWith('additionalNotes.')) {
+    return { ...supplier, additionalNotes: { ...supplier.additionalNotes, [key.slice('additionalNotes.'.length)]: value as string } };
+  }
+  if (key.startsWith('answers.')) {
+    const { [key.slice('answers.'.length)]: _previous, ...others } = supplier.answers || {};
+    return { ...supplier, answers: value === null || value === undefined ? others : { ...others, [key.slice('answers.'.length)]: value as QuestionAnswer } };
+  }
+  if (key.startsWith('notApplicable.')) {
+    const { [key.slice('notApplicable.'.length)]: _previous, ...others } = supplier.notApplicable || {};
+    return { ...supplier, notApplicable: value ? { ...others, [key.slice('notApplicable.'.length)]: value as string } : others };
+  }
+  if (key.startsWith('documents.')) {
+    return { ...supplier, documents: { ...supplier.documents, [key.slice('documents.'.length)]: value as Supplier['documents'][string] } };
+  }
+  return { ...supplier, [key]: value };
+}
+
+// Every comparable field of a pair of suppliers, with labels for the conflict screen
+function listFields(existing: Supplier, imported: Supplier): Array<Omit<FieldConflict, 'currentValue' | 'importedValue'>> {
+  const fields: Array<Omit<FieldConflict, 'currentValue' | 'importedValue'>> = PROFILE_FIELDS.map(field => ({ ...field }));
+  const scoreIds = new Set([...Object.keys(existing.scores || {}), ...Object.keys(imported.scores || {})]);
+  scoreIds.forEach(id => fields.push({ key: `scores.${id}`, label: `Score ${id}`, criterionId: id }));
+  const answerIds = new Set([...Object.keys(existing.answers || {}), ...Object.keys(imported.answers || {})]);
+  answerIds.forEach(id => fields.push({ key: `answers.${id}`, label: `Answer ${id}`, criterionId: id }));
+  const noteIds = new Set([...Object.keys(existing.additionalNotes || {}), ...Object.keys(imported.additionalNotes || {})]);
+  noteIds.forEach(id => fields.push({ key: `additionalNotes.${id}`, label: `Notes ${id}`, criterionId: id }));
+  const notApplicableIds = new Set([...Object.keys(existing.notApplicable || {}), ...Object.keys(imported.notApplicable || {})]);
+  notApplicableIds.forEach(id => fields.push({ key: `notApplicable.${id}`, label: `Not applicable ${id}`, criterionId: id }));
+  return fields;
+}
+
+function findMatch(existing: Supplier[], imported: Supplier, matchBy: MatchMode): Supplier | null {
+  if (matchBy === 'id') {
+    // Files exported before UUIDs were migrated separately, so their pre-UUID number is the shared key
+    return existing.find(s => s.id === imported.id)
+      ?? existing.find(s => s.legacyId !== undefined && s.legacyId === imported.legacyId)
+      ?? null;
+  }
+  const name = normalizeSupplierName(imported.name);
+  return existing.find(s => normalizeSupplierName(s.name) === name) ?? null;
+}
+
+/**
+ * Pair each imported supplier with its current counterpart and work out which fields conflict
+ */
+export function buildMergePlan(existing: Supplier[], incoming: Supplier[], matchBy: MatchMode): SupplierMergeItem[] {
+  return incoming.map(imported => {
+    const match = findMatch(existing, imported, matchBy);
+    if (!match) {
+      return { imported, existing: null, additions: [], conflicts: [] };
+    }
+
+    const additions: string[] = [];
+    const conflicts: FieldConflict[] = [];
+    listFields(match, imported).forEach(field => {
+      const currentValue = readField(match, field.key);
+      const importedValue = readField(imported, field.key);
+      if (isSameValue(currentValue, importedValue) || isEmptyValue(importedValue)) return;
+      if (isEmptyValue(currentValue)) {
+        additions.push(field.key);
+      } else {
+        conflicts.push({ ...field, currentValue, importedValue });
+      }
+    });
+    return { imported, existing: match, additions, conflicts };
+  });
+}
+
+// Union of two lists, keeping the first occurrence of each key
+function unionBy<T>(current: T[], imported: T[], getKey: (item: T) => string): T[] {
+  const seen = new Set(current.map(getKey));
+  return [...current, ...imported.filter(item => !seen.has(getKey(item)))];
+}
+
+// Combine one matched pair; set-like collections are unioned rather than treated as conflicts
+function mergeSupplier(item: SupplierMergeItem, choices: Record<string, ConflictChoice>, author: string): Supplier {
+  const existing = item.existing as Supplier;
+  const { imported } = item;
+  let merged: Supplier = { ...existing };
+
+  item.additions.forEach(key => {
+    merged = writeField(merged, key, readField(imported, key));
+  });
+  item.conflicts.forEach(conflict => {
+    if (choices[conflict.key] === 'imported') {
+      merged = writeField(merged, conflict.key, conflict.importedValue);
+    }
+  });
+
+  merged.materials = Array.from(new Set([...(existing.materials || []), ...(imported.materials || [])]));
+  merged.contacts = unionBy(
+    existing.contacts || [],
+    imported.contacts || [],
+    contact => (contact.email || contact.name).trim().toLowerCase()
+  );
+  merged.certifications = unionBy(existing.certifications || [], imported.certifications || [], record => record.id);
+  merged.aiFlags = unionBy(existing.aiFlags || [], imported.aiFlags || [], flag => flag.criterionId);
+  merged.documents = { ...(existing.documents || {}) };
+  Object.entries(imported.documents || {}).forEach(([criterionId, files]) => {
+    merged.documents[criterionId] = unionBy(merged.documents[criterionId] || [], files, file => file.id);
+  });
+  merged.assessments = unionBy(existing.assessments || [], imported.assessments || [], snapshot => snapshot.assessedAt);
+  merged.questionSets = { ...(existing.questionSets || {}), ...(imported.questionSets || {}) };
+  merged.auditLog = unionBy(
+    existing.auditLog || [],
+    imported.auditLog || [],
+    entry => `${entry.timestamp}|${entry.criterionId}|${entry.field}`
+  );
+  merged.auditLog = [
+    ...merged.auditLog,
+    ...diffAssessment(
+      getAuditedAssessment(existing),
+      getAuditedAssessment(merged),
+      `${author} (import merge)`
+    )
+  ];
+
+  if (!isSameValue({ ...existing, lastUpdated: '' }, { ...merged, lastUpdated: '' })) {
+    merged.lastUpdated = new Date().toISOString().split('T')[0];
+  }
+  return merged;
+}
+
+/**
+ * Apply a merge plan to the current supplier list
+ * @param choices Chosen side per conflict key, indexed by plan position; unresolved conflicts keep the current value
+ */
+export function applyMergePlan(
+  existing: Supplier[],
+  plan: SupplierMergeItem[],
+  choices: Record<number, Record<string, ConflictChoice>>,
+  author: string
+): { suppliers: Supplier[]; summary: MergeSummary } {
+  const summary: MergeSummary = { added: [], updated: [], skipped: [] };
+  let suppliers = [...existing];
+
+  plan.forEach((item, index) => {
+    if (!item.existing) {
+      // When matching by name an unmatched supplier can still share an ID with a local one
+      const clashes = suppliers.some(s => s.id === item.imported.id);
+      const added = clashes ? { ...item.imported, id: createSupplierId() } : item.imported;
+      suppliers.push(added);
+      summary.added.push(added.name);
+      return;
+    }
+
+    const target = suppliers.find(s => s.id === item.existing?.id) ?? item.existing;
+    const merged = mergeSupplier({ ...item, existing: target }, choices[index] || {}, author);
+    if (isSameValue(target, merged)) {
+      summary.skipped.push(target.name);
+      return;
+    }
+    suppliers = suppliers.map(s => (s.id === target.id ? merged : s));
+    summary.updated.push(merged.name);
+  });
+
+  return { suppliers, summary };
+}
@@ -0,0 +1,237 @@
+// Schema migrations for persisted supplier data
+
+import type { Supplier } from './storage';
+import { createLegacySupplierId, createCertificationId } from './ids';
+import { getQuestionnaireVersion } from './questionnaireVersion';
+import { STANDARD_TEMPLATE_ID } from './templates';
+
+/**
+ * Schema version written with every stored or exported supplier payload.
+ * Bump this whenever the `Supplier` shape changes and register a migrator below.
+ */
+export const CURRENT_SCHEMA_VERSION = 14;
+
+export interface SupplierPayload {
+  schemaVersion: number;
+  suppliers: Supplier[];
+}
+
+interface Migration {
+  // Version this migrator produces; it receives records at the previous version
+  version: number;
+  description: string;
+  migrate: (suppliers: unknown[]) => unknown[];
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Apply a transform to every supplier-shaped record, leaving anything else untouched
+function mapRecords(suppliers: unknown[], transform: (supplier: Record<string, any>) => Record<string, any>): unknown[] {
+  return suppliers.map(supplier => (isRecord(supplier) ? transform(supplier) : supplier));
+}
+
+/**
+ * Ordered migrator registry. Each entry upgrades records by exactly one version,
+ * so a payload at any older version can be replayed up to CURRENT_SCHEMA_VERSION.
+ */
+const migrations: Migration[] = [
+  {
+    version: 2,
+    description: 'Default collections that older records may be missing',
+    migrate: (suppliers) => mapRecords(suppliers, supplier => ({
+      ...supplier,
+      certifications: supplier.certifications ?? [],
+      completedCriteria: supplier.completedCriteria ?? [],
+      documents: supplier.documents ?? {},
+      additionalNotes: supplier.additionalNotes ?? {},
+      aiFlags: supplier.aiFlags ?? []
+    }))
+  },
+  {
+    version: 3,
+    description: 'Add assessment history; earlier records only have their current scores',
+    migrate: (suppliers) => mapRecords(suppliers, supplier => ({
+      ...supplier,
+      assessments: supplier.assessments ?? []
+    }))
+  },
+  {
+    version: 4,
+    description: 'Add the per-criterion audit log; earlier changes were not recorded',
+    migrate: (suppliers) => mapRecords(suppliers, supplier => ({
+      ...supplier,
+      auditLog: supplier.auditLog ?? []
+    }))
+  },
+  {
+    version: 5,
+    description: 'Replace sequential numeric IDs with UUIDs, keeping the old number as legacyId',
+    migrate: (suppliers) => mapRecords(suppliers, supplier => (
+      typeof supplier.id === 'number'
+        ? { ...supplier, id: createLegacySupplierId(supplier.id, supplier.name), legacyId: supplier.id }
+        : supplier
+    ))
+  },
+  {
+    version: 6,
+    description: 'Type documents as evidence file lists per criterion; other document entries were never written by the app and are dropped',
+    migrate: (suppliers) => mapRecords(suppliers, supplier => ({
+      ...supplier,
+      documents: Object.fromEntries(
+        Object.entries(isRecord(supplier.documents) ? supplier.documents : {}).filter(([, files]) => Array.isArray(files))
+      )
+    }))
+  },
+  {
+    version: 7,
+    description: 'Turn free-text certification names into certification records with empty details',
+    migrate: (suppliers) => mapRecords(suppliers, supplier => ({
+      ...supplier,
+      certifications: (Array.isArray(supplier.certifications) ? supplier.certifications : []).map((certification: unknown) => (
+        typeof certification === 'string'
+          ? {
+              id: createCertificationId(),
+              standard: certification,
+              certificateNumber: '',
+              issuer: '',
+              scope: '',
+              issueDate: '',
+              expiryDate: '',
+              criterionIds: []
+            }
+          : certification
+      ))
+    }))
+  },
+  {
+    version: 8,
+    description: 'Add the supplier profile; the single contact email becomes the first contact',
+    migrate: (suppliers) => mapRecords(suppliers, ({ contactEmail, ...supplier }) => ({
+      ...supplier,
+      contacts: supplier.contacts ?? (contactEmail ? [{ name: '', role: '', email: contactEmail, phone: '' }] : []),
+      abn: supplier.abn ?? '',
+      website: supplier.website ?? '',
+      streetAddress: supplier.streetAddress ?? '',
+      tradeType: supplier.tradeType ?? '',
+      profileNotes: supplier.profileNotes ?? ''
+    }))
+  },
+  {
+    version: 9,
+    description: 'Record the questionnaire version each assessment snapshot was answered against',
+    migrate: (suppliers) => mapRecords(suppliers, supplier => ({
+      ...supplier,
+      assessments: (Array.isArray(supplier.assessments) ? supplier.assessments : []).map((snapshot: unknown) => (
+        isRecord(snapshot)
+          ? { ...snapshot, questionnaireVersion: getQuestionnaireVersion(isRecord(snapshot.questions) ? snapshot.questions : {}) }
+          : snapshot
+      ))
+    }))
+  },
+  {
+    version: 10,
+    description: 'Assign every supplier a questionnaire template; existing suppliers were assessed with the standard one',
+    migrate: (suppliers) => mapRecords(suppliers, supplier => ({
+      ...supplier,
+      templateId: supplier.templateId ?? STANDARD_TEMPLATE_ID
+    }))
+  },
+  {
+    version: 11,
+    description: 'Add "Not applicable" answers with their justification to suppliers and assessment snapshots',
+    migrate: (suppliers) => mapRecords(suppliers, supplier => ({
+      ...supplier,
+      notApplicable: supplier.notApplicable ?? {},
+      assessments: (Array.isArray(supplier.assessments) ? supplier.assessments : []).map((snapshot: unknown) => (
+        isRecord(snapshot) ? { ...snapshot, notApplicable: snapshot.notApplicable ?? {} } : snapshot
+      ))
+    }))
+  },
+  {
+    version: 12,
+    description: 'Keep raw answers to numeric, percentage, yes/no and multi-select questions alongside their scores',
+    migrate: (suppliers) => mapRecords(suppliers, supplier => ({
+      ...supplier,
+      answers: supplier.answers ?? {},
+      assessments: (Array.isArray(supplier.assessments) ? supplier.assessments : []).map((snapshot: unknown) => (
+        isRecord(snapshot) ? { ...snapshot, answers: snapshot.answers ?? {} } : snapshot
+      ))
+    }))
+  },
+  {
+    version: 13,
+    description: 'Mark current scores saved on the 1-4 scale, to be moved back to each question\'s own scale once the questionnaire is loaded; snapshots keep the 1-4 questions they were scored against',
+    migrate: (suppliers) => mapRecords(suppliers, supplier => (
+      isRecord(supplier.scores) && Object.values(supplier.scores).some(score => typeof score === 'number')
+        ? { ...supplier, scoresNormalized: true }
+        : supplier
+    ))
+  },
+  {
+    version: 14,
+    description: 'Keep each question set assessment snapshots were scored against once per supplier, by questionnaire version, instead of in every snapshot',
+    migrate: (suppliers) => mapRecords(suppliers, supplier => {
+      const questionSets: Record<string, unknown> = isRecord(supplier.questionSets) ? { ...supplier.questionSets } : {};
+      const assessments = (Array.isArray(supplier.assessments) ? supplier.assessments : []).map((snapshot: unknown) => {
+        if (!isRecord(snapshot)) return snapshot;
+        const { questions, ...rest } = snapshot;
+        if (typeof rest.questionnaireVersion === 'string' && isRecord(questions) && !questionSets[rest.questionnaireVersion]) {
+          questionSets[rest.questionnaireVersion] = questions;
+        }
+        return rest;
+      });
+      return { ...supplier, assessments, questionSets };
+    })
+  }
+];
+
+/**
+ * Read the schema version and supplier list from a raw payload.
+ * Bare arrays predate versioning and are treated as version 1.
+ */
+function readPayload(raw: unknown): { version: number; suppliers: unknown } {
+  if (Array.isArray(raw)) {
+    return { version: 1, suppliers: raw };
+  }
+  if (isRecord(raw) && typeof raw.schemaVersion === 'number') {
+    return { version: raw.schemaVersion, suppliers: raw.suppliers };
+  }
+  throw new Error('Unrecognised supplier data format');
+}
+
+/**
+ * Upgrade a stored or imported payload to the current schema
+ * @param raw Parsed JSON as read from storage or an import file
+ * @returns Supplier records in the current shape
+ */
+export function migrateSupplierPayload(raw: unknown): Supplier[] {
+  const { version, suppliers } = readPayload(raw);
+
+  if (!Array.isArray(suppliers)) {
+    throw new Error('Supplier data does not contain a supplier list');
+  }
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`Supplier data uses schema version ${version}, but this app only supports up to version ${CURRENT_SCHEMA_VERSION}. Please update the app.`);
+  }
+
+  let migrated: unknown[] = suppliers;
+  migrations
+    .filter(migration => migration.version > version)
+    .forEach(migration => {
+      migrated = migration.migrate(migrated);
+    });
+
+  return migrated as Supplier[];
+}
+
+/**
+ * Wrap suppliers in a versioned payload for storage or export
+ */
+export function createSupplierPayload(suppliers: Supplier[]): SupplierPayload {
+  return {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    suppliers
+  };
+}
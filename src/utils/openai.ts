@@ -1,4 +1,6 @@
 import { CriterionDefinition } from './csvParser';
+import { getApiUrl, getAuthHeaders } from './api';
+import { getSession } from './auth';
 
 export interface AIAssessmentRequest {
   supplierName: string;
@@ -67,13 +69,15 @@ export async function runAIAssessment(
   request: AIAssessmentRequest,
   criteria: Record<string, CriterionDefinition>
 ): Promise<AIAssessmentResponse> {
-  const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+  // Assessments run on the server the user is signed in to
+  const API_URL = getSession()?.serverUrl || getApiUrl();
   
   try {
     const response = await fetch(`${API_URL}/api/assess`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...getAuthHeaders()
       },
       body: JSON.stringify({
         supplierName: request.supplierName,
@@ -0,0 +1,57 @@
+// Supplier profile utilities - ABN checks, website links and profile search
+
+import { Supplier } from './storage';
+
+export const TRADE_TYPES = ['Manufacturer', 'Distributor', 'Wholesaler', 'Retailer', 'Fabricator', 'Installer', 'Recycler'];
+
+const ABN_WEIGHTS = [10, 1, 3, 5, 7, 9, 11, 13, 15, 17, 19];
+
+/**
+ * Check an Australian Business Number with the ATO checksum: subtract 1 from the first digit,
+ * weight each digit and the sum must be divisible by 89
+ */
+export function isValidABN(abn: string): boolean {
+  const digits = abn.replace(/\s/g, '');
+  if (!/^\d{11}$/.test(digits)) return false;
+  const sum = digits.split('').reduce((total, digit, idx) => {
+    const value = idx === 0 ? Number(digit) - 1 : Number(digit);
+    return total + value * ABN_WEIGHTS[idx];
+  }, 0);
+  return sum % 89 === 0;
+}
+
+// Standard "51 824 753 556" grouping
+export function formatABN(abn: string): string {
+  const digits = abn.replace(/\s/g, '');
+  return /^\d{11}$/.test(digits) ? `${digits.slice(0, 2)} ${digits.slice(2, 5)} ${digits.slice(5, 8)} ${digits.slice(8)}` : abn;
+}
+
+// Websites are often entered without a scheme
+export function getWebsiteUrl(website: string): string {
+  const trimmed = website.trim();
+  return /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+}
+
+function normalizeSearchText(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, '');
+}
+
+/**
+ * Whether a Dashboard search term matches any part of the supplier's profile
+ */
+export function matchesProfileSearch(supplier: Supplier, searchTerm: string): boolean {
+  const needle = normalizeSearchText(searchTerm);
+  if (!needle) return true;
+  const fields = [
+    supplier.name,
+    supplier.location,
+    supplier.streetAddress,
+    supplier.website,
+    supplier.abn,
+    supplier.tradeType,
+    supplier.profileNotes,
+    ...(supplier.materials || []),
+    ...(supplier.contacts || []).flatMap(contact => [contact.name, contact.role, contact.email, contact.phone])
+  ];
+  return fields.some(field => normalizeSearchText(field || '').includes(needle));
+}
@@ -0,0 +1,191 @@
+// Question kind utilities - questions answered with a number, a percentage, yes/no or a selection of choices rather
+// than by picking a scoring option. The raw answer is kept and mapped to a score with the question's scoring options,
+// whose labels give the range of answers each score stands for, e.g. "4 = 0-50 km" or "1 = 1000+ km".
+
+import type { CriterionDefinition, CriterionOption } from './csvParser';
+
+export type QuestionKind = 'options' | 'numeric' | 'percentage' | 'yesNo' | 'multiSelect';
+
+// An answer as given: a number for numeric and percentage questions, true/false for yes/no, the chosen choices otherwise
+export type QuestionAnswer = number | boolean | string[];
+
+// TYPE cell of questions.csv for each kind; an empty cell is a scoring options question
+export const KIND_CELLS: Record<QuestionKind, string> = {
+  options: '',
+  numeric: 'NUMBER',
+  percentage: 'PERCENTAGE',
+  yesNo: 'YES/NO',
+  multiSelect: 'MULTI-SELECT'
+};
+
+export const KIND_LABELS: Record<QuestionKind, string> = {
+  options: 'Scoring options',
+  numeric: 'Number',
+  percentage: 'Percentage',
+  yesNo: 'Yes / No',
+  multiSelect: 'Multi-select'
+};
+
+// Kinds whose answers are mapped to a score by ranges: the number, the percentage, or how many choices were selected
+// (unless the choices are scored one by one, see parseChoice)
+const RANGE_KINDS: QuestionKind[] = ['numeric', 'percentage', 'multiSelect'];
+
+export interface ScoreRange {
+  score: number;
+  min: number | null;
+  max: number | null;
+  // Whether an answer equal to min or max is in the range: false for "> 75" and "< 25"
+  includesMin: boolean;
+  includesMax: boolean;
+}
+
+export function getQuestionKind(criterion: Pick<CriterionDefinition, 'kind'>): QuestionKind {
+  return criterion.kind ?? 'options';
+}
+
+export function isRangeKind(kind: QuestionKind): boolean {
+  return RANGE_KINDS.includes(kind);
+}
+
+/**
+ * Read a TYPE cell, e.g. "NUMBER (km)"
+ * @returns null when the cell names no known kind
+ */
+export function parseKindCell(cell: string | undefined): { kind: QuestionKind; unit: string } | null {
+  const match = (cell || '').trim().match(/^([A-Z/ -]*?)\s*(?:\((.*)\))?$/i);
+  if (!match) return null;
+  const name = match[1].trim().toUpperCase();
+  const kind = (Object.keys(KIND_CELLS) as QuestionKind[]).find(key => KIND_CELLS[key] === name || (key === 'options' && name === 'OPTIONS'));
+  return kind ? { kind, unit: match[2]?.trim() || '' } : null;
+}
+
+export function formatKindCell(kind: QuestionKind, unit: string): string {
+  return kind === 'numeric' && unit.trim() ? `${KIND_CELLS[kind]} (${unit.trim()})` : KIND_CELLS[kind];
+}
+
+const NUMBER = '(\\d+(?:\\.\\d+)?)';
+const RANGE_PATTERNS: Array<[RegExp, (a: number, b: number) => Omit<ScoreRange, 'score'>]> = [
+  [new RegExp(`^${NUMBER}\\s*(?:-|–|to)\\s*${NUMBER}`, 'i'), (a, b) => ({ min: a, max: b, includesMin: true, includesMax: true })],
+  [new RegExp(`^${NUMBER}\\s*\\+`), a => ({ min: a, max: null, includesMin: true, includesMax: true })],
+  [new RegExp(`^(?:<=|≤|up to)\\s*${NUMBER}`, 'i'), a => ({ min: null, max: a, includesMin: true, includesMax: true })],
+  [new RegExp(`^(?:>=|≥)\\s*${NUMBER}`), a => ({ min: a, max: null, includesMin: true, includesMax: true })],
+  [new RegExp(`^<\\s*${NUMBER}`), a => ({ min: null, max: a, includesMin: true, includesMax: false })],
+  [new RegExp(`^>\\s*${NUMBER}`), a => ({ min: a, max: null, includesMin: false, includesMax: true })],
+  [new RegExp(`^${NUMBER}(?![\\d.])`), a => ({ min: a, max: a, includesMin: true, includesMax: true })]
+];
+
+/**
+ * Range of answers a scoring option stands for, from the start of its label: "0-50", "1000+", "<= 10", ">= 3",
+ * "< 25", "> 75" or a single value such as "0"; anything after the range, e.g. a unit, is just part of the label.
+ * Both ends are included, except for "<" and ">".
+ * @returns null when the label does not start with a range
+ */
+export function parseScoreRange(option: CriterionOption): ScoreRange | null {
+  const label = option.label.trim();
+  for (const [pattern, toRange] of RANGE_PATTERNS) {
+    const match = label.match(pattern);
+    if (match) return { score: option.value, ...toRange(parseFloat(match[1]), parseFloat(match[2])) };
+  }
+  return null;
+}
+
+// Whether a range holds a value
+function isInRange(range: ScoreRange, value: number): boolean {
+  const aboveMin = range.min === null || value > range.min || (range.includesMin && value === range.min);
+  const belowMax = range.max === null || value < range.max || (range.includesMax && value === range.max);
+  return aboveMin && belowMax;
+}
+
+/**
+ * Read a line of the CHOICES cell, which can end with the score selecting that choice gives, e.g. "GECA = 4"
+ * @returns The choice, and its score or null when it has none
+ */
+export function parseChoice(line: string): { choice: string; score: number | null } {
+  const match = line.trim().match(/^(.*?)\s*=\s*(\d+)$/);
+  return match && match[1] ? { choice: match[1], score: parseInt(match[2], 10) } : { choice: line.trim(), score: null };
+}
+
+/**
+ * Score of each choice of a multi-select question whose choices are scored one by one
+ * @returns null when the choices have no scores, so the question scores how many were selected
+ */
+export function getChoiceScores(lines: string[]): Record<string, number> | null {
+  const choices = lines.map(parseChoice);
+  if (!choices.some(choice => choice.score !== null)) return null;
+  return Object.fromEntries(choices.map(({ choice, score }) => [choice, score ?? 0]));
+}
+
+// Which scoring option a yes/no answer picks
+function findYesNoOption(options: CriterionOption[], answer: boolean): CriterionOption | undefined {
+  return options.find(option => option.label.trim().toLowerCase() === (answer ? 'yes' : 'no'));
+}
+
+/**
+ * Why a question's scoring options cannot score its kind of answer
+ * @returns null when they can
+ */
+export function describeKindProblem(kind: QuestionKind, options: CriterionOption[], choices: string[]): string | null {
+  const choiceScores = kind === 'multiSelect' ? getChoiceScores(choices) : null;
+  if (choiceScores) {
+    const unscored = choices.map(parseChoice).filter(choice => choice.score === null);
+    if (unscored.length > 0) {
+      return `Give every choice a score or none; ${unscored.map(choice => choice.choice).join(', ')} has no score`;
+    }
+    const unknown = Object.entries(choiceScores).filter(([, score]) => !options.some(option => option.value === score));
+    if (unknown.length > 0) {
+      return `Choice ${unknown.map(([choice, score]) => `${choice} = ${score}`).join(', ')} must score one of the scoring options`;
+    }
+  } else if (isRangeKind(kind)) {
+    const unreadable = options.filter(option => !parseScoreRange(option));
+    if (unreadable.length > 0) {
+      return `Option ${unreadable.map(option => option.value).join(', ')} must start with the range of answers it scores, e.g. "0-50", "1000+", "<= 10" or "> 75"`;
+    }
+  }
+  if (kind === 'yesNo' && (options.length !== 2 || !findYesNoOption(options, true) || !findYesNoOption(options, false))) {
+    return 'A yes/no question needs exactly two options, labelled Yes and No';
+  }
+  if (kind === 'multiSelect' && choices.length === 0) {
+    return 'A multi-select question needs at least one choice';
+  }
+  return null;
+}
+
+/**
+ * Score for a raw answer: the option whose range contains it, or for scored choices the highest score of those selected.
+ * An answer on the end two ranges share, e.g. 50 for "25-50" and "50-75", gets the range that starts there.
+ * @returns null for a scoring options question, an answer of the wrong type, one outside every range, or no choices
+ */
+export function scoreAnswer(criterion: CriterionDefinition, answer: QuestionAnswer | null | undefined): number | null {
+  if (answer === null || answer === undefined) return null;
+  const kind = getQuestionKind(criterion);
+  if (kind === 'yesNo') {
+    return typeof answer === 'boolean' ? findYesNoOption(criterion.options, answer)?.value ?? null : null;
+  }
+  if (!isRangeKind(kind)) return null;
+  if (kind === 'multiSelect' && criterion.choiceScores) {
+    if (!Array.isArray(answer)) return null;
+    const scores = answer.map(choice => criterion.choiceScores?.[choice]).filter((score): score is number => score !== undefined);
+    return scores.length > 0 ? Math.max(...scores) : null;
+  }
+  const value = kind === 'multiSelect' ? (Array.isArray(answer) ? answer.length : null) : (typeof answer === 'number' ? answer : null);
+  if (value === null || !Number.isFinite(value)) return null;
+  const matches = criterion.options
+    .map(parseScoreRange)
+    .filter((range): range is ScoreRange => range !== null && isInRange(range, value))
+    .sort((a, b) => Number(b.min === value) - Number(a.min === value) || b.score - a.score);
+  return matches.length > 0 ? matches[0].score : null;
+}
+
+// An answer as shown in the report, e.g. "120 km", "65%", "Yes" or "FSC, PEFC"
+export function formatAnswer(criterion: CriterionDefinition, answer: QuestionAnswer): string {
+  if (typeof answer === 'boolean') return answer ? 'Yes' : 'No';
+  if (Array.isArray(answer)) return answer.length > 0 ? answer.join(', ') : 'None selected';
+  if (getQuestionKind(criterion) === 'percentage') return `${answer}%`;
+  return criterion.unit ? `${answer} ${criterion.unit}` : String(answer);
+}
+
+export function isQuestionAnswer(value: unknown): value is QuestionAnswer {
+  return (typeof value === 'number' && Number.isFinite(value))
+    || typeof value === 'boolean'
+    || (Array.isArray(value) && value.every(item => typeof item === 'string'));
+}
@@ -0,0 +1,294 @@
+// Questionnaire editing utilities - questions.csv rows as editable drafts, validation and writing the CSV back out
+// Drafts keep each question's scoring options on their own scale, exactly as written in the SCORING GUIDE cell.
+
+import Papa from 'papaparse';
+import { QuestionRow, CriterionOption, parseScoringOptions, extractCategoryId, generateCriterionId } from './csvParser';
+import { parseCondition, getConditionCriterionIds, findConditionCycles, QuestionCondition } from './conditions';
+import { QuestionKind, parseKindCell, formatKindCell, describeKindProblem, parseScoreRange, parseChoice, getChoiceScores } from './questionKinds';
+
+export type Priority = 'HIGH' | 'MEDIUM' | 'LOW';
+
+export const PRIORITIES: Priority[] = ['HIGH', 'MEDIUM', 'LOW'];
+
+export interface QuestionDraft {
+  // Identifies the draft while editing; not written to the CSV
+  key: string;
+  // Criterion ID written to the ID column; empty until set, in which case it is numbered by position
+  id: string;
+  // Full CATEGORY cell, e.g. "1.MATERIAL SOURCING"; the leading number is the category ID
+  category: string;
+  subCategory: string;
+  priority: Priority;
+  question: string;
+  // Highest value first, as written to the SCORING GUIDE cell
+  options: CriterionOption[];
+  retired: boolean;
+  // SHOW IF and SKIP IF conditions as written; empty for none
+  showIf: string;
+  skipIf: string;
+  // Answer format from the TYPE column; the unit only applies to numeric questions and the choices to multi-select,
+  // written as in the CHOICES cell, e.g. "GECA = 4" for a choice with its own score
+  kind: QuestionKind;
+  unit: string;
+  choices: string[];
+}
+
+export interface QuestionIssue {
+  // Index of the draft, or null for problems with the whole questionnaire
+  index: number | null;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+const CSV_FIELDS = ['ID', 'CATEGORY', 'SUB-CATEGORY', 'PRIORITY', 'KEY EVALUATION QUESTIONS', 'SCORING GUIDE'];
+
+let draftCounter = 0;
+
+export function createDraftKey(): string {
+  return `draft-${++draftCounter}`;
+}
+
+// Criterion IDs are written to a CSV cell and stored as keys, so keep them to simple characters
+const CRITERION_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+/**
+ * Read questions.csv into drafts. Rows that loadQuestions skips (no category ID or no question) are left out.
+ * Rows without an ID column value get the ID loadQuestions numbers them with, so saving pins it.
+ */
+export function parseQuestionnaireCsv(csv: string): QuestionDraft[] {
+  // Same settings as loadQuestions, so cells are read the same way
+  const { data } = Papa.parse<QuestionRow>(csv, {
+    header: true,
+    skipEmptyLines: false,
+    newline: '\n',
+    quoteChar: '"',
+    escapeChar: '"',
+    transformHeader: (header) => header.trim()
+  });
+  const drafts = data
+    .filter(row => row.CATEGORY?.trim() && row['KEY EVALUATION QUESTIONS']?.trim() && extractCategoryId(row.CATEGORY))
+    .map((row): QuestionDraft => {
+      const priority = (row.PRIORITY || 'MEDIUM').toUpperCase();
+      const kind = parseKindCell(row.TYPE) ?? { kind: 'options', unit: '' };
+      return {
+        key: createDraftKey(),
+        id: row.ID?.trim() || '',
+        category: row.CATEGORY,
+        subCategory: row['SUB-CATEGORY'] || '',
+        priority: (PRIORITIES.includes(priority as Priority) ? priority : 'MEDIUM') as Priority,
+        question: row['KEY EVALUATION QUESTIONS'].trim(),
+        options: [...parseScoringOptions(row['SCORING GUIDE'] || '')].sort((a, b) => b.value - a.value),
+        retired: row.STATUS?.trim().toUpperCase() === 'RETIRED',
+        showIf: row['SHOW IF']?.trim() || '',
+        skipIf: row['SKIP IF']?.trim() || '',
+        kind: kind.kind,
+        unit: kind.kind === 'numeric' ? kind.unit : '',
+        choices: kind.kind === 'multiSelect' ? getChoices((row.CHOICES || '').split('\n')) : []
+      };
+    });
+  const ids = getDraftCriterionIds(drafts);
+  return drafts.map((draft, index) => ({ ...draft, id: ids[index] }));
+}
+
+// Choices as written to the CHOICES cell, one per line, without blank lines
+function getChoices(choices: string[]): string[] {
+  return choices.map(choice => choice.trim()).filter(Boolean);
+}
+
+export function formatScoringGuide(options: CriterionOption[]): string {
+  return [...options]
+    .sort((a, b) => b.value - a.value)
+    .map(option => `${option.value} = ${option.label.trim()}`)
+    .join('\n');
+}
+
+/**
+ * Write drafts as questions.csv. Every row gets its criterion ID; TYPE and CHOICES columns are only added when a
+ * question is not answered with scoring options, SHOW IF and SKIP IF columns only when a question has a condition, and
+ * a STATUS column only when a question is retired.
+ */
+export function serializeQuestionnaire(drafts: QuestionDraft[]): string {
+  const hasRetired = drafts.some(draft => draft.retired);
+  const hasConditions = drafts.some(draft => draft.showIf.trim() || draft.skipIf.trim());
+  const hasKinds = drafts.some(draft => draft.kind !== 'options');
+  const fields = [
+    ...CSV_FIELDS,
+    ...(hasKinds ? ['TYPE', 'CHOICES'] : []),
+    ...(hasConditions ? ['SHOW IF', 'SKIP IF'] : []),
+    ...(hasRetired ? ['STATUS'] : [])
+  ];
+  const ids = getDraftCriterionIds(drafts);
+  const data = drafts.map((draft, index) => [
+    ids[index], draft.category, draft.subCategory.trim(), draft.priority, draft.question.trim(), formatScoringGuide(draft.options),
+    ...(hasKinds ? [formatKindCell(draft.kind, draft.unit), draft.kind === 'multiSelect' ? getChoices(draft.choices).join('\n') : ''] : []),
+    ...(hasConditions ? [draft.showIf.trim(), draft.skipIf.trim()] : []),
+    ...(hasRetired ? [draft.retired ? 'RETIRED' : ''] : [])
+  ]);
+  return Papa.unparse({ fields, data }, { newline: '\n', quoteChar: '"', escapeChar: '"' }) + '\n';
+}
+
+/**
+ * Criterion ID each draft is saved under: its own ID, or for drafts without one the next free position in its
+ * sub-category, numbered the same way as loadQuestions
+ */
+export function getDraftCriterionIds(drafts: QuestionDraft[]): string[] {
+  const explicitIds = new Set(drafts.map(draft => draft.id.trim()).filter(Boolean));
+  const generatedIds = new Set<string>();
+  const counts: Record<string, number> = {};
+  return drafts.map(draft => {
+    const categoryId = extractCategoryId(draft.category);
+    // Sub-categories are written trimmed, so they are numbered that way
+    const subCategory = draft.subCategory.trim();
+    const countKey = `${categoryId}-${subCategory}`;
+    counts[countKey] = (counts[countKey] || 0) + 1;
+    if (draft.id.trim()) return draft.id.trim();
+    let id = generateCriterionId(categoryId, counts[countKey], subCategory);
+    for (let next = counts[countKey] + 1; explicitIds.has(id) || generatedIds.has(id); next++) {
+      id = generateCriterionId(categoryId, next, subCategory);
+    }
+    generatedIds.add(id);
+    return id;
+  });
+}
+
+// Drafts as they read back from the CSV, ignoring editing keys and whitespace the CSV does not keep
+function comparable(drafts: QuestionDraft[]): unknown[] {
+  const ids = getDraftCriterionIds(drafts);
+  return drafts.map(({ key: _key, ...draft }, index) => ({
+    ...draft,
+    id: ids[index],
+    subCategory: draft.subCategory.trim(),
+    question: draft.question.trim(),
+    showIf: draft.showIf.trim(),
+    skipIf: draft.skipIf.trim(),
+    unit: draft.kind === 'numeric' ? draft.unit.trim() : '',
+    choices: draft.kind === 'multiSelect' ? getChoices(draft.choices) : [],
+    options: [...draft.options].sort((a, b) => b.value - a.value).map(option => ({ value: option.value, label: option.label.trim() }))
+  }));
+}
+
+/**
+ * Check every draft; errors block saving, warnings do not
+ * @param previousIds Criterion IDs by draft key when editing started, to warn about questions whose ID would change
+ */
+export function validateQuestionnaire(drafts: QuestionDraft[], previousIds: Record<string, string> = {}): QuestionIssue[] {
+  const issues: QuestionIssue[] = [];
+  const ids = getDraftCriterionIds(drafts);
+  const seenQuestions = new Map<string, number>();
+  const seenIds = new Map<string, number>();
+  const draftsById = new Map(drafts.map((draft, index) => [ids[index], draft]));
+  // Criterion IDs each question's conditions refer to, to find cycles
+  const dependencies: Record<string, string[]> = {};
+
+  drafts.forEach((draft, index) => {
+    const error = (message: string) => issues.push({ index, severity: 'error', message });
+    const warning = (message: string) => issues.push({ index, severity: 'warning', message });
+    const categoryId = extractCategoryId(draft.category);
+
+    if (!categoryId) error('Category must start with its number and a full stop, e.g. "1.MATERIAL SOURCING"');
+    if (!CRITERION_ID_PATTERN.test(ids[index])) {
+      error('Criterion ID can only contain letters, numbers, full stops, hyphens and underscores');
+    }
+    const sameIdAs = seenIds.get(ids[index]);
+    if (sameIdAs !== undefined) error(`Criterion ID ${ids[index]} is already used by row ${sameIdAs + 1}`);
+    else seenIds.set(ids[index], index);
+    if (!draft.question.trim()) error('Question text is required');
+    if (draft.question.includes('"') && draft.question.includes('\n')) {
+      warning('Question mixes quotes and line breaks; check the exported file reads as expected');
+    }
+    const subMatch = draft.subCategory.match(/(\d+)[a-z]/i);
+    if (!draft.subCategory.trim()) {
+      warning('No sub-category; the criterion ID falls back to a generic pattern');
+    } else if (subMatch && categoryId && subMatch[1] !== categoryId) {
+      warning(`Sub-category ${draft.subCategory.trim()} does not belong to category ${categoryId}`);
+    }
+
+    const normalizedQuestion = draft.question.trim().toLowerCase();
+    if (normalizedQuestion) {
+      const duplicateOf = seenQuestions.get(normalizedQuestion);
+      if (duplicateOf !== undefined) warning(`Same question as row ${duplicateOf + 1}`);
+      else seenQuestions.set(normalizedQuestion, index);
+    }
+
+    if (draft.options.length < 2) error('Add at least two scoring options');
+    const values = draft.options.map(option => option.value);
+    if (values.some(value => !Number.isInteger(value) || value < 1)) error('Option scores must be whole numbers of 1 or more');
+    if (new Set(values).size !== values.length) error('Each option needs a different score');
+    draft.options.forEach(option => {
+      if (!option.label.trim()) error(`Option ${option.value} needs a label`);
+      if (/[\r\n]/.test(option.label)) error(`Option ${option.value} label cannot contain line breaks`);
+    });
+
+    const choices = getChoices(draft.choices);
+    const kindProblem = describeKindProblem(draft.kind, draft.options, draft.kind === 'multiSelect' ? choices : []);
+    if (kindProblem) error(kindProblem);
+    if (draft.kind === 'numeric' && /[()\r\n]/.test(draft.unit)) error('Unit cannot contain brackets or line breaks');
+    if (draft.kind === 'multiSelect') {
+      const names = choices.map(choice => parseChoice(choice).choice.toLowerCase());
+      if (new Set(names).size !== names.length) error('Each choice must be different');
+      if (!getChoiceScores(choices)) {
+        const tooMany = draft.options.filter(option => (parseScoreRange(option)?.min ?? 0) > choices.length);
+        if (tooMany.length > 0) warning(`Option ${tooMany.map(option => option.value).join(', ')} needs more selections than there are choices`);
+      }
+    }
+    if (draft.kind === 'percentage') {
+      const outside = draft.options.filter(option => {
+        const range = parseScoreRange(option);
+        return range && ((range.min ?? 0) > 100 || (range.max ?? 0) > 100);
+      });
+      if (outside.length > 0) warning(`Option ${outside.map(option => option.value).join(', ')} covers percentages above 100`);
+    }
+
+    (['showIf', 'skipIf'] as const).forEach(field => {
+      const name = field === 'showIf' ? 'Show if' : 'Skip if';
+      let condition: QuestionCondition | null;
+      try {
+        condition = parseCondition(draft[field]);
+      } catch (parseError) {
+        error(`${name} condition: ${(parseError as Error).message}`);
+        return;
+      }
+      const referenced = getConditionCriterionIds(condition);
+      dependencies[ids[index]] = [...(dependencies[ids[index]] || []), ...referenced];
+      (condition || []).flat().forEach(clause => {
+        const target = draftsById.get(clause.criterionId);
+        if (clause.criterionId === ids[index]) error(`${name} condition refers to this question itself`);
+        else if (!target) error(`${name} condition refers to ${clause.criterionId}, which is not a question here`);
+        else if (target.retired) warning(`${name} condition refers to ${clause.criterionId}, which is retired and never answered`);
+        else if (typeof clause.value === 'string' && !target.options.some(option => option.label.trim().toLowerCase() === (clause.value as string).trim().toLowerCase())) {
+          warning(`${name} condition: ${clause.criterionId} has no option labelled "${clause.value}"`);
+        }
+      });
+    });
+
+    const previousId = previousIds[draft.key];
+    if (previousId && previousId !== ids[index] && categoryId) {
+      warning(`Criterion ID changes from ${previousId} to ${ids[index]}; saved scores stay under ${previousId} until they are remapped`);
+    }
+  });
+
+  const cycles = findConditionCycles(dependencies).filter(id => draftsById.has(id));
+  if (cycles.length > 0) {
+    issues.push({ index: null, severity: 'error', message: `The conditions of ${cycles.join(', ')} depend on each other` });
+  }
+  if (drafts.filter(draft => !draft.retired).length === 0) {
+    issues.push({ index: null, severity: 'error', message: 'The questionnaire needs at least one active question' });
+  }
+  // Guard against anything the CSV cannot represent
+  if (!issues.some(issue => issue.severity === 'error')) {
+    const roundTrip = parseQuestionnaireCsv(serializeQuestionnaire(drafts));
+    if (JSON.stringify(comparable(roundTrip)) !== JSON.stringify(comparable(drafts))) {
+      issues.push({ index: null, severity: 'error', message: 'The questionnaire would not read back identically from questions.csv' });
+    }
+  }
+  return issues;
+}
+
+export function downloadQuestionnaireCsv(csv: string): void {
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = 'questions.csv';
+  link.click();
+  URL.revokeObjectURL(url);
+}
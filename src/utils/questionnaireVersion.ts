@@ -0,0 +1,114 @@
+// Questionnaire versioning utilities - a fingerprint of the question set an assessment was answered against,
+// and which questions changed since
+
+import type { CriterionDefinition } from './csvParser';
+import { getQuestionKind } from './questionKinds';
+import type { Supplier } from './storage';
+
+export type QuestionField = 'question' | 'options' | 'priority' | 'category' | 'conditions' | 'format';
+
+// A question set an assessment was answered against
+export interface AssessedQuestionnaire {
+  assessedAt: string;
+  // null for assessments saved before questions were recorded
+  questionnaireVersion: string | null;
+  questions: Record<string, CriterionDefinition>;
+}
+
+export interface QuestionnaireChanges {
+  // Criterion IDs in the current questionnaire only
+  added: string[];
+  // Criterion IDs in the assessed questionnaire only
+  removed: string[];
+  // Criterion IDs in both, with what differs
+  changed: Array<{ id: string; fields: QuestionField[] }>;
+}
+
+/**
+ * Everything about a question that affects how it is answered or scored, in a fixed order. Conditions and answer
+ * formats are only described when set, so other questions keep the version they had before either existed.
+ */
+function describeQuestion(criterion: CriterionDefinition): Partial<Record<QuestionField, string>> {
+  const description: Partial<Record<QuestionField, string>> = {
+    question: criterion.question.trim(),
+    options: JSON.stringify([...criterion.options].sort((a, b) => b.value - a.value).map(option => [option.value, option.label.trim()])),
+    priority: criterion.priority,
+    category: `${criterion.category.trim()}|${criterion.subCategory.trim()}|${criterion.maxScore}`
+  };
+  const showIf = criterion.showIf?.trim() || '';
+  const skipIf = criterion.skipIf?.trim() || '';
+  if (showIf || skipIf) description.conditions = `${showIf}|${skipIf}`;
+  const kind = getQuestionKind(criterion);
+  if (kind !== 'options') {
+    // Choice scores are only added when set, so versions of questions without them stay the same
+    const format = [kind, criterion.unit || '', criterion.choices || [], ...(criterion.choiceScores ? [criterion.choiceScores] : [])];
+    description.format = JSON.stringify(format);
+  }
+  return description;
+}
+
+// 53-bit string hash (cyrb53); stable across browsers, not for security
+function hashString(text: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+}
+
+/**
+ * Version of a question set: the same questions, options and priorities always give the same version,
+ * whatever order they were loaded in
+ * @returns null for an empty question set, e.g. a snapshot saved before questions were recorded
+ */
+export function getQuestionnaireVersion(questions: Record<string, CriterionDefinition>): string | null {
+  const ids = Object.keys(questions).sort();
+  if (ids.length === 0) return null;
+  return hashString(JSON.stringify(ids.map(id => [id, describeQuestion(questions[id])])));
+}
+
+// Whether two questions are asked and scored the same way
+export function isSameQuestion(a: CriterionDefinition, b: CriterionDefinition): boolean {
+  return JSON.stringify(describeQuestion(a)) === JSON.stringify(describeQuestion(b));
+}
+
+// Short form of a version for display
+export function formatQuestionnaireVersion(version: string): string {
+  return version.substring(0, 8);
+}
+
+export function diffQuestionnaires(
+  assessed: Record<string, CriterionDefinition>,
+  current: Record<string, CriterionDefinition>
+): QuestionnaireChanges {
+  const changed: QuestionnaireChanges['changed'] = [];
+  Object.keys(current).forEach(id => {
+    if (!assessed[id]) return;
+    const before = describeQuestion(assessed[id]);
+    const after = describeQuestion(current[id]);
+    const fields = (Array.from(new Set([...Object.keys(before), ...Object.keys(after)])) as QuestionField[])
+      .filter(field => before[field] !== after[field]);
+    if (fields.length > 0) changed.push({ id, fields });
+  });
+  return {
+    added: Object.keys(current).filter(id => !assessed[id]),
+    removed: Object.keys(assessed).filter(id => !current[id]),
+    changed
+  };
+}
+
+/**
+ * Questions of the latest saved assessment, which the supplier's current answers were given against.
+ * Null when no assessment recorded its questions.
+ */
+export function getAssessedQuestionnaire(supplier: Pick<Supplier, 'assessments' | 'questionSets'> | null | undefined): AssessedQuestionnaire | null {
+  const recorded = (supplier?.assessments || []).filter(snapshot => snapshot.questionnaireVersion);
+  if (recorded.length === 0) return null;
+  const { assessedAt, questionnaireVersion } = recorded.reduce((latest, snapshot) => (new Date(snapshot.assessedAt) > new Date(latest.assessedAt) ? snapshot : latest));
+  return { assessedAt, questionnaireVersion, questions: (questionnaireVersion && supplier?.questionSets?.[questionnaireVersion]) || {} };
+}
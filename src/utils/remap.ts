@@ -0,0 +1,167 @@
+// Criterion remapping utilities - when questions.csv changes, move saved answers from the criterion IDs they are
+// stored under to the IDs their questions now have, matched by question text
+
+import { CriterionDefinition } from './csvParser';
+import { Supplier } from './storage';
+
+// Below this similarity a question is not proposed as a match
+export const MATCH_THRESHOLD = 0.5;
+// A question kept under its ID at least this similar counts as the same question, e.g. after a typo fix
+const UNCHANGED_THRESHOLD = 0.8;
+
+export interface CriteriaRemap {
+  matches: CriterionMatch[];
+  // Current criterion IDs that answers can be moved to: every ID except those still holding their previous question
+  targetIds: string[];
+}
+
+export interface CriterionMatch {
+  oldId: string;
+  oldQuestion: string;
+  /**
+   * Proposed ID in the current questionnaire. Equal to oldId when no other question is similar enough, so the
+   * answers stay where they are; null removes them, proposed when another old question's answers take the ID.
+   */
+  newId: string | null;
+  // Similarity of oldQuestion to the proposed question, from 0 to 1
+  similarity: number;
+  // Suppliers, including those in the trash, with answers stored under oldId
+  supplierCount: number;
+}
+
+function tokenize(text: string): Set<string> {
+  return new Set(text.toLowerCase().split(/[^a-z0-9]+/).filter(token => token.length > 1));
+}
+
+/**
+ * Word overlap of two questions (Dice coefficient), from 0 for nothing in common to 1 for the same words
+ */
+export function questionSimilarity(a: string, b: string): number {
+  const tokensA = tokenize(a);
+  const tokensB = tokenize(b);
+  if (tokensA.size === 0 || tokensB.size === 0) return 0;
+  const shared = [...tokensA].filter(token => tokensB.has(token)).length;
+  return (2 * shared) / (tokensA.size + tokensB.size);
+}
+
+export function getQuestionTexts(criteria: Record<string, CriterionDefinition>): Record<string, string> {
+  return Object.fromEntries(Object.entries(criteria).map(([id, criterion]) => [id, criterion.question]));
+}
+
+// Criterion IDs a supplier has answers, evidence, review flags or certification links for
+function getAnsweredCriterionIds(supplier: Supplier): Set<string> {
+  return new Set([
+    ...Object.keys(supplier.scores || {}),
+    ...Object.keys(supplier.answers || {}),
+    ...Object.keys(supplier.additionalNotes || {}).filter(id => supplier.additionalNotes[id]),
+    ...Object.keys(supplier.notApplicable || {}),
+    ...Object.keys(supplier.documents || {}).filter(id => supplier.documents[id]?.length),
+    ...(supplier.completedCriteria || []),
+    ...(supplier.aiFlags || []).map(flag => flag.criterionId),
+    ...(supplier.certifications || []).flatMap(record => record.criterionIds || [])
+  ]);
+}
+
+/**
+ * Match criteria from the previously loaded questionnaire whose question changed or disappeared to the most similar
+ * question in the current one. Each current question is proposed for at most one old ID, best matches first.
+ * @param previous Question text by criterion ID, as last loaded
+ * @returns Matches for old IDs that suppliers have answers under, in previous questionnaire order; no matches when
+ *   nothing needs remapping
+ */
+export function proposeRemap(
+  previous: Record<string, string>,
+  current: Record<string, CriterionDefinition>,
+  suppliers: Supplier[]
+): CriteriaRemap {
+  const isUnchanged = (id: string) => !!current[id] && questionSimilarity(previous[id], current[id].question) >= UNCHANGED_THRESHOLD;
+  const changedIds = Object.keys(previous).filter(id => !isUnchanged(id));
+
+  // Questions still held by their old ID cannot take another ID's answers
+  const targetIds = Object.keys(current).filter(id => !(id in previous) || !isUnchanged(id));
+  const candidates = changedIds
+    .flatMap(oldId => targetIds.map(newId => ({ oldId, newId, similarity: questionSimilarity(previous[oldId], current[newId].question) })))
+    .filter(candidate => candidate.similarity >= MATCH_THRESHOLD)
+    .sort((a, b) => b.similarity - a.similarity);
+
+  const matched = new Map<string, { newId: string; similarity: number }>();
+  const taken = new Set<string>();
+  for (const candidate of candidates) {
+    if (matched.has(candidate.oldId) || taken.has(candidate.newId)) continue;
+    matched.set(candidate.oldId, candidate);
+    taken.add(candidate.newId);
+  }
+
+  const answered = suppliers.map(getAnsweredCriterionIds);
+  const matches = changedIds.flatMap(oldId => {
+    const match = matched.get(oldId);
+    // Reworded in place: the answers are already where they belong
+    if (match?.newId === oldId) return [];
+    const supplierCount = answered.filter(ids => ids.has(oldId)).length;
+    if (supplierCount === 0) return [];
+    if (match) return [{ oldId, oldQuestion: previous[oldId], ...match, supplierCount }];
+    return [{
+      oldId,
+      oldQuestion: previous[oldId],
+      newId: taken.has(oldId) ? null : oldId,
+      similarity: current[oldId] && !taken.has(oldId) ? questionSimilarity(previous[oldId], current[oldId].question) : 0,
+      supplierCount
+    }];
+  });
+  return { matches, targetIds };
+}
+
+/**
+ * Current criterion IDs that more than one old ID would move to (keeping answers in place counts as moving to the same ID)
+ */
+export function getRemapConflicts(mapping: Record<string, string | null>): string[] {
+  const counts: Record<string, number> = {};
+  Object.values(mapping).forEach(newId => {
+    if (newId !== null) counts[newId] = (counts[newId] || 0) + 1;
+  });
+  return Object.keys(counts).filter(id => counts[id] > 1);
+}
+
+/**
+ * Move a supplier's answers, notes, not-applicable justifications, evidence, review flags, certification links and audit entries to new criterion
+ * IDs. Every ID moves at once, so two questions can swap IDs. Assessment history is left as it is, since each snapshot
+ * keeps the questions it was scored against.
+ * @param mapping New ID by old ID; null removes what was saved under the old ID (its audit entries are kept)
+ * @returns The same supplier object when nothing changed
+ */
+export function remapSupplierCriteria(supplier: Supplier, mapping: Record<string, string | null>): Supplier {
+  const moves = Object.entries(mapping).filter(([oldId, newId]) => oldId !== newId);
+  if (moves.length === 0 || !moves.some(([oldId]) => getAnsweredCriterionIds(supplier).has(oldId))) return supplier;
+  const moved = Object.fromEntries(moves);
+  const rename = (id: string): string | null => (id in moved ? moved[id] : id);
+  const remapRecord = <T>(record: Record<string, T> | undefined): Record<string, T> => {
+    const result: Record<string, T> = {};
+    Object.entries(record || {}).forEach(([id, value]) => {
+      const newId = rename(id);
+      if (newId !== null) result[newId] = value;
+    });
+    return result;
+  };
+  const remapIds = (ids: string[] | undefined): string[] =>
+    Array.from(new Set((ids || []).map(rename).filter((id): id is string => id !== null)));
+
+  return {
+    ...supplier,
+    scores: remapRecord(supplier.scores),
+    answers: remapRecord(supplier.answers),
+    additionalNotes: remapRecord(supplier.additionalNotes),
+    notApplicable: remapRecord(supplier.notApplicable),
+    documents: remapRecord(supplier.documents),
+    completedCriteria: remapIds(supplier.completedCriteria),
+    aiFlags: (supplier.aiFlags || []).flatMap(flag => {
+      const newId = rename(flag.criterionId);
+      return newId === null ? [] : [{ ...flag, criterionId: newId }];
+    }),
+    certifications: (supplier.certifications || []).map(record => ({ ...record, criterionIds: remapIds(record.criterionIds) })),
+    auditLog: (supplier.auditLog || []).map(entry => {
+      const newId = rename(entry.criterionId);
+      return newId === null || newId === entry.criterionId ? entry : { ...entry, criterionId: newId };
+    }),
+    lastUpdated: new Date().toISOString().split('T')[0]
+  };
+}
@@ -3,6 +3,13 @@
  * This is useful for migrating existing supplier data
  */
 
+import type { CriterionDefinition } from './csvParser';
+import type { Supplier } from './storage';
+import { diffAssessment, getAuditedAssessment } from './audit';
+
+// Author recorded in the audit log when scores are moved back to their question's own scale
+export const SCALE_AUDIT_AUTHOR = 'Score scale conversion';
+
 /**
  * Normalize a score from one scale to 1-4 scale
  * @param oldValue Original score value
@@ -75,3 +82,42 @@ export function normalizeSupplierScores(
   return normalized;
 }
 
+/**
+ * A score saved on the 1-4 scale moved back to its question's own scale: the highest option that used to be shown
+ * with it, as that was the option kept when options collided
+ */
+export function restoreNativeScore(score: number, criterion: CriterionDefinition): number {
+  const shownAs = criterion.options.filter(option => normalizeScore(option.value, criterion.maxScore) === score);
+  return shownAs.length > 0
+    ? Math.max(...shownAs.map(option => option.value))
+    : Math.max(1, Math.min(criterion.maxScore, Math.round(1 + ((score - 1) * (criterion.maxScore - 1)) / 3)));
+}
+
+/**
+ * Move a supplier's current scores from the 1-4 scale questions used to be squashed onto back to each question's own
+ * scale, see restoreNativeScore; scores for questions already on a 1-4 scale, or no longer in the questionnaire, are
+ * left as they are. Each changed score is recorded in the audit log.
+ * @returns The supplier unchanged unless it is marked scoresNormalized
+ */
+export function restoreNativeScores(supplier: Supplier, criteria: Record<string, CriterionDefinition>): Supplier {
+  if (!supplier.scoresNormalized) return supplier;
+
+  const scores: Record<string, number | null> = {};
+  Object.entries(supplier.scores).forEach(([criterionId, score]) => {
+    const criterion = criteria[criterionId];
+    if (score === null || score === undefined || !criterion || criterion.maxScore === 4) {
+      scores[criterionId] = score;
+      return;
+    }
+    scores[criterionId] = restoreNativeScore(score, criterion);
+  });
+
+  const auditEntries = diffAssessment(
+    getAuditedAssessment(supplier),
+    { ...getAuditedAssessment(supplier), scores },
+    SCALE_AUDIT_AUTHOR
+  );
+  const restored: Supplier = { ...supplier, scores, auditLog: [...(supplier.auditLog || []), ...auditEntries] };
+  delete restored.scoresNormalized;
+  return restored;
+}
@@ -1,6 +1,7 @@
 // Scoring utilities with weight support
 
 import { CriterionDefinition } from './csvParser';
+import { getHiddenCriterionIds } from './conditions';
 
 export interface ScoreCalculation {
   totalScore: number;
@@ -9,22 +10,59 @@ export interface ScoreCalculation {
   weightedCategoryScores: Record<string, number>;
 }
 
+// Every score is put on this scale before totals and averages, whatever scale its question uses
+export const NORMALIZED_MAX_SCORE = 4;
+
+/**
+ * A score on its question's own scale put on the common 1-4 scale, e.g. 3 on a 1-5 question becomes 2.5.
+ * Without the question the score is taken to be on the 1-4 scale already.
+ */
+export function normalizeCriterionScore(score: number, criterion?: Pick<CriterionDefinition, 'maxScore'>): number {
+  const maxScore = criterion?.maxScore ?? NORMALIZED_MAX_SCORE;
+  if (maxScore <= 1) return NORMALIZED_MAX_SCORE;
+  return 1 + ((score - 1) * (NORMALIZED_MAX_SCORE - 1)) / (maxScore - 1);
+}
+
 /**
- * Calculate total score (simple average)
+ * Answers that count towards scores: answers to criteria marked "Not applicable" never count, and with criteria given,
+ * neither do answers to questions skipped by their show/skip conditions
+ */
+function getCountedScores(
+  scores: Record<string, number | null>,
+  criteria?: Record<string, CriterionDefinition>,
+  notApplicable?: Record<string, string>
+): Record<string, number | null> {
+  const hidden = criteria ? getHiddenCriterionIds(criteria, scores) : new Set<string>();
+  const excluded = (id: string) => hidden.has(id) || Boolean(notApplicable?.[id]);
+  if (hidden.size === 0 && Object.keys(notApplicable || {}).length === 0) return scores;
+  return Object.fromEntries(Object.entries(scores).filter(([id]) => !excluded(id)));
+}
+
+/**
+ * Category a criterion's score counts towards: the number of its row's CATEGORY, so an explicit ID such as
+ * "ENERGY-1" is scored with its row. Without it, e.g. in older saved question sets, the ID's leading digits.
+ */
+export function getCriterionCategoryId(criterionId: string, criterion?: Pick<CriterionDefinition, 'categoryId'>): string {
+  return criterion?.categoryId ?? criterionId.match(/^(\d+)/)?.[1] ?? '';
+}
+
+// Scores outside their question's scale, e.g. left over from an older questionnaire, are not counted
+export function isScoreInRange(criterionId: string, score: number | null, criteria?: Record<string, CriterionDefinition>): score is number {
+  if (score === null || score === undefined) return false;
+  return score >= 1 && score <= (criteria?.[criterionId]?.maxScore ?? NORMALIZED_MAX_SCORE);
+}
+
+/**
+ * Calculate total score (simple average on the 1-4 scale)
  */
 export function calculateTotalScore(
   scores: Record<string, number | null>,
-  criteria?: Record<string, CriterionDefinition>
+  criteria?: Record<string, CriterionDefinition>,
+  notApplicable?: Record<string, string>
 ): number {
-  const validScores = Object.entries(scores)
-    .filter(([id, score]) => {
-      if (score === null || score === undefined) return false;
-      if (criteria && criteria[id]) {
-        return score >= 1 && score <= criteria[id].maxScore;
-      }
-      return score >= 1 && score <= 4;
-    })
-    .map(([, score]) => score as number);
+  const validScores = Object.entries(getCountedScores(scores, criteria, notApplicable))
+    .filter(([id, score]) => isScoreInRange(id, score, criteria))
+    .map(([id, score]) => normalizeCriterionScore(score as number, criteria?.[id]));
   
   if (validScores.length === 0) return 0;
   const sum = validScores.reduce((acc, score) => acc + score, 0);
@@ -32,35 +70,21 @@ export function calculateTotalScore(
 }
 
 /**
- * Calculate category score (average of all criteria in category)
+ * Calculate category score (average of all criteria in category, on the 1-4 scale)
  */
 export function getCategoryScore(
   scores: Record<string, number | null>,
   categoryId: string,
-  criteria?: Record<string, CriterionDefinition>
+  criteria?: Record<string, CriterionDefinition>,
+  notApplicable?: Record<string, string>
 ): number {
-  const categoryScores = Object.entries(scores)
+  const categoryScores = Object.entries(getCountedScores(scores, criteria, notApplicable))
     .filter(([key, value]) => {
-      // Filter out null/undefined scores
-      if (value === null || value === undefined) return false;
-      
-      // Match category ID from criterion ID
-      // New format: "1d.1", "1d.2" - extract first digit(s) which is the category
-      // Old format: "1.1", "1.2" - also extract first digit(s)
-      const match = key.match(/^(\d+)/);
-      if (match && match[1] === categoryId) {
-        return true;
-      }
-      
-      // Also check if criteria is provided and match by category name
-      if (criteria && criteria[key]) {
-        const criterionCategoryId = criteria[key].category.match(/^(\d+)/)?.[1];
-        return criterionCategoryId === categoryId;
-      }
-      
-      return false;
+      // Filter out null/undefined and out-of-range scores
+      if (!isScoreInRange(key, value, criteria)) return false;
+      return getCriterionCategoryId(key, criteria?.[key]) === categoryId;
     })
-    .map(([, value]) => value as number);
+    .map(([key, value]) => normalizeCriterionScore(value as number, criteria?.[key]));
   
   if (categoryScores.length === 0) return 0;
   const total = categoryScores.reduce((sum, score) => sum + score, 0);
@@ -73,13 +97,14 @@ export function getCategoryScore(
 export function calculateWeightedScore(
   scores: Record<string, number | null>,
   weights: Record<string, number>,
-  criteria?: Record<string, CriterionDefinition>
+  criteria?: Record<string, CriterionDefinition>,
+  notApplicable?: Record<string, string>
 ): number {
   let weightedSum = 0;
   let totalWeight = 0;
   
   Object.entries(weights).forEach(([categoryId, weight]) => {
-    const categoryScore = getCategoryScore(scores, categoryId, criteria);
+    const categoryScore = getCategoryScore(scores, categoryId, criteria, notApplicable);
     if (categoryScore > 0) {
       weightedSum += categoryScore * weight;
       totalWeight += weight;
@@ -95,19 +120,20 @@ export function calculateWeightedScore(
 export function calculateAllScores(
   scores: Record<string, number | null>,
   weights: Record<string, number>,
-  criteria?: Record<string, CriterionDefinition>
+  criteria?: Record<string, CriterionDefinition>,
+  notApplicable?: Record<string, string>
 ): ScoreCalculation {
   const categoryScores: Record<string, number> = {};
   const weightedCategoryScores: Record<string, number> = {};
   
   Object.keys(weights).forEach(categoryId => {
-    const categoryScore = getCategoryScore(scores, categoryId, criteria);
+    const categoryScore = getCategoryScore(scores, categoryId, criteria, notApplicable);
     categoryScores[categoryId] = categoryScore;
     weightedCategoryScores[categoryId] = categoryScore * weights[categoryId];
   });
   
-  const totalScore = calculateTotalScore(scores, criteria);
-  const weightedScore = calculateWeightedScore(scores, weights, criteria);
+  const totalScore = calculateTotalScore(scores, criteria, notApplicable);
+  const weightedScore = calculateWeightedScore(scores, weights, criteria, notApplicable);
   
   return {
     totalScore,
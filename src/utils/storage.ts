@@ -1,132 +1,1183 @@
 // Storage utilities for saving/loading data as JSON
+// Data lives in IndexedDB when available, falling back to localStorage otherwise.
+// Suppliers, weights, materials and evidence can also be shared through the backend server: they are still
+// saved in the browser first, and queued changes are synced whenever the server is reachable.
+// With a workspace passphrase set, every value kept in browser storage is encrypted.
+
+import { migrateSupplierPayload, createSupplierPayload } from './migrations';
+import { CriterionDefinition } from './csvParser';
+import type { QuestionAnswer } from './questionKinds';
+import { validateSuppliers, ValidationResult } from './validation';
+import { isIndexedDBAvailable, openDatabase, idbGet, idbSet, idbDelete, idbKeys, KEY_VALUE_STORE } from './database';
+import { apiRequest, getApiUrl, ApiError } from './api';
+import { mergeSupplierLists, applySyncConflict, SyncConflict } from './sync';
+import { isSameValue } from './audit';
+import { STANDARD_TEMPLATE_ID } from './templates';
+import { getEvidenceFileIds } from './evidence';
+import { createSalt, deriveKey, encryptValue, decryptValue, isEncryptedValue, encryptBundle, decryptBundle, isEncryptedBundle, EncryptedValue, PassphraseRequiredError } from './crypto';
+
+// A saved assessment, kept alongside the weights it was scored against; its questions are kept once per version in
+// the supplier's questionSets
+export interface AssessmentSnapshot {
+  assessedAt: string;
+  scores: Record<string, number | null>;
+  answers: Record<string, QuestionAnswer>;
+  additionalNotes: Record<string, string>;
+  notApplicable: Record<string, string>;
+  aiFlags: any[];
+  weights: Record<string, number>;
+  // Fingerprint of the questions, see getQuestionnaireVersion; null for snapshots saved before questions were recorded
+  questionnaireVersion: string | null;
+}
+
+export type AuditValue = string | number | boolean | null | Record<string, any>;
+
+// One append-only record of a change to a criterion's score, answer, notes, not-applicable justification, AI flag or
+// review status
+export interface AuditEntry {
+  timestamp: string;
+  author: string;
+  criterionId: string;
+  field: 'score' | 'answer' | 'note' | 'notApplicable' | 'aiFlag' | 'reviewStatus';
+  oldValue: AuditValue;
+  newValue: AuditValue;
+}
+
+// Metadata for an evidence file; the file contents are stored separately under its ID
+export interface EvidenceFile {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+  uploadedAt: string;
+}
+
+export interface CertificationRecord {
+  id: string;
+  // Standard or scheme, e.g. "FSC" or "ISO 14001"
+  standard: string;
+  certificateNumber: string;
+  issuer: string;
+  scope: string;
+  // ISO dates (YYYY-MM-DD); empty when unknown
+  issueDate: string;
+  expiryDate: string;
+  evidence?: EvidenceFile;
+  // Criteria the certificate supports; flagged for reassessment when it lapses
+  criterionIds: string[];
+  // Set once the lapse has flagged the criteria, so it only happens once per expiry
+  lapseFlaggedAt?: string;
+}
+
+export interface SupplierContact {
+  name: string;
+  // e.g. "Sales", "Sustainability manager"
+  role: string;
+  email: string;
+  phone: string;
+}
 
 export interface Supplier {
-  id: number;
+  // UUID; suppliers created before UUIDs keep their old sequential number in legacyId
+  id: string;
+  legacyId?: number;
   name: string;
+  // City and state, used for display and distance
   location: string;
+  streetAddress: string;
   distance: number;
   materials: string[];
-  contactEmail: string;
+  contacts: SupplierContact[];
+  abn: string;
+  website: string;
+  tradeType: string;
+  profileNotes: string;
   scores: Record<string, number | null>;
-  certifications: string[];
+  // Raw answers to numeric, percentage, yes/no and multi-select questions, from which their scores are derived
+  answers: Record<string, QuestionAnswer>;
+  certifications: CertificationRecord[];
   completedCriteria: string[];
-  documents: Record<string, any>;
+  // Evidence files per criterion ID
+  documents: Record<string, EvidenceFile[]>;
   additionalNotes: Record<string, string>;
+  // Criteria answered "Not applicable", with the required justification; they are left out of scores and completion
+  notApplicable: Record<string, string>;
   aiFlags: any[];
   aiAssessed?: boolean;
+  assessments: AssessmentSnapshot[];
+  // Question sets the assessment snapshots were scored against, by questionnaire version
+  questionSets: Record<string, Record<string, CriterionDefinition>>;
+  auditLog: AuditEntry[];
   lastUpdated: string;
+  // Set when the supplier is moved to the trash; trashed suppliers are purged after the retention period
+  deletedAt?: string;
+  // Questionnaire template the supplier is assessed with, see STANDARD_TEMPLATE_ID
+  templateId: string;
+  // Set on suppliers saved while every question was squashed onto the 1-4 scale; their current scores are moved back
+  // to each question's own scale once the questionnaire is loaded, see restoreNativeScores
+  scoresNormalized?: boolean;
+}
+
+// A named question set with its own category weights, for suppliers of one type
+export interface QuestionnaireTemplate {
+  id: string;
+  name: string;
+  // Questions in the questions.csv format
+  csv: string;
+  // Category weights by category ID
+  weights: Record<string, number>;
 }
 
-const STORAGE_KEY = 'powerhouse-suppliers-v1';
+const STORAGE_KEY = 'powerhouse-suppliers';
+// Unversioned key used before payloads carried a schema version
+const LEGACY_STORAGE_KEY = 'powerhouse-suppliers-v1';
+// Raw data that could not be migrated is parked here instead of being overwritten
+const UNREADABLE_STORAGE_KEY = 'powerhouse-suppliers-unreadable';
 const WEIGHTS_STORAGE_KEY = 'powerhouse-category-weights-v1';
 const SETTINGS_STORAGE_KEY = 'powerhouse-settings-v1';
 const MATERIALS_STORAGE_KEY = 'powerhouse-materials-v1';
+// Questionnaire CSV replacing public/questions.csv, e.g. after restoring a backup
+const QUESTIONNAIRE_STORAGE_KEY = 'powerhouse-questionnaire-v1';
+// Question text by criterion ID as last loaded, to spot criteria whose ID changed when the questionnaire changes
+const CRITERIA_SNAPSHOT_KEY = 'powerhouse-criteria-snapshot-v1';
+// Questionnaire templates other than the standard one, each with its own questions and weights
+const TEMPLATES_STORAGE_KEY = 'powerhouse-templates-v1';
+// Set in IndexedDB once existing localStorage data has been moved across
+const MIGRATED_FLAG_KEY = 'powerhouse-migrated-from-localstorage';
+// Evidence file contents are stored as data URLs, one key per file
+const EVIDENCE_KEY_PREFIX = 'powerhouse-evidence-';
+// Where shared data is kept; read synchronously from localStorage before anything else loads
+const STORAGE_TARGET_KEY = 'powerhouse-storage-target';
+// Offline sync state, kept in browser storage: changes waiting to be sent, the last synced suppliers and unresolved conflicts
+const SYNC_QUEUE_KEY = 'powerhouse-sync-queue';
+const SYNC_BASE_KEY = 'powerhouse-sync-base';
+const SYNC_CONFLICTS_KEY = 'powerhouse-sync-conflicts';
+// Salt and passphrase check for the encrypted workspace; kept unencrypted in localStorage so the app knows to ask for the passphrase
+const ENCRYPTION_SETTINGS_KEY = 'powerhouse-encryption';
 
-export function saveSuppliers(suppliers: Supplier[]): void {
+const LOCAL_STORAGE_KEYS = [
+  STORAGE_KEY,
+  LEGACY_STORAGE_KEY,
+  UNREADABLE_STORAGE_KEY,
+  WEIGHTS_STORAGE_KEY,
+  SETTINGS_STORAGE_KEY,
+  MATERIALS_STORAGE_KEY
+];
+
+interface StorageBackend {
+  name: 'indexeddb' | 'localstorage' | 'server';
+  get<T>(key: string): Promise<T | undefined>;
+  set(key: string, value: unknown): Promise<void>;
+  remove(key: string): Promise<void>;
+}
+
+const localStorageBackend: StorageBackend = {
+  name: 'localstorage',
+  async get<T>(key: string) {
+    const saved = localStorage.getItem(key);
+    return saved === null ? undefined : (JSON.parse(saved) as T);
+  },
+  async set(key, value) {
+    localStorage.setItem(key, JSON.stringify(value));
+  },
+  async remove(key) {
+    localStorage.removeItem(key);
+  }
+};
+
+const indexedDBBackend: StorageBackend = {
+  name: 'indexeddb',
+  get: <T>(key: string) => idbGet<T>(KEY_VALUE_STORE, key),
+  set: (key, value) => idbSet(KEY_VALUE_STORE, key, value),
+  remove: (key) => idbDelete(KEY_VALUE_STORE, key)
+};
+
+// Shared data keys and the server routes that hold them; everything else stays in the browser
+function getServerPath(key: string): string | null {
+  if (key === STORAGE_KEY) return '/api/suppliers';
+  if (key === WEIGHTS_STORAGE_KEY) return '/api/weights';
+  if (key === MATERIALS_STORAGE_KEY) return '/api/materials';
+  // The standard questionnaire and the templates are all questionnaires on the server, the standard one under its template ID
+  if (key === QUESTIONNAIRE_STORAGE_KEY) return `/api/questionnaires/${STANDARD_TEMPLATE_ID}`;
+  if (key === TEMPLATES_STORAGE_KEY) return '/api/questionnaires';
+  if (key.startsWith(EVIDENCE_KEY_PREFIX)) {
+    return `/api/evidence/${encodeURIComponent(key.slice(EVIDENCE_KEY_PREFIX.length))}`;
+  }
+  return null;
+}
+
+// A questionnaire as the server holds it; templates also carry their weights
+interface ServerQuestionnaire {
+  id: string;
+  name: string;
+  csv: string;
+  weights?: Record<string, number>;
+}
+
+// Save the templates as the server's questionnaires besides the standard one, deleting those no longer listed
+async function saveServerTemplates(serverUrl: string, templates: QuestionnaireTemplate[]): Promise<void> {
+  const saved = (await apiRequest<ServerQuestionnaire[]>(serverUrl, '/api/questionnaires')) || [];
+  for (const template of templates) {
+    await apiRequest(serverUrl, `/api/questionnaires/${encodeURIComponent(template.id)}`, {
+      method: 'PUT',
+      body: JSON.stringify(template)
+    });
+  }
+  const kept = new Set([STANDARD_TEMPLATE_ID, ...templates.map(template => template.id)]);
+  for (const questionnaire of saved.filter(item => !kept.has(item.id))) {
+    await apiRequest(serverUrl, `/api/questionnaires/${encodeURIComponent(questionnaire.id)}`, { method: 'DELETE' });
+  }
+}
+
+function createServerBackend(serverUrl: string, local: StorageBackend): StorageBackend {
+  const isEvidence = (key: string) => key.startsWith(EVIDENCE_KEY_PREFIX);
+  return {
+    name: 'server',
+    async get<T>(key: string) {
+      const path = getServerPath(key);
+      if (!path) return local.get<T>(key);
+      const saved = await apiRequest<unknown>(serverUrl, path);
+      if (saved === null || saved === undefined) return undefined;
+      if (key === QUESTIONNAIRE_STORAGE_KEY) return (saved as ServerQuestionnaire).csv as T;
+      if (key === TEMPLATES_STORAGE_KEY) {
+        return (saved as ServerQuestionnaire[])
+          .filter(questionnaire => questionnaire.id !== STANDARD_TEMPLATE_ID)
+          .map(({ id, name, csv, weights }) => ({ id, name, csv, weights: weights || {} })) as T;
+      }
+      return (isEvidence(key) ? (saved as { dataUrl: string }).dataUrl : saved) as T;
+    },
+    async set(key, value) {
+      const path = getServerPath(key);
+      if (!path) return local.set(key, value);
+      if (key === TEMPLATES_STORAGE_KEY) return saveServerTemplates(serverUrl, value as QuestionnaireTemplate[]);
+      const body = isEvidence(key)
+        ? { dataUrl: value }
+        : key === QUESTIONNAIRE_STORAGE_KEY ? { id: STANDARD_TEMPLATE_ID, name: 'Standard', csv: value } : value;
+      await apiRequest(serverUrl, path, { method: 'PUT', body: JSON.stringify(body) });
+    },
+    async remove(key) {
+      const path = getServerPath(key);
+      if (!path) return local.remove(key);
+      await apiRequest(serverUrl, path, { method: 'DELETE' });
+    }
+  };
+}
+
+// Saves to the browser and queues shared data for the next sync
+function createOfflineBackend(local: StorageBackend): StorageBackend {
+  return {
+    name: 'server',
+    get: <T>(key: string) => local.get<T>(key),
+    async set(key, value) {
+      await local.set(key, value);
+      if (getServerPath(key)) await enqueueSync(key, 'set');
+    },
+    async remove(key) {
+      await local.remove(key);
+      if (getServerPath(key)) await enqueueSync(key, 'remove');
+    }
+  };
+}
+
+// Encrypts values with the workspace key, when a passphrase is set, before they reach browser storage
+function createEncryptedBackend(inner: StorageBackend): StorageBackend {
+  return {
+    name: inner.name,
+    async get<T>(key: string) {
+      const saved = await inner.get<unknown>(key);
+      if (!isEncryptedValue(saved)) return saved as T | undefined;
+      return decryptStoredValue<T>(saved);
+    },
+    async set(key, value) {
+      await inner.set(key, encryptionKey ? await encryptValue(encryptionKey, value) : value);
+    },
+    remove: (key) => inner.remove(key)
+  };
+}
+
+let backend: StorageBackend = localStorageBackend;
+// The browser backend, which keeps settings even when shared data is on the server
+let localBackend: StorageBackend = localStorageBackend;
+// The browser backend without encryption
+let browserBackend: StorageBackend = localStorageBackend;
+let initPromise: Promise<void> | null = null;
+
+// Write failure reporting
+
+export interface StorageError {
+  message: string;
+  quotaExceeded: boolean;
+}
+
+type StorageErrorListener = (error: StorageError) => void;
+
+const errorListeners = new Set<StorageErrorListener>();
+
+/**
+ * Subscribe to failed writes so the UI can tell the user their changes were not saved
+ * @returns Unsubscribe function
+ */
+export function onStorageError(listener: StorageErrorListener): () => void {
+  errorListeners.add(listener);
+  return () => {
+    errorListeners.delete(listener);
+  };
+}
+
+function isQuotaError(error: unknown): boolean {
+  if (!(error instanceof DOMException)) return false;
+  // Firefox used a non-standard name; legacy browsers only set the numeric code
+  return error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED' || error.code === 22;
+}
+
+function reportError(message: string, quotaExceeded = false): void {
+  errorListeners.forEach(listener => listener({ message, quotaExceeded }));
+}
+
+function reportWriteError(what: string, error: unknown): void {
+  console.error(`Error saving ${what}:`, error);
+  const quotaExceeded = isQuotaError(error);
+  const message = quotaExceeded
+    ? `Browser storage is full, so ${what} could not be saved. Export your data from Settings and free up space before making more changes.`
+    : `${what.charAt(0).toUpperCase()}${what.slice(1)} could not be saved: ${error instanceof Error ? error.message : String(error)}`;
+  reportError(message, quotaExceeded);
+}
+
+async function write(key: string, value: unknown, what: string): Promise<boolean> {
   try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(suppliers));
+    await initStorage();
+    await backend.set(key, value);
+    return true;
   } catch (error) {
-    console.error('Error saving suppliers:', error);
+    reportWriteError(what, error);
+    return false;
   }
 }
 
-export function loadSuppliers(): Supplier[] {
+async function read<T>(key: string, what: string, fallback: T): Promise<T> {
   try {
-    const saved = localStorage.getItem(STORAGE_KEY);
-    return saved ? JSON.parse(saved) : [];
+    await initStorage();
+    const saved = await backend.get<T>(key);
+    return saved ?? fallback;
   } catch (error) {
-    console.error('Error loading suppliers:', error);
-    return [];
+    console.error(`Error loading ${what}:`, error);
+    return fallback;
+  }
+}
+
+// Copy everything the app previously kept in localStorage into IndexedDB
+async function moveLocalStorageData(): Promise<void> {
+  const moved: string[] = [];
+  for (const key of LOCAL_STORAGE_KEYS) {
+    const saved = localStorage.getItem(key);
+    if (saved === null) continue;
+    let value: unknown = saved;
+    try {
+      value = JSON.parse(saved);
+    } catch {
+      // Keep unparseable data as the raw string so nothing is lost
+    }
+    await idbSet(KEY_VALUE_STORE, key, value);
+    moved.push(key);
   }
+  await idbSet(KEY_VALUE_STORE, MIGRATED_FLAG_KEY, new Date().toISOString());
+  // Only clear the old copies once everything has been written
+  moved.forEach(key => localStorage.removeItem(key));
 }
 
-export function saveCategoryWeights(weights: Record<string, number>): void {
+async function initBrowserStorage(): Promise<StorageBackend> {
+  if (!isIndexedDBAvailable()) {
+    console.warn('IndexedDB is not available, using localStorage');
+    return localStorageBackend;
+  }
   try {
-    localStorage.setItem(WEIGHTS_STORAGE_KEY, JSON.stringify(weights));
+    await openDatabase();
+    const migrated = await idbGet<string>(KEY_VALUE_STORE, MIGRATED_FLAG_KEY);
+    if (!migrated) {
+      await moveLocalStorageData();
+    }
+    // Ask the browser not to evict our data under storage pressure
+    navigator.storage?.persist?.().catch(() => undefined);
+    return indexedDBBackend;
   } catch (error) {
-    console.error('Error saving weights:', error);
+    // Data stays in localStorage and is used from there for this session
+    console.error('Error initialising IndexedDB, using localStorage:', error);
+    return localStorageBackend;
+  }
+}
+
+/**
+ * Pick the storage backend and move existing localStorage data to IndexedDB on first run.
+ * With the shared server selected, waits briefly for a first sync so the latest data is loaded when online.
+ * Safe to call repeatedly; the work only happens once.
+ */
+export function initStorage(): Promise<void> {
+  if (!initPromise) {
+    if (isStorageLocked()) return Promise.reject(new Error('The workspace is locked'));
+    initPromise = (async () => {
+      browserBackend = await initBrowserStorage();
+      localBackend = createEncryptedBackend(browserBackend);
+      backend = localBackend;
+      const { target, serverUrl } = getStorageTarget();
+      if (target !== 'server') return;
+      backend = createOfflineBackend(localBackend);
+      await startSync(serverUrl);
+      await Promise.race([syncNow(), new Promise(resolve => setTimeout(resolve, INITIAL_SYNC_TIMEOUT_MS))]);
+    })();
+  }
+  return initPromise;
+}
+
+export function getStorageBackendName(): StorageBackend['name'] {
+  return backend.name;
+}
+
+// Workspace passphrase
+
+interface EncryptionSettings {
+  salt: string;
+  // The passphrase is checked by decrypting this value
+  verifier: EncryptedValue;
+  // 0 turns auto-lock off
+  autoLockMinutes: number;
+  // Set while stored values are being moved from the previous passphrase (salt null when they were unencrypted) to
+  // this one; the next unlock finishes the move if it was interrupted
+  rekey?: { salt: string | null; verifier: EncryptedValue | null };
+  // Set while stored values are being decrypted because the passphrase is being removed
+  removing?: boolean;
+}
+
+const DEFAULT_AUTO_LOCK_MINUTES = 15;
+const VERIFIER_TEXT = 'powerhouse-workspace';
+
+// Derived from the passphrase on unlock and only ever held in memory
+let encryptionKey: CryptoKey | null = null;
+// The key being replaced while data is re-encrypted, so values not yet rewritten can still be read
+let previousEncryptionKey: CryptoKey | null = null;
+
+function getEncryptionSettings(): EncryptionSettings | null {
+  try {
+    const saved = JSON.parse(localStorage.getItem(ENCRYPTION_SETTINGS_KEY) || 'null');
+    if (saved && typeof saved.salt === 'string' && isEncryptedValue(saved.verifier)) return saved;
+  } catch {
+    // Fall through to unencrypted
   }
+  return null;
 }
 
-export function loadCategoryWeights(): Record<string, number> | null {
+async function decryptStoredValue<T>(value: EncryptedValue): Promise<T> {
+  if (!encryptionKey && !previousEncryptionKey) throw new Error('The workspace is locked');
   try {
-    const saved = localStorage.getItem(WEIGHTS_STORAGE_KEY);
-    return saved ? JSON.parse(saved) : null;
+    return await decryptValue<T>((encryptionKey || previousEncryptionKey) as CryptoKey, value);
   } catch (error) {
-    console.error('Error loading weights:', error);
-    return null;
+    if (!encryptionKey || !previousEncryptionKey) throw error;
+    return decryptValue<T>(previousEncryptionKey, value);
   }
 }
 
-export interface AppSettings {
-  openaiApiKey?: string;
-  [key: string]: any;
+// Whether a key holds data written by this module, as opposed to flags and the storage target
+function isDataKey(key: string): boolean {
+  return LOCAL_STORAGE_KEYS.includes(key)
+    || [QUESTIONNAIRE_STORAGE_KEY, CRITERIA_SNAPSHOT_KEY, TEMPLATES_STORAGE_KEY, SYNC_QUEUE_KEY, SYNC_BASE_KEY, SYNC_CONFLICTS_KEY].includes(key)
+    || key.startsWith(EVIDENCE_KEY_PREFIX);
 }
 
-export function saveSettings(settings: AppSettings): void {
+async function listDataKeys(): Promise<string[]> {
+  const keys = browserBackend === indexedDBBackend
+    ? (await idbKeys(KEY_VALUE_STORE)).map(String)
+    : Object.keys(localStorage);
+  return keys.filter(isDataKey);
+}
+
+// Rewrite every stored value with the current key (or unencrypted when there is none)
+async function reencryptData(oldKey: CryptoKey | null): Promise<void> {
+  previousEncryptionKey = oldKey;
   try {
-    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    for (const key of await listDataKeys()) {
+      const value = await localBackend.get(key);
+      if (value !== undefined) await localBackend.set(key, value);
+    }
+  } finally {
+    previousEncryptionKey = null;
+  }
+}
+
+export function isEncryptionEnabled(): boolean {
+  return getEncryptionSettings() !== null;
+}
+
+/**
+ * Whether stored data is encrypted and the passphrase has not been entered yet; nothing can load until it is
+ */
+export function isStorageLocked(): boolean {
+  return encryptionKey === null && isEncryptionEnabled();
+}
+
+/**
+ * Whether a change from one passphrase to another was interrupted, so unlocking also needs the previous passphrase
+ */
+export function needsPreviousPassphrase(): boolean {
+  return Boolean(getEncryptionSettings()?.rekey?.salt);
+}
+
+/**
+ * Unlock the encrypted workspace for this page load, finishing a passphrase change or removal that was interrupted
+ * @param previousPassphrase Needed when needsPreviousPassphrase is true
+ * @returns Whether the passphrase (and previous passphrase) was correct
+ */
+export async function unlockStorage(passphrase: string, previousPassphrase?: string): Promise<boolean> {
+  const settings = getEncryptionSettings();
+  if (!settings) return true;
+  const key = await deriveKey(passphrase, settings.salt);
+  let previousKey: CryptoKey | null = null;
+  try {
+    await decryptValue(key, settings.verifier);
+    if (settings.rekey?.salt && settings.rekey.verifier) {
+      if (previousPassphrase === undefined) return false;
+      previousKey = await deriveKey(previousPassphrase, settings.rekey.salt);
+      await decryptValue(previousKey, settings.rekey.verifier);
+    }
+  } catch {
+    return false;
+  }
+  encryptionKey = key;
+  if (settings.rekey || settings.removing) {
+    // Values not yet moved stay readable with the old key while storage starts up
+    previousEncryptionKey = settings.removing ? key : previousKey;
+    await initStorage();
+    if (settings.removing) encryptionKey = null;
+    await completeRekey(settings.removing ? key : previousKey);
+  }
+  return true;
+}
+
+/**
+ * Forget the key. Decrypted data already loaded stays in memory, so the page should be reloaded afterwards.
+ */
+export function lockStorage(): void {
+  encryptionKey = null;
+}
+
+export function getAutoLockMinutes(): number {
+  return getEncryptionSettings()?.autoLockMinutes ?? DEFAULT_AUTO_LOCK_MINUTES;
+}
+
+export function setAutoLockMinutes(autoLockMinutes: number): void {
+  const settings = getEncryptionSettings();
+  if (!settings) return;
+  localStorage.setItem(ENCRYPTION_SETTINGS_KEY, JSON.stringify({ ...settings, autoLockMinutes }));
+}
+
+// Rewrite every stored value from the previous key to the current one, then clear the marker saying a move is under way
+async function completeRekey(previousKey: CryptoKey | null): Promise<void> {
+  await reencryptData(previousKey);
+  const settings = getEncryptionSettings();
+  if (!settings) return;
+  if (settings.removing) {
+    localStorage.removeItem(ENCRYPTION_SETTINGS_KEY);
+    return;
+  }
+  const { rekey: _rekey, ...done } = settings;
+  localStorage.setItem(ENCRYPTION_SETTINGS_KEY, JSON.stringify(done satisfies EncryptionSettings));
+}
+
+/**
+ * Set or change the workspace passphrase and encrypt everything in browser storage with it. The workspace must be
+ * unlocked. The new salt is saved before any value is rewritten, so if this is interrupted the next unlock finishes it.
+ */
+export async function setPassphrase(passphrase: string): Promise<void> {
+  await initStorage();
+  const previous = getEncryptionSettings();
+  const salt = createSalt();
+  const key = await deriveKey(passphrase, salt);
+  localStorage.setItem(ENCRYPTION_SETTINGS_KEY, JSON.stringify({
+    salt,
+    verifier: await encryptValue(key, VERIFIER_TEXT),
+    autoLockMinutes: getAutoLockMinutes(),
+    rekey: { salt: previous?.salt ?? null, verifier: previous?.verifier ?? null }
+  } satisfies EncryptionSettings));
+  const oldKey = encryptionKey;
+  encryptionKey = key;
+  await completeRekey(oldKey);
+}
+
+/**
+ * Remove the workspace passphrase and store everything unencrypted again; if this is interrupted, the passphrase is
+ * still asked for on the next load and unlocking finishes the removal
+ */
+export async function removePassphrase(): Promise<void> {
+  await initStorage();
+  const settings = getEncryptionSettings();
+  if (settings) localStorage.setItem(ENCRYPTION_SETTINGS_KEY, JSON.stringify({ ...settings, removing: true } satisfies EncryptionSettings));
+  const oldKey = encryptionKey;
+  encryptionKey = null;
+  await completeRekey(oldKey);
+}
+
+// Offline sync with the shared server
+
+// How long loading waits for the first sync before using the browser's copy
+const INITIAL_SYNC_TIMEOUT_MS = 5000;
+// Delay after a change before syncing, so a burst of saves goes out together
+const SYNC_DEBOUNCE_MS = 1000;
+// Interval for picking up changes made by others
+const SYNC_INTERVAL_MS = 30000;
+
+interface SyncQueueEntry {
+  key: string;
+  op: 'set' | 'remove';
+  // Increases with every queued change; an entry is only cleared if it was not re-queued while syncing
+  seq: number;
+}
+
+interface SyncBase {
+  revision: number;
+  suppliers: Supplier[];
+}
+
+export interface SyncStatus {
+  state: 'syncing' | 'synced' | 'offline' | 'error';
+  // Changes saved in this browser that the server does not have yet
+  pending: number;
+  conflicts: SyncConflict[];
+  lastSyncedAt: string | null;
+  message?: string;
+}
+
+type SyncStatusListener = (status: SyncStatus) => void;
+
+let syncServerUrl: string | null = null;
+let syncQueue: SyncQueueEntry[] = [];
+let syncSeq = 0;
+let syncStatus: SyncStatus = { state: 'offline', pending: 0, conflicts: [], lastSyncedAt: null };
+let syncPromise: Promise<void> | null = null;
+let syncRequested = false;
+let syncTimer: ReturnType<typeof setTimeout> | null = null;
+// Evidence files known to be in browser storage, so pulls do not re-read them every sync
+const localEvidenceIds = new Set<string>();
+const syncStatusListeners = new Set<SyncStatusListener>();
+const remoteChangeListeners = new Set<() => void>();
+// Server messages for queued changes refused during the current sync
+let syncRejections: string[] = [];
+
+function setSyncStatus(changes: Partial<SyncStatus>): void {
+  syncStatus = { ...syncStatus, ...changes, pending: syncQueue.length };
+  syncStatusListeners.forEach(listener => listener(syncStatus));
+}
+
+/**
+ * Sync state while the shared server is in use, or null when data only lives in this browser
+ */
+export function getSyncStatus(): SyncStatus | null {
+  return syncServerUrl ? syncStatus : null;
+}
+
+/**
+ * Subscribe to sync progress, pending changes and conflicts
+ * @returns Unsubscribe function
+ */
+export function onSyncStatusChange(listener: SyncStatusListener): () => void {
+  syncStatusListeners.add(listener);
+  return () => {
+    syncStatusListeners.delete(listener);
+  };
+}
+
+/**
+ * Subscribe to changes pulled from the server, after which saved data should be reloaded
+ * @returns Unsubscribe function
+ */
+export function onRemoteChanges(listener: () => void): () => void {
+  remoteChangeListeners.add(listener);
+  return () => {
+    remoteChangeListeners.delete(listener);
+  };
+}
+
+// The signed-in role may not make this change; sending it again would fail the same way
+function isRejectedChange(error: unknown): error is ApiError {
+  return error instanceof ApiError && error.status === 403;
+}
+
+async function enqueueSync(key: string, op: SyncQueueEntry['op']): Promise<void> {
+  syncQueue = [...syncQueue.filter(entry => entry.key !== key), { key, op, seq: ++syncSeq }];
+  await localBackend.set(SYNC_QUEUE_KEY, syncQueue);
+  setSyncStatus({});
+  if (syncTimer) clearTimeout(syncTimer);
+  syncTimer = setTimeout(() => {
+    syncTimer = null;
+    syncNow();
+  }, SYNC_DEBOUNCE_MS);
+}
+
+async function clearSyncEntry(entry: SyncQueueEntry): Promise<void> {
+  const before = syncQueue.length;
+  syncQueue = syncQueue.filter(queued => queued.key !== entry.key || queued.seq !== entry.seq);
+  if (syncQueue.length !== before) await localBackend.set(SYNC_QUEUE_KEY, syncQueue);
+}
+
+function findSyncEntry(key: string): SyncQueueEntry | undefined {
+  return syncQueue.find(entry => entry.key === key);
+}
+
+async function startSync(serverUrl: string): Promise<void> {
+  syncServerUrl = serverUrl;
+  syncQueue = (await localBackend.get<SyncQueueEntry[]>(SYNC_QUEUE_KEY)) || [];
+  syncSeq = syncQueue.reduce((max, entry) => Math.max(max, entry.seq), 0);
+  setSyncStatus({ conflicts: (await localBackend.get<SyncConflict[]>(SYNC_CONFLICTS_KEY)) || [] });
+  window.addEventListener('online', () => syncNow());
+  setInterval(() => syncNow(), SYNC_INTERVAL_MS);
+}
+
+async function readLocalSuppliers(): Promise<Supplier[]> {
+  const saved = (await localBackend.get(STORAGE_KEY)) ?? (await localBackend.get(LEGACY_STORAGE_KEY));
+  return saved === undefined ? [] : migrateSupplierPayload(saved);
+}
+
+// Send queued evidence uploads and deletions; suppliers are synced afterwards so they never reference missing files
+async function pushEvidence(serverUrl: string): Promise<void> {
+  const server = createServerBackend(serverUrl, localBackend);
+  for (const entry of syncQueue.filter(queued => queued.key.startsWith(EVIDENCE_KEY_PREFIX))) {
+    try {
+      if (entry.op === 'remove') {
+        await server.remove(entry.key);
+      } else {
+        const dataUrl = await localBackend.get<string>(entry.key);
+        if (dataUrl) await server.set(entry.key, dataUrl);
+      }
+    } catch (error) {
+      if (!isRejectedChange(error)) throw error;
+      syncRejections.push(error.message);
+    }
+    await clearSyncEntry(entry);
+  }
+}
+
+// Queued local values win unless the server refuses them; otherwise the server's value replaces the local one
+async function syncValue(serverUrl: string, key: string, combine?: (local: unknown, server: unknown) => unknown): Promise<boolean> {
+  const server = createServerBackend(serverUrl, localBackend);
+  const entry = findSyncEntry(key);
+  const local = await localBackend.get(key);
+  const remote = await server.get(key);
+  if (entry) {
+    try {
+      if (entry.op === 'remove') {
+        await server.remove(key);
+        await clearSyncEntry(entry);
+        return false;
+      }
+      const value = combine && remote !== undefined ? combine(local, remote) : local;
+      if (value !== undefined) await server.set(key, value);
+      if (!isSameValue(value, local)) await localBackend.set(key, value);
+      await clearSyncEntry(entry);
+      return !isSameValue(value, local);
+    } catch (error) {
+      if (!isRejectedChange(error)) throw error;
+      syncRejections.push(error.message);
+      await clearSyncEntry(entry);
+    }
+  }
+  if (remote === undefined || isSameValue(remote, local)) return false;
+  await localBackend.set(key, remote);
+  return true;
+}
+
+/**
+ * Three-way merge of the browser's suppliers with the server's, retried if another client writes in between
+ * @returns Whether the browser's copy changed
+ */
+async function syncSuppliers(serverUrl: string): Promise<boolean> {
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const startSeq = findSyncEntry(STORAGE_KEY)?.seq;
+    const remote = await apiRequest<{ revision?: number }>(serverUrl, '/api/suppliers');
+    const revision = remote?.revision ?? 0;
+    const serverSuppliers = remote ? migrateSupplierPayload(remote) : [];
+    const local = await readLocalSuppliers();
+    const base = await localBackend.get<SyncBase>(SYNC_BASE_KEY);
+    const { suppliers, conflicts } = mergeSupplierLists(base?.suppliers ?? null, local, serverSuppliers);
+
+    if (!isSameValue(suppliers, serverSuppliers)) {
+      try {
+        await apiRequest(serverUrl, '/api/suppliers', {
+          method: 'PUT',
+          headers: { 'If-Match': String(revision) },
+          body: JSON.stringify(createSupplierPayload(suppliers))
+        });
+      } catch (error) {
+        if (error instanceof ApiError && error.status === 409) continue;
+        if (!isRejectedChange(error)) throw error;
+        // Keep the server's suppliers; otherwise the next merge would send the refused change again
+        syncRejections.push(error.message);
+        await localBackend.set(SYNC_BASE_KEY, { revision, suppliers: serverSuppliers });
+        const entry = findSyncEntry(STORAGE_KEY);
+        if (entry) await clearSyncEntry(entry);
+        if (isSameValue(serverSuppliers, local)) return false;
+        await localBackend.set(STORAGE_KEY, createSupplierPayload(serverSuppliers));
+        return true;
+      }
+    }
+    // A save made while merging is not in the merged list; merge again rather than overwrite it
+    const entry = findSyncEntry(STORAGE_KEY);
+    if (entry?.seq !== startSeq) continue;
+
+    await localBackend.set(SYNC_BASE_KEY, { revision, suppliers });
+    if (entry) await clearSyncEntry(entry);
+    if (conflicts.length > 0) {
+      // A newer conflict on the same field replaces the older one
+      const replaced = new Set(conflicts.map(conflict => `${conflict.supplierId}|${conflict.key}`));
+      const allConflicts = [...syncStatus.conflicts.filter(c => !replaced.has(`${c.supplierId}|${c.key}`)), ...conflicts];
+      await localBackend.set(SYNC_CONFLICTS_KEY, allConflicts);
+      setSyncStatus({ conflicts: allConflicts });
+    }
+    if (isSameValue(suppliers, local)) return false;
+    await localBackend.set(STORAGE_KEY, createSupplierPayload(suppliers));
+    return true;
+  }
+  throw new Error('Suppliers kept changing during sync; will try again shortly');
+}
+
+// Fetch evidence files referenced by synced suppliers that this browser does not have yet
+async function pullEvidence(serverUrl: string): Promise<void> {
+  const server = createServerBackend(serverUrl, localBackend);
+  for (const fileId of (await readLocalSuppliers()).flatMap(supplier => getEvidenceFileIds(supplier))) {
+    if (localEvidenceIds.has(fileId)) continue;
+    const key = `${EVIDENCE_KEY_PREFIX}${fileId}`;
+    if ((await localBackend.get(key)) === undefined) {
+      const dataUrl = await server.get<string>(key);
+      if (dataUrl === undefined) continue;
+      await localBackend.set(key, dataUrl);
+    }
+    localEvidenceIds.add(fileId);
+  }
+}
+
+async function runSync(serverUrl: string): Promise<void> {
+  setSyncStatus({ state: 'syncing', message: undefined });
+  syncRejections = [];
+  try {
+    await pushEvidence(serverUrl);
+    const weightsChanged = await syncValue(serverUrl, WEIGHTS_STORAGE_KEY);
+    const materialsChanged = await syncValue(serverUrl, MATERIALS_STORAGE_KEY, (local, remote) =>
+      Array.from(new Set([...((local as string[]) || []), ...(remote as string[])])).sort()
+    );
+    // Questionnaires before suppliers, so suppliers never arrive on a template this browser does not have
+    const questionnaireChanged = await syncValue(serverUrl, QUESTIONNAIRE_STORAGE_KEY);
+    const templatesChanged = await syncValue(serverUrl, TEMPLATES_STORAGE_KEY);
+    const suppliersChanged = await syncSuppliers(serverUrl);
+    await pullEvidence(serverUrl);
+    setSyncStatus(syncRejections.length > 0
+      ? { state: 'error', message: `Changes refused by the server were discarded: ${syncRejections.join('; ')}`, lastSyncedAt: new Date().toISOString() }
+      : { state: 'synced', lastSyncedAt: new Date().toISOString() });
+    if (weightsChanged || materialsChanged || questionnaireChanged || templatesChanged || suppliersChanged) {
+      remoteChangeListeners.forEach(listener => listener());
+    }
   } catch (error) {
-    console.error('Error saving settings:', error);
+    // fetch rejects with a TypeError when the server cannot be reached at all
+    if (error instanceof ApiError || !(error instanceof TypeError)) {
+      console.error('Error syncing with server:', error);
+      setSyncStatus({ state: 'error', message: error instanceof Error ? error.message : String(error) });
+    } else {
+      setSyncStatus({ state: 'offline' });
+    }
+  }
+}
+
+/**
+ * Send queued changes and pull changes from the shared server; does nothing while using browser storage only
+ */
+export function syncNow(): Promise<void> {
+  const serverUrl = syncServerUrl;
+  if (!serverUrl) return Promise.resolve();
+  if (syncPromise) {
+    syncRequested = true;
+    return syncPromise;
+  }
+  syncPromise = (async () => {
+    do {
+      syncRequested = false;
+      await runSync(serverUrl);
+    } while (syncRequested);
+  })().finally(() => {
+    syncPromise = null;
+  });
+  return syncPromise;
+}
+
+/**
+ * Settle a sync conflict; keeping the browser's value saves it as a new change for the next sync
+ */
+export async function resolveSyncConflict(conflict: SyncConflict, choice: 'local' | 'server'): Promise<void> {
+  await initStorage();
+  if (choice === 'local') {
+    const suppliers = (await readLocalSuppliers()).map(supplier =>
+      supplier.id === conflict.supplierId ? applySyncConflict(supplier, conflict, choice) : supplier
+    );
+    await backend.set(STORAGE_KEY, createSupplierPayload(suppliers));
+  }
+  const conflicts = syncStatus.conflicts.filter(c => c.supplierId !== conflict.supplierId || c.key !== conflict.key);
+  await localBackend.set(SYNC_CONFLICTS_KEY, conflicts);
+  setSyncStatus({ conflicts });
+}
+
+// Shared server selection
+
+export interface StorageTarget {
+  target: 'browser' | 'server';
+  serverUrl: string;
+}
+
+export function getStorageTarget(): StorageTarget {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_TARGET_KEY) || 'null');
+    if (saved && (saved.target === 'browser' || saved.target === 'server') && typeof saved.serverUrl === 'string') {
+      return saved;
+    }
+  } catch {
+    // Fall through to the default
   }
+  return { target: 'browser', serverUrl: getApiUrl() };
 }
 
-export function loadSettings(): AppSettings {
+/**
+ * Select where shared data is kept; takes effect the next time the app loads.
+ * Sync state belongs to one server, so it is cleared when the server changes.
+ */
+export async function setStorageTarget(storageTarget: StorageTarget): Promise<void> {
+  const current = getStorageTarget();
+  if (current.target !== storageTarget.target || current.serverUrl !== storageTarget.serverUrl) {
+    await initStorage();
+    for (const key of [SYNC_QUEUE_KEY, SYNC_BASE_KEY, SYNC_CONFLICTS_KEY]) {
+      await localBackend.remove(key);
+    }
+  }
+  localStorage.setItem(STORAGE_TARGET_KEY, JSON.stringify(storageTarget));
+}
+
+/**
+ * Copy suppliers, weights, materials, the questionnaire, templates and evidence from browser storage to the server,
+ * replacing what it holds
+ * @returns Number of suppliers copied
+ * @throws Error if the server rejects any of the data
+ */
+export async function copyBrowserDataToServer(serverUrl: string): Promise<number> {
+  await initStorage();
+  const saved = (await localBackend.get(STORAGE_KEY)) ?? (await localBackend.get(LEGACY_STORAGE_KEY));
+  const suppliers = saved === undefined ? [] : migrateSupplierPayload(saved);
+  const server = createServerBackend(serverUrl, localBackend);
+
+  for (const fileId of suppliers.flatMap(supplier => getEvidenceFileIds(supplier))) {
+    const dataUrl = await localBackend.get<string>(`${EVIDENCE_KEY_PREFIX}${fileId}`);
+    if (dataUrl) await server.set(`${EVIDENCE_KEY_PREFIX}${fileId}`, dataUrl);
+  }
+  const weights = await localBackend.get(WEIGHTS_STORAGE_KEY);
+  if (weights) await server.set(WEIGHTS_STORAGE_KEY, weights);
+  const materials = await localBackend.get(MATERIALS_STORAGE_KEY);
+  if (materials) await server.set(MATERIALS_STORAGE_KEY, materials);
+  const questionnaire = await localBackend.get<string>(QUESTIONNAIRE_STORAGE_KEY);
+  if (questionnaire) await server.set(QUESTIONNAIRE_STORAGE_KEY, questionnaire);
+  else await server.remove(QUESTIONNAIRE_STORAGE_KEY);
+  await server.set(TEMPLATES_STORAGE_KEY, (await localBackend.get(TEMPLATES_STORAGE_KEY)) || []);
+  // Suppliers last, so they never reference evidence the server does not have
+  await server.set(STORAGE_KEY, createSupplierPayload(suppliers));
+  return suppliers.length;
+}
+
+/**
+ * Current storage usage and quota for this origin, if the browser reports it
+ */
+export async function getStorageEstimate(): Promise<{ usage: number; quota: number } | null> {
+  if (!navigator.storage?.estimate) return null;
   try {
-    const saved = localStorage.getItem(SETTINGS_STORAGE_KEY);
-    return saved ? JSON.parse(saved) : {};
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return { usage, quota };
+  } catch {
+    return null;
+  }
+}
+
+export function saveSuppliers(suppliers: Supplier[]): Promise<boolean> {
+  return write(STORAGE_KEY, createSupplierPayload(suppliers), 'suppliers');
+}
+
+export async function loadSuppliers(): Promise<Supplier[]> {
+  await initStorage();
+  let saved: unknown;
+  try {
+    saved = (await backend.get(STORAGE_KEY)) ?? (await backend.get(LEGACY_STORAGE_KEY));
+    if (saved === undefined) return [];
+    return migrateSupplierPayload(saved);
   } catch (error) {
-    console.error('Error loading settings:', error);
-    return {};
+    console.error('Error loading suppliers:', error);
+    // Keep the original data so the next save cannot destroy it
+    const original = saved ?? (browserBackend === localStorageBackend && backend === localBackend ? localStorage.getItem(STORAGE_KEY) : undefined);
+    if (original !== undefined && original !== null) {
+      try {
+        await backend.set(UNREADABLE_STORAGE_KEY, original);
+      } catch (backupError) {
+        console.error('Error preserving unreadable suppliers:', backupError);
+      }
+    }
+    return [];
+  }
+}
+
+export function saveCategoryWeights(weights: Record<string, number>): Promise<boolean> {
+  return write(WEIGHTS_STORAGE_KEY, weights, 'category weights');
+}
+
+export function loadCategoryWeights(): Promise<Record<string, number> | null> {
+  return read<Record<string, number> | null>(WEIGHTS_STORAGE_KEY, 'weights', null);
+}
+
+export interface AppSettings {
+  openaiApiKey?: string;
+  // Recorded as the author of audit log entries
+  assessorName?: string;
+  // Days a deleted supplier stays in the trash before it is purged
+  trashRetentionDays?: number;
+  [key: string]: any;
+}
+
+export function saveSettings(settings: AppSettings): Promise<boolean> {
+  return write(SETTINGS_STORAGE_KEY, settings, 'settings');
+}
+
+export function loadSettings(): Promise<AppSettings> {
+  return read<AppSettings>(SETTINGS_STORAGE_KEY, 'settings', {});
+}
+
+export function saveEvidenceData(fileId: string, dataUrl: string): Promise<boolean> {
+  return write(`${EVIDENCE_KEY_PREFIX}${fileId}`, dataUrl, 'evidence file');
+}
+
+export function loadEvidenceData(fileId: string): Promise<string | null> {
+  return read<string | null>(`${EVIDENCE_KEY_PREFIX}${fileId}`, 'evidence file', null);
+}
+
+export async function deleteEvidenceData(fileIds: string[]): Promise<void> {
+  await initStorage();
+  for (const fileId of fileIds) {
+    try {
+      await backend.remove(`${EVIDENCE_KEY_PREFIX}${fileId}`);
+    } catch (error) {
+      console.error('Error deleting evidence file:', error);
+    }
+  }
+}
+
+// Evidence file contents by file ID for the given suppliers
+async function collectEvidenceData(suppliers: Supplier[]): Promise<Record<string, string>> {
+  const evidence: Record<string, string> = {};
+  for (const fileId of suppliers.flatMap(supplier => getEvidenceFileIds(supplier))) {
+    const dataUrl = await loadEvidenceData(fileId);
+    if (dataUrl) evidence[fileId] = dataUrl;
   }
+  return evidence;
 }
 
-// Export suppliers to JSON file
-export function exportSuppliersToJSON(suppliers: Supplier[]): void {
-  const dataStr = JSON.stringify(suppliers, null, 2);
+// Export suppliers to JSON file, with their evidence files embedded
+// Trashed suppliers are left out of exports; with a passphrase the whole file is encrypted
+export async function exportSuppliersToJSON(suppliers: Supplier[], passphrase?: string): Promise<void> {
+  const activeSuppliers = suppliers.filter(s => !s.deletedAt);
+  const payload = { ...createSupplierPayload(activeSuppliers), evidence: await collectEvidenceData(activeSuppliers) };
+  const dataStr = JSON.stringify(passphrase ? await encryptBundle(passphrase, payload) : payload, null, 2);
   const dataBlob = new Blob([dataStr], { type: 'application/json' });
   const url = URL.createObjectURL(dataBlob);
   const link = document.createElement('a');
   link.href = url;
-  link.download = `suppliers-${new Date().toISOString().split('T')[0]}.json`;
+  link.download = `suppliers-${new Date().toISOString().split('T')[0]}${passphrase ? '-encrypted' : ''}.json`;
   link.click();
   URL.revokeObjectURL(url);
 }
 
 // Save materials list
-export function saveMaterials(materials: string[]): void {
-  try {
-    localStorage.setItem(MATERIALS_STORAGE_KEY, JSON.stringify(materials));
-  } catch (error) {
-    console.error('Error saving materials:', error);
-  }
+export function saveMaterials(materials: string[]): Promise<boolean> {
+  return write(MATERIALS_STORAGE_KEY, materials, 'materials list');
 }
 
 // Load materials list
-export function loadMaterials(): string[] {
+export function loadMaterials(): Promise<string[]> {
+  return read<string[]>(MATERIALS_STORAGE_KEY, 'materials', []);
+}
+
+// Questionnaire CSV in use instead of the default one, or null for the default
+export async function saveQuestionnaire(csv: string | null): Promise<boolean> {
+  if (csv !== null) return write(QUESTIONNAIRE_STORAGE_KEY, csv, 'questionnaire');
   try {
-    const saved = localStorage.getItem(MATERIALS_STORAGE_KEY);
-    return saved ? JSON.parse(saved) : [];
+    await initStorage();
+    await backend.remove(QUESTIONNAIRE_STORAGE_KEY);
+    return true;
   } catch (error) {
-    console.error('Error loading materials:', error);
-    return [];
+    reportWriteError('questionnaire', error);
+    return false;
   }
 }
 
-// Import suppliers from JSON file
-export function importSuppliersFromJSON(file: File): Promise<Supplier[]> {
+export function loadQuestionnaire(): Promise<string | null> {
+  return read<string | null>(QUESTIONNAIRE_STORAGE_KEY, 'questionnaire', null);
+}
+
+// Question text by criterion ID that saved answers were last checked against
+export function saveCriteriaSnapshot(questions: Record<string, string>): Promise<boolean> {
+  return write(CRITERIA_SNAPSHOT_KEY, questions, 'criteria snapshot');
+}
+
+export function loadCriteriaSnapshot(): Promise<Record<string, string> | null> {
+  return read<Record<string, string> | null>(CRITERIA_SNAPSHOT_KEY, 'criteria snapshot', null);
+}
+
+// Questionnaire templates besides the standard one, which is the questionnaire and weights above
+export function saveTemplates(templates: QuestionnaireTemplate[]): Promise<boolean> {
+  return write(TEMPLATES_STORAGE_KEY, templates, 'questionnaire templates');
+}
+
+export function loadTemplates(): Promise<QuestionnaireTemplate[]> {
+  return read<QuestionnaireTemplate[]>(TEMPLATES_STORAGE_KEY, 'questionnaire templates', []);
+}
+
+export interface SupplierImport extends ValidationResult {
+  // Embedded evidence file contents by file ID; saved once the import is applied
+  evidence: Record<string, string>;
+}
+
+// Evidence embedded in an exported file, ignoring anything that is not a data URL
+function readEmbeddedEvidence(parsed: unknown): Record<string, string> {
+  const evidence = (parsed as { evidence?: unknown } | null)?.evidence;
+  if (typeof evidence !== 'object' || evidence === null) return {};
+  return Object.fromEntries(
+    Object.entries(evidence).filter(([, value]) => typeof value === 'string' && value.startsWith('data:'))
+  ) as Record<string, string>;
+}
+
+export function readFileText(file: File): Promise<string> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const suppliers = JSON.parse(e.target?.result as string);
-        resolve(suppliers);
-      } catch (error) {
-        reject(new Error('Invalid JSON file'));
-      }
-    };
+    reader.onload = (e) => resolve(e.target?.result as string);
     reader.onerror = () => reject(new Error('Error reading file'));
     reader.readAsText(file);
   });
 }
 
+/**
+ * Import suppliers from JSON file, separating valid records from invalid ones
+ * @param passphrase Opens an encrypted export
+ * @throws PassphraseRequiredError if the file is encrypted and no passphrase was given
+ * @throws WrongPassphraseError if the passphrase does not open the file
+ */
+export async function importSuppliersFromJSON(file: File, passphrase?: string): Promise<SupplierImport> {
+  const text = await readFileText(file);
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Invalid JSON file');
+  }
+  if (isEncryptedBundle(parsed)) {
+    if (!passphrase) throw new PassphraseRequiredError();
+    parsed = await decryptBundle(passphrase, parsed);
+  }
+  if ((parsed as { format?: unknown } | null)?.format === 'powerhouse-workspace-backup') {
+    throw new Error('This is a workspace backup; use Restore under Workspace Backup instead');
+  }
+  return { ...validateSuppliers(migrateSupplierPayload(parsed)), evidence: readEmbeddedEvidence(parsed) };
+}
@@ -0,0 +1,159 @@
+// Sync utilities - three-way merge of the browser's suppliers with the shared server's copy
+// The base is the list both sides last agreed on, so only fields changed on both sides can conflict.
+
+import { Supplier } from './storage';
+import { PROFILE_FIELDS, readField, writeField } from './merge';
+import { isSameValue } from './audit';
+
+// Criterion-keyed maps are merged per criterion so edits to different criteria never conflict
+const PER_CRITERION_FIELDS = ['scores', 'answers', 'additionalNotes', 'notApplicable', 'documents'] as const;
+
+const PER_CRITERION_LABELS: Record<typeof PER_CRITERION_FIELDS[number], string> = {
+  scores: 'Score',
+  answers: 'Answer',
+  additionalNotes: 'Notes',
+  notApplicable: 'Not applicable',
+  documents: 'Evidence'
+};
+
+// Append-only histories are combined from both sides
+const HISTORY_FIELDS = ['assessments', 'questionSets', 'auditLog'] as const;
+
+const SKIPPED_FIELDS = new Set<string>(['id', 'lastUpdated', ...PER_CRITERION_FIELDS, ...HISTORY_FIELDS]);
+
+const FIELD_LABELS: Record<string, string> = {
+  ...Object.fromEntries(PROFILE_FIELDS.map(field => [field.key, field.label])),
+  materials: 'Materials',
+  contacts: 'Contacts',
+  certifications: 'Certifications',
+  completedCriteria: 'Completed Criteria',
+  aiFlags: 'AI Flags',
+  aiAssessed: 'AI Assessed',
+  templateId: 'Questionnaire Template',
+  scoresNormalized: 'Score Scale',
+  deletedAt: 'Trash'
+};
+
+// A field both sides changed to different values; the server's value is kept until the user chooses
+export interface SyncConflict {
+  supplierId: string;
+  supplierName: string;
+  key: string;
+  label: string;
+  criterionId?: string;
+  localValue: unknown;
+  serverValue: unknown;
+  detectedAt: string;
+}
+
+export interface SupplierSyncResult {
+  suppliers: Supplier[];
+  conflicts: SyncConflict[];
+}
+
+interface SyncField {
+  key: string;
+  label: string;
+  criterionId?: string;
+}
+
+function listSyncFields(copies: Supplier[]): SyncField[] {
+  const fields: SyncField[] = [];
+  const topLevel = new Set(copies.flatMap(copy => Object.keys(copy)));
+  topLevel.forEach(key => {
+    if (!SKIPPED_FIELDS.has(key)) fields.push({ key, label: FIELD_LABELS[key] || key });
+  });
+  PER_CRITERION_FIELDS.forEach(field => {
+    const criterionIds = new Set(copies.flatMap(copy => Object.keys(copy[field] || {})));
+    const label = PER_CRITERION_LABELS[field];
+    criterionIds.forEach(id => fields.push({ key: `${field}.${id}`, label: `${label} ${id}`, criterionId: id }));
+  });
+  return fields;
+}
+
+function unionBy<T>(lists: T[][], getKey: (item: T) => string): T[] {
+  const seen = new Set<string>();
+  return lists.flat().filter(item => {
+    const key = getKey(item);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function mergeSupplier(base: Supplier | undefined, local: Supplier, server: Supplier, detectedAt: string): { merged: Supplier; conflicts: SyncConflict[] } {
+  let merged: Supplier = { ...server };
+  const conflicts: SyncConflict[] = [];
+
+  listSyncFields([local, server, ...(base ? [base] : [])]).forEach(field => {
+    const localValue = readField(local, field.key);
+    const serverValue = readField(server, field.key);
+    if (isSameValue(localValue, serverValue)) return;
+    const baseValue = base ? readField(base, field.key) : undefined;
+    // Only the browser changed it
+    if (base && isSameValue(serverValue, baseValue)) {
+      merged = writeField(merged, field.key, localValue);
+      return;
+    }
+    // Only the server changed it; the merged copy already has its value
+    if (base && isSameValue(localValue, baseValue)) return;
+    conflicts.push({
+      supplierId: server.id,
+      supplierName: server.name || local.name,
+      ...field,
+      localValue,
+      serverValue,
+      detectedAt
+    });
+  });
+
+  merged.assessments = unionBy([server.assessments || [], local.assessments || []], snapshot => snapshot.assessedAt);
+  merged.questionSets = { ...(server.questionSets || {}), ...(local.questionSets || {}) };
+  merged.auditLog = unionBy(
+    [server.auditLog || [], local.auditLog || []],
+    entry => `${entry.timestamp}|${entry.criterionId}|${entry.field}`
+  ).sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  merged.lastUpdated = [local.lastUpdated, server.lastUpdated].sort().pop() || server.lastUpdated;
+  return { merged, conflicts };
+}
+
+/**
+ * Merge the browser's and the server's supplier lists against the last synced list
+ * @param base Last synced list, or null before the first sync (any difference is then a conflict)
+ * @returns The merged list, holding the server's value for every conflicting field, and the conflicts
+ */
+export function mergeSupplierLists(base: Supplier[] | null, local: Supplier[], server: Supplier[], now: Date = new Date()): SupplierSyncResult {
+  const detectedAt = now.toISOString();
+  const baseById = new Map((base || []).map(s => [s.id, s]));
+  const localById = new Map(local.map(s => [s.id, s]));
+  const serverById = new Map(server.map(s => [s.id, s]));
+  const result: SupplierSyncResult = { suppliers: [], conflicts: [] };
+
+  // Browser order first, then suppliers only the server has
+  const ids = [...local.map(s => s.id), ...server.map(s => s.id).filter(id => !localById.has(id))];
+  ids.forEach(id => {
+    const baseCopy = baseById.get(id);
+    const localCopy = localById.get(id);
+    const serverCopy = serverById.get(id);
+
+    if (localCopy && serverCopy) {
+      const { merged, conflicts } = mergeSupplier(baseCopy, localCopy, serverCopy, detectedAt);
+      result.suppliers.push(merged);
+      result.conflicts.push(...conflicts);
+      return;
+    }
+    const onlyCopy = (localCopy || serverCopy) as Supplier;
+    // Missing on one side: new on the other side, or deleted there. A delete loses to edits made since the last sync.
+    if (baseCopy && isSameValue(baseCopy, onlyCopy)) return;
+    result.suppliers.push(onlyCopy);
+  });
+
+  return result;
+}
+
+/**
+ * Write the chosen side of a conflict into a supplier
+ */
+export function applySyncConflict(supplier: Supplier, conflict: SyncConflict, choice: 'local' | 'server'): Supplier {
+  return writeField(supplier, conflict.key, choice === 'local' ? conflict.localValue : conflict.serverValue);
+}
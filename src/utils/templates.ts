@@ -0,0 +1,79 @@
+// Questionnaire template utilities - named question sets for different supplier types, and the questions they share,
+// on which suppliers assessed with different templates can still be compared
+
+import { CriterionDefinition, loadQuestions } from './csvParser';
+import { isSameQuestion } from './questionnaireVersion';
+import type { QuestionnaireTemplate, Supplier } from './storage';
+
+/**
+ * The workspace questionnaire and category weights. Suppliers created before templates, and suppliers whose template
+ * no longer exists, are assessed with it.
+ */
+export const STANDARD_TEMPLATE_ID = 'standard';
+export const STANDARD_TEMPLATE_NAME = 'Standard';
+
+export interface TemplateOption {
+  id: string;
+  name: string;
+}
+
+// Every template that can be chosen, standard first
+export function getTemplateOptions(templates: QuestionnaireTemplate[]): TemplateOption[] {
+  return [
+    { id: STANDARD_TEMPLATE_ID, name: STANDARD_TEMPLATE_NAME },
+    ...templates.map(({ id, name }) => ({ id, name }))
+  ];
+}
+
+/**
+ * Template a supplier is assessed with
+ * @returns STANDARD_TEMPLATE_ID for a missing or unknown template ID
+ */
+export function resolveTemplateId(templates: QuestionnaireTemplate[], templateId: string | undefined): string {
+  return templates.some(template => template.id === templateId) ? (templateId as string) : STANDARD_TEMPLATE_ID;
+}
+
+export function getTemplateName(templates: QuestionnaireTemplate[], templateId: string | undefined): string {
+  return templates.find(template => template.id === templateId)?.name ?? STANDARD_TEMPLATE_NAME;
+}
+
+// Suppliers, including those in the trash, assessed with each template
+export function getTemplateUsage(templates: QuestionnaireTemplate[], suppliers: Supplier[]): Record<string, number> {
+  const usage: Record<string, number> = {};
+  suppliers.forEach(supplier => {
+    const id = resolveTemplateId(templates, supplier.templateId);
+    usage[id] = (usage[id] || 0) + 1;
+  });
+  return usage;
+}
+
+// Questions of every non-standard template by template ID
+export async function loadTemplateCriteria(
+  templates: QuestionnaireTemplate[]
+): Promise<Record<string, Record<string, CriterionDefinition>>> {
+  const entries = await Promise.all(templates.map(async template => [template.id, await loadQuestions(template.csv)] as const));
+  return Object.fromEntries(entries);
+}
+
+/**
+ * Questions every given question set asks the same way: the same criterion ID, wording, options, priority and
+ * category. An answer to one of these means the same thing whichever template it was given under.
+ */
+export function getCommonCriteria(questionSets: Array<Record<string, CriterionDefinition>>): Record<string, CriterionDefinition> {
+  if (questionSets.length === 0) return {};
+  const [first, ...others] = questionSets;
+  return Object.fromEntries(
+    Object.entries(first).filter(([id, criterion]) => others.every(set => set[id] && isSameQuestion(set[id], criterion)))
+  );
+}
+
+/**
+ * Answers to the given questions only; scoring falls back to the criterion ID prefix for answers outside the
+ * question set, so they must be left out rather than just unlisted
+ */
+export function pickScores(
+  scores: Record<string, number | null>,
+  criteria: Record<string, CriterionDefinition>
+): Record<string, number | null> {
+  return Object.fromEntries(Object.entries(scores).filter(([id]) => id in criteria));
+}
@@ -0,0 +1,34 @@
+// Trash utilities - deleted suppliers are kept for a retention period before being purged
+
+import { Supplier } from './storage';
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isTrashed(supplier: Supplier): boolean {
+  return Boolean(supplier.deletedAt);
+}
+
+export function moveToTrash(supplier: Supplier): Supplier {
+  return { ...supplier, deletedAt: new Date().toISOString() };
+}
+
+export function restoreFromTrash(supplier: Supplier): Supplier {
+  const { deletedAt: _deletedAt, ...restored } = supplier;
+  return restored;
+}
+
+/**
+ * Date on which a trashed supplier is purged
+ */
+export function getPurgeDate(supplier: Supplier, retentionDays: number): Date {
+  return new Date(new Date(supplier.deletedAt as string).getTime() + retentionDays * DAY_MS);
+}
+
+/**
+ * Remove trashed suppliers whose retention period has ended
+ */
+export function purgeExpiredSuppliers(suppliers: Supplier[], retentionDays: number, now: Date = new Date()): Supplier[] {
+  return suppliers.filter(supplier => !isTrashed(supplier) || getPurgeDate(supplier, retentionDays) > now);
+}
@@ -0,0 +1,271 @@
+// Validation of supplier records against the Supplier shape before they are imported
+
+import { Supplier } from './storage';
+import { isQuestionAnswer } from './questionKinds';
+
+export interface ValidationIssue {
+  field: string;
+  problem: string;
+}
+
+export interface InvalidRecord {
+  // 1-based position of the record in the imported file
+  row: number;
+  record: unknown;
+  issues: ValidationIssue[];
+}
+
+export interface ValidationResult {
+  valid: Supplier[];
+  invalid: InvalidRecord[];
+}
+
+const AUDIT_FIELDS = ['score', 'answer', 'note', 'notApplicable', 'aiFlag', 'reviewStatus'];
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'a list';
+  return typeof value === 'object' ? 'an object' : `${typeof value} ${JSON.stringify(value)}`;
+}
+
+function checkStringArray(record: Record<string, any>, field: string, issues: ValidationIssue[]): void {
+  const value = record[field];
+  if (!Array.isArray(value)) {
+    issues.push({ field, problem: `Expected a list of text values but found ${describe(value)}` });
+    return;
+  }
+  value.forEach((item, idx) => {
+    if (typeof item !== 'string') {
+      issues.push({ field: `${field}[${idx}]`, problem: `Expected text but found ${describe(item)}` });
+    }
+  });
+}
+
+function checkObjectList(
+  record: Record<string, any>,
+  field: string,
+  issues: ValidationIssue[],
+  checkItem: (item: Record<string, any>, path: string) => void
+): void {
+  const value = record[field];
+  if (!Array.isArray(value)) {
+    issues.push({ field, problem: `Expected a list but found ${describe(value)}` });
+    return;
+  }
+  value.forEach((item, idx) => {
+    const path = `${field}[${idx}]`;
+    if (!isRecord(item)) {
+      issues.push({ field: path, problem: `Expected an object but found ${describe(item)}` });
+      return;
+    }
+    checkItem(item, path);
+  });
+}
+
+function checkScores(scores: unknown, field: string, issues: ValidationIssue[]): void {
+  if (!isRecord(scores)) {
+    issues.push({ field, problem: `Expected an object of criterion scores but found ${describe(scores)}` });
+    return;
+  }
+  Object.entries(scores).forEach(([criterionId, score]) => {
+    if (score === null) return;
+    if (typeof score !== 'number' || !Number.isFinite(score)) {
+      issues.push({ field: `${field}.${criterionId}`, problem: `Score must be a number or null but found ${describe(score)}` });
+    } else if (score < 1) {
+      issues.push({ field: `${field}.${criterionId}`, problem: `Score ${score} is below 1, the lowest score on any scale` });
+    }
+  });
+}
+
+function checkNotes(notes: unknown, field: string, issues: ValidationIssue[]): void {
+  if (!isRecord(notes)) {
+    issues.push({ field, problem: `Expected an object of criterion notes but found ${describe(notes)}` });
+    return;
+  }
+  Object.entries(notes).forEach(([criterionId, note]) => {
+    if (typeof note !== 'string') {
+      issues.push({ field: `${field}.${criterionId}`, problem: `Note must be text but found ${describe(note)}` });
+    }
+  });
+}
+
+function checkAnswers(answers: unknown, field: string, issues: ValidationIssue[]): void {
+  if (!isRecord(answers)) {
+    issues.push({ field, problem: `Expected an object of criterion answers but found ${describe(answers)}` });
+    return;
+  }
+  Object.entries(answers).forEach(([criterionId, answer]) => {
+    if (!isQuestionAnswer(answer)) {
+      issues.push({ field: `${field}.${criterionId}`, problem: `Answer must be a number, true/false or a list of choices but found ${describe(answer)}` });
+    }
+  });
+}
+
+// Every "Not applicable" answer needs a justification
+function checkNotApplicable(notApplicable: unknown, field: string, issues: ValidationIssue[]): void {
+  if (!isRecord(notApplicable)) {
+    issues.push({ field, problem: `Expected an object of not-applicable justifications but found ${describe(notApplicable)}` });
+    return;
+  }
+  Object.entries(notApplicable).forEach(([criterionId, justification]) => {
+    if (typeof justification !== 'string' || justification.trim().length === 0) {
+      issues.push({ field: `${field}.${criterionId}`, problem: `Expected a justification but found ${describe(justification)}` });
+    }
+  });
+}
+
+/**
+ * Check a single record against the Supplier shape
+ * @returns Every problem found; an empty list means the record is valid
+ */
+export function validateSupplier(record: unknown): ValidationIssue[] {
+  if (!isRecord(record)) {
+    return [{ field: '(record)', problem: `Expected a supplier object but found ${describe(record)}` }];
+  }
+
+  const issues: ValidationIssue[] = [];
+
+  if (typeof record.id !== 'string' || record.id.trim().length === 0) {
+    issues.push({ field: 'id', problem: `Expected a supplier ID but found ${describe(record.id)}` });
+  }
+  if (record.legacyId !== undefined && (typeof record.legacyId !== 'number' || !Number.isInteger(record.legacyId))) {
+    issues.push({ field: 'legacyId', problem: `Expected a whole number but found ${describe(record.legacyId)}` });
+  }
+  if (typeof record.name !== 'string' || record.name.trim().length === 0) {
+    issues.push({ field: 'name', problem: 'Supplier name is missing' });
+  }
+  ['location', 'streetAddress', 'abn', 'website', 'tradeType', 'profileNotes', 'templateId', 'lastUpdated'].forEach(field => {
+    if (typeof record[field] !== 'string') {
+      issues.push({ field, problem: `Expected text but found ${describe(record[field])}` });
+    }
+  });
+  if (typeof record.lastUpdated === 'string' && isNaN(new Date(record.lastUpdated).getTime())) {
+    issues.push({ field: 'lastUpdated', problem: `"${record.lastUpdated}" is not a valid date` });
+  }
+  if (record.deletedAt !== undefined && (typeof record.deletedAt !== 'string' || isNaN(new Date(record.deletedAt).getTime()))) {
+    issues.push({ field: 'deletedAt', problem: `Expected a deletion date but found ${describe(record.deletedAt)}` });
+  }
+  if (record.scoresNormalized !== undefined && typeof record.scoresNormalized !== 'boolean') {
+    issues.push({ field: 'scoresNormalized', problem: `Expected true or false but found ${describe(record.scoresNormalized)}` });
+  }
+  if (typeof record.distance !== 'number' || !Number.isFinite(record.distance) || record.distance < 0) {
+    issues.push({ field: 'distance', problem: `Expected a distance in km but found ${describe(record.distance)}` });
+  }
+
+  checkStringArray(record, 'materials', issues);
+  checkStringArray(record, 'completedCriteria', issues);
+  checkScores(record.scores, 'scores', issues);
+  checkAnswers(record.answers, 'answers', issues);
+  checkNotes(record.additionalNotes, 'additionalNotes', issues);
+  checkNotApplicable(record.notApplicable, 'notApplicable', issues);
+
+  if (!isRecord(record.documents)) {
+    issues.push({ field: 'documents', problem: `Expected an object of evidence files but found ${describe(record.documents)}` });
+  } else {
+    Object.entries(record.documents).forEach(([criterionId, files]) => {
+      const field = `documents.${criterionId}`;
+      if (!Array.isArray(files)) {
+        issues.push({ field, problem: `Expected a list of evidence files but found ${describe(files)}` });
+        return;
+      }
+      files.forEach((file, idx) => {
+        if (!isRecord(file) || typeof file.id !== 'string' || typeof file.name !== 'string') {
+          issues.push({ field: `${field}[${idx}]`, problem: 'Evidence file is missing its ID or name' });
+        }
+      });
+    });
+  }
+
+  checkObjectList(record, 'contacts', issues, (contact, path) => {
+    ['name', 'role', 'email', 'phone'].forEach(field => {
+      if (typeof contact[field] !== 'string') {
+        issues.push({ field: `${path}.${field}`, problem: `Expected text but found ${describe(contact[field])}` });
+      }
+    });
+  });
+  checkObjectList(record, 'certifications', issues, (certification, path) => {
+    if (typeof certification.id !== 'string' || typeof certification.standard !== 'string' || certification.standard.trim().length === 0) {
+      issues.push({ field: path, problem: 'Certification is missing its ID or standard' });
+    }
+    ['certificateNumber', 'issuer', 'scope'].forEach(field => {
+      if (typeof certification[field] !== 'string') {
+        issues.push({ field: `${path}.${field}`, problem: `Expected text but found ${describe(certification[field])}` });
+      }
+    });
+    ['issueDate', 'expiryDate'].forEach(field => {
+      const value = certification[field];
+      if (typeof value !== 'string' || (value !== '' && isNaN(new Date(value).getTime()))) {
+        issues.push({ field: `${path}.${field}`, problem: `Expected a date or empty text but found ${describe(value)}` });
+      }
+    });
+    if (!Array.isArray(certification.criterionIds) || certification.criterionIds.some((id: unknown) => typeof id !== 'string')) {
+      issues.push({ field: `${path}.criterionIds`, problem: 'Expected a list of criterion IDs' });
+    }
+  });
+  checkObjectList(record, 'aiFlags', issues, (flag, path) => {
+    if (typeof flag.criterionId !== 'string') {
+      issues.push({ field: `${path}.criterionId`, problem: 'AI flag is missing its criterion ID' });
+    }
+  });
+  checkObjectList(record, 'assessments', issues, (snapshot, path) => {
+    if (typeof snapshot.assessedAt !== 'string' || isNaN(new Date(snapshot.assessedAt).getTime())) {
+      issues.push({ field: `${path}.assessedAt`, problem: 'Assessment snapshot has no valid date' });
+    }
+    checkScores(snapshot.scores, `${path}.scores`, issues);
+    checkAnswers(snapshot.answers, `${path}.answers`, issues);
+    checkNotApplicable(snapshot.notApplicable, `${path}.notApplicable`, issues);
+    if (snapshot.questionnaireVersion !== undefined && snapshot.questionnaireVersion !== null && typeof snapshot.questionnaireVersion !== 'string') {
+      issues.push({ field: `${path}.questionnaireVersion`, problem: `Expected a questionnaire version, got ${describe(snapshot.questionnaireVersion)}` });
+    }
+  });
+  if (!isRecord(record.questionSets)) {
+    issues.push({ field: 'questionSets', problem: `Expected an object of question sets but found ${describe(record.questionSets)}` });
+  } else {
+    Object.entries(record.questionSets).forEach(([version, questions]) => {
+      if (!isRecord(questions)) {
+        issues.push({ field: `questionSets.${version}`, problem: `Expected a question set but found ${describe(questions)}` });
+      }
+    });
+  }
+  checkObjectList(record, 'auditLog', issues, (entry, path) => {
+    if (typeof entry.timestamp !== 'string' || typeof entry.criterionId !== 'string') {
+      issues.push({ field: path, problem: 'Audit entry is missing its timestamp or criterion ID' });
+    }
+    if (!AUDIT_FIELDS.includes(entry.field)) {
+      issues.push({ field: `${path}.field`, problem: `Unknown audit field ${describe(entry.field)}` });
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Split records into valid suppliers and invalid records with their problems
+ */
+export function validateSuppliers(records: unknown[]): ValidationResult {
+  const valid: Supplier[] = [];
+  const invalid: InvalidRecord[] = [];
+  const seenIds = new Set<unknown>();
+
+  records.forEach((record, idx) => {
+    const issues = validateSupplier(record);
+    if (issues.length === 0) {
+      const id = (record as Supplier).id;
+      if (seenIds.has(id)) {
+        issues.push({ field: 'id', problem: `ID ${id} is used by an earlier record in the same file` });
+      }
+      seenIds.add(id);
+    }
+    if (issues.length > 0) {
+      invalid.push({ row: idx + 1, record, issues });
+    } else {
+      valid.push(record as Supplier);
+    }
+  });
+
+  return { valid, invalid };
+}